@@ -76,7 +76,7 @@ function toLockFilename(resourceId: string): string {
 /**
  * Check if a process is still running.
  */
-function isProcessRunning(pid: number): boolean {
+export function isProcessRunning(pid: number): boolean {
 	try {
 		// Signal 0 doesn't kill, just checks if process exists
 		process.kill(pid, 0)
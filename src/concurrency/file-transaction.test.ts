@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { createTempDir } from '../testing/index.js'
+import {
+	deleteFileOperation,
+	executeFileTransaction,
+	type FileOperation,
+	mkdirOperation,
+	moveFileOperation,
+	patchJsonFileOperation,
+	writeFileOperation,
+} from './file-transaction.js'
+import { journaledOperation, recoverTransactions, registerOperationType } from './journal.js'
+
+/**
+ * Operation that always fails, to force a rollback
+ */
+const failing: FileOperation = {
+	name: 'fail',
+	paths: [],
+	execute: async () => {
+		throw new Error('boom')
+	},
+	rollback: async () => {},
+}
+
+describe('file transactions', () => {
+	let dir: string
+
+	beforeEach(() => {
+		dir = createTempDir('file-tx-test-')
+	})
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	const read = (name: string) => readFileSync(join(dir, name), 'utf8')
+
+	test('applies every operation on success', async () => {
+		writeFileSync(join(dir, 'a.md'), 'old a')
+		writeFileSync(join(dir, 'b.md'), 'b')
+		writeFileSync(join(dir, 'c.md'), 'c')
+		writeFileSync(join(dir, 'index.json'), JSON.stringify({ keep: 1, drop: 2, nested: { x: 1 } }))
+
+		const result = await executeFileTransaction([
+			writeFileOperation(join(dir, 'a.md'), 'new a'),
+			moveFileOperation(join(dir, 'b.md'), join(dir, 'archive', 'b.md')),
+			deleteFileOperation(join(dir, 'c.md')),
+			mkdirOperation(join(dir, 'empty', 'deep')),
+			patchJsonFileOperation(join(dir, 'index.json'), { drop: null, nested: { y: 2 } }),
+		])
+
+		expect(result.success).toBe(true)
+		expect(read('a.md')).toBe('new a')
+		expect(read('archive/b.md')).toBe('b')
+		expect(existsSync(join(dir, 'b.md'))).toBe(false)
+		expect(existsSync(join(dir, 'c.md'))).toBe(false)
+		expect(existsSync(join(dir, 'empty', 'deep'))).toBe(true)
+		expect(JSON.parse(read('index.json'))).toEqual({ keep: 1, nested: { x: 1, y: 2 } })
+	})
+
+	test('restores every file when a later operation fails', async () => {
+		writeFileSync(join(dir, 'a.md'), 'old a')
+		writeFileSync(join(dir, 'b.md'), 'b')
+		writeFileSync(join(dir, 'replaced.md'), 'replaced')
+		writeFileSync(join(dir, 'c.bin'), Buffer.from([0xff, 0x00, 0xfe]))
+		writeFileSync(join(dir, 'index.json'), '{"count": 1}\n')
+		const before = readdirSync(dir).sort()
+
+		const result = await executeFileTransaction([
+			writeFileOperation(join(dir, 'a.md'), 'new a'),
+			writeFileOperation(join(dir, 'new', 'deep', 'file.md'), 'created'),
+			moveFileOperation(join(dir, 'b.md'), join(dir, 'replaced.md')),
+			deleteFileOperation(join(dir, 'c.bin')),
+			mkdirOperation(join(dir, 'made')),
+			patchJsonFileOperation(join(dir, 'index.json'), { count: 2 }),
+			failing,
+		])
+
+		expect(result).toMatchObject({ success: false, failedAt: 'fail' })
+		expect(readdirSync(dir).sort()).toEqual(before)
+		expect(read('a.md')).toBe('old a')
+		expect(read('b.md')).toBe('b')
+		expect(read('replaced.md')).toBe('replaced')
+		expect([...readFileSync(join(dir, 'c.bin'))]).toEqual([0xff, 0x00, 0xfe])
+		expect(read('index.json')).toBe('{"count": 1}\n')
+	})
+
+	test('move fails on a missing source and leaves the destination alone', async () => {
+		writeFileSync(join(dir, 'dest.md'), 'unrelated')
+
+		const result = await executeFileTransaction([
+			writeFileOperation(join(dir, 'a.md'), 'a'),
+			moveFileOperation(join(dir, 'missing.md'), join(dir, 'dest.md')),
+			failing,
+		])
+
+		expect(result).toMatchObject({ success: false })
+		expect(result.error?.message).toContain('file not found')
+		expect(readdirSync(dir)).toEqual(['dest.md'])
+		expect(read('dest.md')).toBe('unrelated')
+	})
+
+	test('mkdir rollback keeps directories that already existed', async () => {
+		mkdirSync(join(dir, 'existing'))
+
+		await executeFileTransaction([mkdirOperation(join(dir, 'existing', 'a', 'b')), failing])
+
+		expect(readdirSync(dir)).toEqual(['existing'])
+		expect(readdirSync(join(dir, 'existing'))).toEqual([])
+	})
+
+	test('holds a lock on every touched path', async () => {
+		const lockDir = join(dir, 'locks')
+		const file = join(dir, 'a.md')
+		let locksHeld: string[] = []
+
+		const result = await executeFileTransaction(
+			[
+				writeFileOperation(file, 'a'),
+				{
+					name: 'inspect',
+					paths: [],
+					execute: async () => {
+						locksHeld = readdirSync(lockDir)
+					},
+					rollback: async () => {},
+				},
+			],
+			{ lock: { lockDir } },
+		)
+
+		expect(result.success).toBe(true)
+		expect(locksHeld).toHaveLength(1)
+		expect(readdirSync(lockDir)).toEqual([])
+	})
+
+	test('recovery restores a file the process died while writing', async () => {
+		const journalDir = join(dir, 'journal')
+		const crashDir = join(dir, 'crash')
+		const file = join(dir, 'a.md')
+		writeFileSync(file, 'old')
+		const write = writeFileOperation(file, 'new')
+
+		// Keep the journal as it was mid-step, as if the process died there
+		await executeFileTransaction(
+			[
+				{
+					...write,
+					execute: async (prepared) => {
+						await write.execute(prepared)
+						mkdirSync(crashDir)
+						for (const name of readdirSync(journalDir)) {
+							writeFileSync(join(crashDir, name), readFileSync(join(journalDir, name)))
+						}
+						throw new Error('crash')
+					},
+				},
+			],
+			{ journal: { dir: journalDir } },
+		)
+		expect(read('a.md')).toBe('new')
+		const [journal] = readdirSync(crashDir)
+		expect(
+			JSON.parse(readFileSync(join(crashDir, journal as string), 'utf8')).steps[0],
+		).toMatchObject({ type: 'fs.write', status: 'started' })
+
+		const [recovered] = await recoverTransactions(crashDir)
+		expect(recovered?.outcome).toBe('rolled-back')
+		expect(read('a.md')).toBe('old')
+	})
+
+	test('journals file operations so recovery can finish a rollback', async () => {
+		const journalDir = join(dir, 'journal')
+		const file = join(dir, 'a.md')
+		writeFileSync(file, 'old')
+		let undoFails = true
+		registerOperationType<void, void>('test.fs-stuck', {
+			execute: async () => {},
+			rollback: async () => {
+				if (undoFails) throw new Error('disk busy')
+			},
+		})
+		registerOperationType<void, void>('test.fs-fail', {
+			execute: async () => {
+				throw new Error('boom')
+			},
+			rollback: async () => {},
+		})
+
+		const result = await executeFileTransaction(
+			[
+				{ ...journaledOperation('test.fs-stuck'), paths: [] },
+				writeFileOperation(file, 'new'),
+				{ ...journaledOperation('test.fs-fail'), paths: [] },
+			],
+			{ journal: { dir: journalDir } },
+		)
+		expect(result.success).toBe(false)
+		expect(read('a.md')).toBe('old')
+		expect(readdirSync(journalDir)).toHaveLength(1)
+
+		undoFails = false
+		const [recovered] = await recoverTransactions(journalDir)
+		expect(recovered?.outcome).toBe('rolled-back')
+		expect(readdirSync(journalDir)).toEqual([])
+	})
+})
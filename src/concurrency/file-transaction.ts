@@ -0,0 +1,461 @@
+/**
+ * Filesystem operations for transactions.
+ *
+ * Ready-made `Transaction` operations for writing, moving, and deleting
+ * files, creating directories, and patching JSON files. Each snapshots the
+ * state it is about to change and restores it on rollback, so several
+ * files can be changed all-or-nothing without hand-written
+ * `createBackup`/`restoreFromBackup` logic.
+ *
+ * The operations are registered operation types (`fs.write`, `fs.move`,
+ * `fs.delete`, `fs.mkdir`, `fs.patchJson`), so they also work in journaled
+ * transactions and with `recoverTransactions()`. The builders register them
+ * on first use; call `registerFileOperationTypes()` before recovering
+ * journals in a process that has not built one yet. Snapshots are taken and
+ * journaled before each step changes anything, so recovery can restore
+ * files even when the process died mid-step. They are kept in memory and
+ * in the journal; avoid very large files.
+ *
+ * @module core/concurrency/file-transaction
+ */
+
+import { readdir, rmdir } from 'node:fs/promises'
+import path from 'node:path'
+import {
+	ensureDir,
+	pathExists,
+	readBinaryFile,
+	readTextFile,
+	rename,
+	unlink,
+	writeBinaryFile,
+	writeJsonFileAtomic,
+	writeTextFileAtomic,
+} from '../fs/index.js'
+import { type FileLockOptions, withFileLock } from './file-lock.js'
+import { journaledOperation, registerOperationType } from './journal.js'
+import {
+	executeTransaction,
+	type RollbackOperation,
+	type TransactionOptions,
+	type TransactionResult,
+} from './transaction.js'
+
+/**
+ * Transaction operation on files, with the paths it touches.
+ */
+export interface FileOperation extends RollbackOperation {
+	/** Absolute paths written, moved, deleted, or created */
+	readonly paths: readonly string[]
+}
+
+/**
+ * JSON Merge Patch (RFC 7386): objects merge recursively, `null` removes a
+ * key, and any other value replaces the target.
+ */
+export type JsonMergePatch = { [key: string]: unknown }
+
+/**
+ * Options for `executeFileTransaction`.
+ */
+export interface FileTransactionOptions extends TransactionOptions {
+	/**
+	 * Hold `withFileLock` on every touched path while the transaction runs
+	 * (default: false). Pass lock options to configure timeouts.
+	 */
+	lock?: boolean | FileLockOptions
+}
+
+/** Prior file content; null when the file did not exist */
+type Snapshot = { content: string; encoding: 'utf8' | 'base64' } | null
+
+const utf8 = new TextDecoder('utf-8', { fatal: true })
+
+async function takeSnapshot(filePath: string): Promise<Snapshot> {
+	if (!(await pathExists(filePath))) {
+		return null
+	}
+	const bytes = new Uint8Array(await readBinaryFile(filePath))
+	try {
+		return { content: utf8.decode(bytes), encoding: 'utf8' }
+	} catch {
+		return {
+			content: Buffer.from(bytes).toString('base64'),
+			encoding: 'base64',
+		}
+	}
+}
+
+async function restoreSnapshot(
+	filePath: string,
+	snapshot: Snapshot,
+): Promise<void> {
+	if (snapshot === null) {
+		await unlink(filePath).catch(() => {})
+		return
+	}
+	await ensureDir(path.dirname(filePath))
+	if (snapshot.encoding === 'utf8') {
+		await writeTextFileAtomic(filePath, snapshot.content)
+		return
+	}
+	const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`
+	await writeBinaryFile(tempPath, Buffer.from(snapshot.content, 'base64'))
+	await rename(tempPath, filePath)
+}
+
+/** Directories that creating `dirPath` would create, deepest first */
+async function missingDirs(dirPath: string): Promise<string[]> {
+	const missing: string[] = []
+	let current = dirPath
+	while (!(await pathExists(current))) {
+		missing.push(current)
+		const parent = path.dirname(current)
+		if (parent === current) break
+		current = parent
+	}
+	return missing
+}
+
+/** Remove created directories that are still empty, deepest first */
+async function removeDirs(created: readonly string[] = []): Promise<void> {
+	for (const dir of created) {
+		const entries = await readdir(dir).catch(() => null)
+		if (entries?.length === 0) {
+			await rmdir(dir).catch(() => {})
+		}
+	}
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function applyMergePatch(target: unknown, patch: unknown): unknown {
+	if (!isPlainObject(patch)) {
+		return patch
+	}
+	const result: Record<string, unknown> = isPlainObject(target)
+		? { ...target }
+		: {}
+	for (const [key, value] of Object.entries(patch)) {
+		if (value === null) {
+			delete result[key]
+		} else {
+			result[key] = applyMergePatch(result[key], value)
+		}
+	}
+	return result
+}
+
+// ============================================================================
+// Operation types
+// ============================================================================
+
+type WriteInput = { path: string; content: string }
+type WriteResult = { previous: Snapshot; createdDirs: string[] }
+
+const prepareWrite = async ({
+	path: filePath,
+}: {
+	path: string
+}): Promise<WriteResult> => ({
+	previous: await takeSnapshot(filePath),
+	createdDirs: await missingDirs(path.dirname(filePath)),
+})
+
+type MoveInput = { from: string; to: string }
+type MoveResult = { overwritten: Snapshot; createdDirs: string[] }
+
+const prepareMove = async ({ to }: MoveInput): Promise<MoveResult> => ({
+	overwritten: await takeSnapshot(to),
+	createdDirs: await missingDirs(path.dirname(to)),
+})
+
+type DeleteInput = { path: string }
+type DeleteResult = { previous: Snapshot }
+
+const prepareDelete = async ({
+	path: filePath,
+}: DeleteInput): Promise<DeleteResult> => ({
+	previous: await takeSnapshot(filePath),
+})
+
+type MkdirInput = { path: string }
+type MkdirResult = { createdDirs: string[] }
+
+const prepareMkdir = async ({
+	path: dirPath,
+}: MkdirInput): Promise<MkdirResult> => ({
+	createdDirs: await missingDirs(dirPath),
+})
+
+type PatchJsonInput = { path: string; patch: JsonMergePatch; space: number }
+type PatchJsonResult = { previous: Snapshot; createdDirs: string[] }
+
+/** Whether the `fs.*` types are registered */
+let registered = false
+
+/**
+ * Register the `fs.*` operation types. The builders call this; call it
+ * yourself before `recoverTransactions()` when no builder has run yet in
+ * this process. Safe to call more than once.
+ *
+ * @example
+ * ```typescript
+ * registerFileOperationTypes();
+ * await recoverTransactions(journalDir);
+ * ```
+ */
+export function registerFileOperationTypes(): void {
+	if (registered) return
+	registered = true
+
+	registerOperationType<WriteInput, WriteResult>('fs.write', {
+		prepare: prepareWrite,
+		execute: async (input, { prepared }) => {
+			const result = prepared ?? (await prepareWrite(input))
+			await ensureDir(path.dirname(input.path))
+			await writeTextFileAtomic(input.path, input.content)
+			return result
+		},
+		rollback: async (result, { path: filePath }) => {
+			if (!result) return
+			await restoreSnapshot(filePath, result.previous)
+			await removeDirs(result.createdDirs)
+		},
+	})
+
+	registerOperationType<MoveInput, MoveResult>('fs.move', {
+		prepare: prepareMove,
+		execute: async (input, { resumed, prepared }) => {
+			const { from, to } = input
+			const result = prepared ?? (await prepareMove(input))
+			if (!(await pathExists(from))) {
+				// Already moved before the step was interrupted
+				if (resumed && (await pathExists(to))) {
+					return result
+				}
+				throw new Error(`Cannot move ${from}: file not found`)
+			}
+			await ensureDir(path.dirname(to))
+			await rename(from, to)
+			return result
+		},
+		rollback: async (result, { from, to }) => {
+			if (!(await pathExists(from)) && (await pathExists(to))) {
+				await ensureDir(path.dirname(from))
+				await rename(to, from)
+			}
+			if (!result) return
+			if (result.overwritten) {
+				await restoreSnapshot(to, result.overwritten)
+			}
+			await removeDirs(result.createdDirs)
+		},
+	})
+
+	registerOperationType<DeleteInput, DeleteResult>('fs.delete', {
+		prepare: prepareDelete,
+		execute: async (input, { prepared }) => {
+			const result = prepared ?? (await prepareDelete(input))
+			if (await pathExists(input.path)) {
+				await unlink(input.path)
+			}
+			return result
+		},
+		rollback: async (result, { path: filePath }) => {
+			if (result?.previous) {
+				await restoreSnapshot(filePath, result.previous)
+			}
+		},
+	})
+
+	registerOperationType<MkdirInput, MkdirResult>('fs.mkdir', {
+		prepare: prepareMkdir,
+		execute: async (input, { prepared }) => {
+			const result = prepared ?? (await prepareMkdir(input))
+			await ensureDir(input.path)
+			return result
+		},
+		rollback: async (result) => {
+			await removeDirs(result?.createdDirs)
+		},
+	})
+
+	registerOperationType<PatchJsonInput, PatchJsonResult>('fs.patchJson', {
+		prepare: prepareWrite,
+		execute: async (input, { prepared }) => {
+			const { path: filePath, patch, space } = input
+			const result = prepared ?? (await prepareWrite(input))
+			// Merge patches are idempotent, so a resumed step can reapply it
+			const current = (await pathExists(filePath))
+				? JSON.parse(await readTextFile(filePath))
+				: {}
+			await ensureDir(path.dirname(filePath))
+			await writeJsonFileAtomic(
+				filePath,
+				applyMergePatch(current, patch),
+				space,
+			)
+			return result
+		},
+		rollback: async (result, { path: filePath }) => {
+			if (!result) return
+			await restoreSnapshot(filePath, result.previous)
+			await removeDirs(result.createdDirs)
+		},
+	})
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+function fileOperation(
+	type: string,
+	input: Record<string, unknown>,
+	name: string,
+	paths: string[],
+): FileOperation {
+	registerFileOperationTypes()
+	return { ...journaledOperation(type, input, name), paths }
+}
+
+/**
+ * Write a text file atomically, creating parent directories.
+ * Rollback restores the previous content (or removes the file and any
+ * directories it created).
+ *
+ * @param filePath - File to write
+ * @param content - New content
+ * @returns Transaction operation
+ */
+export function writeFileOperation(
+	filePath: string,
+	content: string,
+): FileOperation {
+	const target = path.resolve(filePath)
+	return fileOperation(
+		'fs.write',
+		{ path: target, content },
+		`write ${target}`,
+		[target],
+	)
+}
+
+/**
+ * Move a file, replacing the destination and creating its parent
+ * directories. Rollback moves it back and restores a replaced destination.
+ *
+ * @param from - Current path
+ * @param to - New path (same filesystem)
+ * @returns Transaction operation
+ */
+export function moveFileOperation(from: string, to: string): FileOperation {
+	const source = path.resolve(from)
+	const target = path.resolve(to)
+	return fileOperation(
+		'fs.move',
+		{ from: source, to: target },
+		`move ${source} -> ${target}`,
+		[source, target],
+	)
+}
+
+/**
+ * Delete a file (no-op if it does not exist).
+ * Rollback restores it with its previous content.
+ *
+ * @param filePath - File to delete
+ * @returns Transaction operation
+ */
+export function deleteFileOperation(filePath: string): FileOperation {
+	const target = path.resolve(filePath)
+	return fileOperation('fs.delete', { path: target }, `delete ${target}`, [
+		target,
+	])
+}
+
+/**
+ * Create a directory and missing parents.
+ * Rollback removes the directories it created if they are empty.
+ *
+ * @param dirPath - Directory to create
+ * @returns Transaction operation
+ */
+export function mkdirOperation(dirPath: string): FileOperation {
+	const target = path.resolve(dirPath)
+	return fileOperation('fs.mkdir', { path: target }, `mkdir ${target}`, [
+		target,
+	])
+}
+
+/**
+ * Apply a JSON Merge Patch to a JSON file (a missing file starts as `{}`).
+ * Rollback restores the previous content.
+ *
+ * @param filePath - JSON file to patch
+ * @param patch - Merge patch (`null` values remove keys)
+ * @param space - Indentation spaces (default: 2)
+ * @returns Transaction operation
+ *
+ * @example
+ * ```typescript
+ * patchJsonFileOperation("registry.json", { items: { [id]: entry }, stale: null });
+ * ```
+ */
+export function patchJsonFileOperation(
+	filePath: string,
+	patch: JsonMergePatch,
+	space = 2,
+): FileOperation {
+	const target = path.resolve(filePath)
+	return fileOperation(
+		'fs.patchJson',
+		{ path: target, patch, space },
+		`patch ${target}`,
+		[target],
+	)
+}
+
+/**
+ * Execute file operations all-or-nothing.
+ *
+ * With `lock`, holds `withFileLock` on every touched path (acquired in
+ * sorted order, so concurrent transactions can't deadlock) until the
+ * transaction and any rollback finish.
+ *
+ * @template T - Type of the final operation result
+ * @param operations - File operations (from the builders above)
+ * @param options - Transaction, journal, and lock options
+ * @returns Transaction result
+ *
+ * @example
+ * ```typescript
+ * const result = await executeFileTransaction(
+ *   [
+ *     moveFileOperation("inbox/note.md", "projects/alpha/note.md"),
+ *     patchJsonFileOperation("index.json", { notes: { note: "projects/alpha" } }),
+ *   ],
+ *   { lock: true, journal: { dir: journalDir } },
+ * );
+ * ```
+ */
+export async function executeFileTransaction<T = void>(
+	operations: readonly FileOperation[],
+	options: FileTransactionOptions = {},
+): Promise<TransactionResult<T>> {
+	const { lock = false, ...transactionOptions } = options
+	const run = () => executeTransaction<T>(operations, transactionOptions)
+	if (!lock) {
+		return run()
+	}
+
+	const lockOptions = lock === true ? undefined : lock
+	const paths = [...new Set(operations.flatMap((op) => op.paths))].sort()
+	return paths.reduceRight<() => Promise<TransactionResult<T>>>(
+		(inner, lockedPath) => () => withFileLock(lockedPath, inner, lockOptions),
+		run,
+	)()
+}
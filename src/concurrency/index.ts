@@ -45,10 +45,39 @@
  * }
  * ```
  *
+ * Journaled transactions record each step on disk so a crashed process
+ * can roll them back (or resume them) on the next start:
+ *
+ * ```typescript
+ * registerOperationType("vault.write", vaultWrite);
+ * await recoverTransactions(journalDir);
+ *
+ * const tx = new Transaction({ journal: { dir: journalDir } });
+ * tx.add(journaledOperation("vault.write", { path, content }));
+ * await tx.execute();
+ * ```
+ *
+ * File operations snapshot what they change, so multi-file edits need no
+ * hand-written rollback:
+ *
+ * ```typescript
+ * import { executeFileTransaction, moveFileOperation, writeFileOperation } from "@side-quest/core/concurrency";
+ *
+ * await executeFileTransaction(
+ *   [
+ *     writeFileOperation("notes/a.md", contentA),
+ *     moveFileOperation("inbox/b.md", "notes/b.md"),
+ *   ],
+ *   { lock: true },
+ * );
+ * ```
+ *
  * ## Resource Pooling
  *
  * Cache expensive resources that should be created once per key.
- * Prevents duplicate creation even when called concurrently.
+ * Prevents duplicate creation even when called concurrently. Optional
+ * LRU capacity, idle TTL, `validate()` health checks, `dispose()` on
+ * eviction, and failure backoff.
  *
  * ```typescript
  * import { ResourcePool } from "@side-quest/core/concurrency";
@@ -80,6 +109,30 @@
  * }
  * ```
  *
+ * For provider quotas, use a token bucket (bursts) or sliding window
+ * ("N per period") with one bucket per key:
+ *
+ * ```typescript
+ * import { TokenBucketLimiter } from "@side-quest/core/concurrency";
+ *
+ * const limiter = new TokenBucketLimiter({ capacity: 10, refillPerSecond: 5 });
+ * await limiter.wait(host, { signal });
+ * // After HTTP 429:
+ * limiter.penalize(response.headers.get("retry-after") ?? 60_000, host);
+ * ```
+ *
+ * To share one budget between processes, keep the state in a file:
+ *
+ * ```typescript
+ * import { SharedRateLimiter, tokenBucketAlgorithm } from "@side-quest/core/concurrency";
+ *
+ * const limiter = new SharedRateLimiter({
+ *   statePath: "/tmp/gmail-rate.json",
+ *   algorithm: tokenBucketAlgorithm({ capacity: 5, refillPerSecond: 5 }),
+ * });
+ * await limiter.wait(accountId);
+ * ```
+ *
  * ## Timeouts
  *
  * Wrap async operations with timeouts to prevent hanging indefinitely.
@@ -107,12 +160,62 @@ export {
 	getDefaultLockDir,
 	withFileLock,
 } from './file-lock.js'
+export {
+	deleteFileOperation,
+	executeFileTransaction,
+	type FileOperation,
+	type FileTransactionOptions,
+	type JsonMergePatch,
+	mkdirOperation,
+	moveFileOperation,
+	patchJsonFileOperation,
+	registerFileOperationTypes,
+	writeFileOperation,
+} from './file-transaction.js'
+export {
+	journaledOperation,
+	type OperationExecuteContext,
+	type OperationType,
+	type RecoverTransactionsOptions,
+	type RecoveryMode,
+	type RecoveryResult,
+	recoverTransactions,
+	registerOperationType,
+	type TransactionJournalOptions,
+} from './journal.js'
 export {
 	type ParallelChunkOptions,
 	processInParallelChunks,
 } from './parallel.js'
-export { RateLimiter } from './rate-limiter.js'
-export { ResourcePool } from './resource-pool.js'
+export {
+	applyRateLimit,
+	KeyedRateLimiter,
+	parseRetryAfter,
+	type RateLimitAlgorithm,
+	type RateLimitEntry,
+	RateLimiter,
+	type RateLimitWaitOptions,
+	SlidingWindowLimiter,
+	type SlidingWindowOptions,
+	type SlidingWindowState,
+	slidingWindowAlgorithm,
+	TokenBucketLimiter,
+	type TokenBucketOptions,
+	type TokenBucketState,
+	tokenBucketAlgorithm,
+} from './rate-limiter.js'
+export {
+	type EvictionReason,
+	ResourcePool,
+	type ResourcePoolOptions,
+	type ResourcePoolStats,
+} from './resource-pool.js'
+export {
+	type SharedRateLimitEntry,
+	SharedRateLimiter,
+	type SharedRateLimiterOptions,
+	type SharedRateLimitFile,
+} from './shared-rate-limiter.js'
 export {
 	createTimeoutPromise,
 	TimeoutError,
@@ -123,5 +226,6 @@ export {
 	type RollbackOperation,
 	Transaction,
 	type TransactionLogger,
+	type TransactionOptions,
 	type TransactionResult,
 } from './transaction.js'
@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { existsSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { createTempDir } from '../testing/index.js'
+import { journaledOperation, recoverTransactions, registerOperationType } from './journal.js'
+import { Transaction } from './transaction.js'
+
+type WriteInput = { path: string; content: string }
+type WriteResult = { previous: string | null }
+
+/**
+ * Registered file write used by every test: remembers the previous content
+ */
+registerOperationType<WriteInput, WriteResult>('test.write', {
+	execute: async ({ path, content }) => {
+		const previous = existsSync(path) ? readFileSync(path, 'utf8') : null
+		writeFileSync(path, content)
+		return { previous }
+	},
+	rollback: async (result, { path }) => {
+		if (result?.previous == null) rmSync(path, { force: true })
+		else writeFileSync(path, result.previous)
+	},
+})
+
+registerOperationType<{ message: string }, void>('test.fail', {
+	execute: async ({ message }) => {
+		throw new Error(message)
+	},
+	rollback: async () => {},
+})
+
+describe('journaled transactions', () => {
+	let dir: string
+	let journalDir: string
+
+	beforeEach(() => {
+		dir = createTempDir('journal-test-')
+		journalDir = join(dir, 'journal')
+	})
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	const journals = () => (existsSync(journalDir) ? readdirSync(journalDir) : [])
+
+	test('records steps while running and removes the journal on success', async () => {
+		const file = join(dir, 'a.md')
+		const seen: unknown[] = []
+		registerOperationType<void, void>('test.inspect', {
+			execute: async () => {
+				const [name] = journals()
+				seen.push(JSON.parse(readFileSync(join(journalDir, name as string), 'utf8')))
+			},
+			rollback: async () => {},
+		})
+
+		const tx = new Transaction({ journal: { dir: journalDir, id: 'tx-1' } })
+		tx.add(journaledOperation('test.write', { path: file, content: 'new' }, 'write a'))
+		tx.add(journaledOperation('test.inspect'))
+		const result = await tx.execute()
+
+		expect(result.success).toBe(true)
+		expect(readFileSync(file, 'utf8')).toBe('new')
+		expect(seen[0]).toMatchObject({
+			id: 'tx-1',
+			pid: process.pid,
+			status: 'running',
+			steps: [
+				{ name: 'write a', type: 'test.write', status: 'completed', result: { previous: null } },
+				{ name: 'test.inspect', type: 'test.inspect', status: 'started' },
+			],
+		})
+		expect(journals()).toEqual([])
+	})
+
+	test('rolls back and removes the journal on failure', async () => {
+		const file = join(dir, 'a.md')
+		writeFileSync(file, 'old')
+
+		const tx = new Transaction({ journal: { dir: journalDir } })
+		tx.add(journaledOperation('test.write', { path: file, content: 'new' }))
+		tx.add(journaledOperation('test.fail', { message: 'boom' }))
+		const result = await tx.execute()
+
+		expect(result).toMatchObject({ success: false, failedAt: 'test.fail' })
+		expect(readFileSync(file, 'utf8')).toBe('old')
+		expect(journals()).toEqual([])
+	})
+
+	test('keeps the journal when a rollback fails so recovery can retry', async () => {
+		const file = join(dir, 'a.md')
+		let rollbackFails = true
+		registerOperationType<void, void>('test.flaky-undo', {
+			execute: async () => {},
+			rollback: async () => {
+				if (rollbackFails) throw new Error('disk busy')
+			},
+		})
+
+		const tx = new Transaction({ journal: { dir: journalDir, id: 'tx-flaky' } })
+		tx.add(journaledOperation('test.write', { path: file, content: 'new' }))
+		tx.add(journaledOperation('test.flaky-undo'))
+		tx.add(journaledOperation('test.fail', { message: 'boom' }))
+		await tx.execute()
+
+		expect(existsSync(file)).toBe(false)
+		expect(journals()).toEqual(['tx-flaky.journal.json'])
+
+		rollbackFails = false
+		const results = await recoverTransactions(journalDir)
+		expect(results).toMatchObject([{ id: 'tx-flaky', outcome: 'rolled-back' }])
+		expect(journals()).toEqual([])
+	})
+
+	test('rejects operations without a registered type', async () => {
+		const tx = new Transaction({ journal: { dir: journalDir } })
+		tx.add({ name: 'closure', execute: async () => {}, rollback: async () => {} })
+
+		await expect(tx.execute()).rejects.toThrow('missing: closure')
+		expect(() => journaledOperation('test.unknown')).toThrow('not registered')
+	})
+})
+
+describe('recoverTransactions', () => {
+	let dir: string
+	let journalDir: string
+
+	beforeEach(() => {
+		dir = createTempDir('journal-recover-test-')
+		journalDir = join(dir, 'journal')
+	})
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	/**
+	 * Run a journaled transaction in a child process that exits during the
+	 * third step, leaving the journal behind.
+	 */
+	async function crashMidTransaction(files: string[]): Promise<void> {
+		const script = join(dir, 'crash.ts')
+		writeFileSync(
+			script,
+			[
+				`import { journaledOperation, registerOperationType } from ${JSON.stringify(join(import.meta.dir, 'journal.ts'))}`,
+				`import { Transaction } from ${JSON.stringify(join(import.meta.dir, 'transaction.ts'))}`,
+				`import { writeFileSync } from 'node:fs'`,
+				`registerOperationType('test.write', {`,
+				`  execute: async ({ path, content }) => { writeFileSync(path, content); return { previous: 'old' } },`,
+				`  rollback: async () => {},`,
+				`})`,
+				`registerOperationType('test.crash', { execute: async () => process.exit(1), rollback: async () => {} })`,
+				`const tx = new Transaction({ journal: { dir: ${JSON.stringify(journalDir)}, id: 'crashed' } })`,
+				`tx.add(journaledOperation('test.write', { path: ${JSON.stringify(files[0])}, content: 'new' }))`,
+				`tx.add(journaledOperation('test.write', { path: ${JSON.stringify(files[1])}, content: 'new' }))`,
+				`tx.add(journaledOperation('test.crash'))`,
+				`tx.add(journaledOperation('test.write', { path: ${JSON.stringify(files[2])}, content: 'new' }))`,
+				`await tx.execute()`,
+			].join('\n'),
+		)
+		const proc = Bun.spawn(['bun', script], { stdout: 'ignore', stderr: 'ignore' })
+		expect(await proc.exited).toBe(1)
+	}
+
+	test('rolls back a transaction left behind by a crashed process', async () => {
+		const files = ['a.md', 'b.md', 'c.md'].map((name) => join(dir, name))
+		for (const file of files) writeFileSync(file, 'old')
+		await crashMidTransaction(files)
+		expect(files.map((file) => readFileSync(file, 'utf8'))).toEqual(['new', 'new', 'old'])
+
+		registerOperationType('test.crash', { rollback: async () => {} })
+		const results = await recoverTransactions(journalDir)
+
+		expect(results).toEqual([
+			{ id: 'crashed', path: join(journalDir, 'crashed.journal.json'), outcome: 'rolled-back' },
+		])
+		expect(files.map((file) => readFileSync(file, 'utf8'))).toEqual(['old', 'old', 'old'])
+		expect(readdirSync(journalDir)).toEqual([])
+	})
+
+	test('resumes the remaining steps when every type can execute', async () => {
+		const files = ['a.md', 'b.md', 'c.md'].map((name) => join(dir, name))
+		for (const file of files) writeFileSync(file, 'old')
+		await crashMidTransaction(files)
+
+		// The interrupted step re-runs, so it must be idempotent
+		registerOperationType('test.crash', { execute: async () => {}, rollback: async () => {} })
+		const results = await recoverTransactions(journalDir, { mode: 'resume' })
+
+		expect(results).toMatchObject([{ id: 'crashed', outcome: 'resumed' }])
+		expect(files.map((file) => readFileSync(file, 'utf8'))).toEqual(['new', 'new', 'new'])
+		expect(readdirSync(journalDir)).toEqual([])
+	})
+
+	test('falls back to rollback when a remaining step cannot execute', async () => {
+		const files = ['a.md', 'b.md', 'c.md'].map((name) => join(dir, name))
+		for (const file of files) writeFileSync(file, 'old')
+		await crashMidTransaction(files)
+
+		registerOperationType('test.crash', { rollback: async () => {} })
+		const results = await recoverTransactions(journalDir, { mode: 'resume' })
+
+		expect(results).toMatchObject([{ id: 'crashed', outcome: 'rolled-back' }])
+		expect(files.map((file) => readFileSync(file, 'utf8'))).toEqual(['old', 'old', 'old'])
+	})
+
+	test('keeps journals it cannot roll back and skips live owners', async () => {
+		await crashMidTransaction(['a.md', 'b.md', 'c.md'].map((name) => join(dir, name)))
+		const journalPath = join(journalDir, 'crashed.journal.json')
+		const journal = JSON.parse(readFileSync(journalPath, 'utf8'))
+		writeFileSync(
+			journalPath,
+			JSON.stringify({ ...journal, steps: [{ ...journal.steps[0], type: 'test.gone' }] }),
+		)
+
+		const [failed] = await recoverTransactions(journalDir)
+		expect(failed).toMatchObject({ id: 'crashed', outcome: 'failed' })
+		expect(failed?.error?.message).toContain('Unknown operation type "test.gone"')
+		expect(existsSync(journalPath)).toBe(true)
+
+		// A parent process is alive, so its journal is left alone
+		writeFileSync(journalPath, JSON.stringify({ ...journal, pid: process.ppid }))
+		expect(await recoverTransactions(journalDir)).toEqual([])
+	})
+
+	test('returns nothing for a missing directory', async () => {
+		expect(await recoverTransactions(join(dir, 'missing'))).toEqual([])
+	})
+})
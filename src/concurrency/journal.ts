@@ -0,0 +1,515 @@
+/**
+ * Write-ahead journal for durable transactions.
+ *
+ * A journaled `Transaction` records every step (operation type, input, and
+ * rollback payload) in a JSON file before and after it runs. If the process
+ * dies mid-transaction, `recoverTransactions()` finds the journal on the
+ * next start and rolls the transaction back, or resumes it, through the
+ * registered operation types.
+ *
+ * ## Journal lifecycle
+ *
+ * - Written (atomically) before the first step with every step `pending`
+ * - Step marked `started` (with its `prepare` payload), then `completed`
+ *   with its result
+ * - Deleted once the transaction succeeds or is fully rolled back
+ * - Left in place while a rollback failure remains, so recovery can retry
+ *
+ * @module core/concurrency/journal
+ */
+
+import { readdir, unlink } from 'node:fs/promises'
+import { join } from 'node:path'
+import { ensureDir, readJsonFile, writeJsonFileAtomic } from '../fs/index.js'
+import { isProcessRunning } from './file-lock.js'
+import type { RollbackOperation, TransactionLogger } from './transaction.js'
+
+/**
+ * Context passed to `OperationType.execute`.
+ *
+ * @template R - Step result (the rollback payload)
+ */
+export interface OperationExecuteContext<R = unknown> {
+	/**
+	 * True when recovery re-runs a step that was interrupted mid-way, so
+	 * some of its work may already be done
+	 */
+	readonly resumed: boolean
+	/**
+	 * Payload from `OperationType.prepare`. A resumed step gets the one
+	 * journaled before its first attempt.
+	 */
+	readonly prepared?: R
+}
+
+/**
+ * Operation type that journaled steps refer to by name.
+ *
+ * Inputs and results must survive a JSON round trip, since recovery only
+ * has the journal to work from.
+ *
+ * @template I - Step input
+ * @template R - Step result (the rollback payload)
+ */
+export interface OperationType<I = unknown, R = unknown> {
+	/**
+	 * Run the step. Required to resume interrupted transactions; a step
+	 * interrupted mid-way runs again with `context.resumed` set, so it must
+	 * tolerate its own partial work.
+	 */
+	readonly execute?: (
+		input: I,
+		context: OperationExecuteContext<R>,
+	) => Promise<R>
+
+	/**
+	 * Capture the rollback payload before the step changes anything (e.g.
+	 * a snapshot of a file about to be overwritten). It is journaled when
+	 * the step starts, so a step interrupted by a crash can still be undone.
+	 */
+	readonly prepare?: (input: I) => Promise<R>
+
+	/**
+	 * Undo the step. `result` is the `prepare` payload (or undefined without
+	 * `prepare`) when the process died while the step was running, so
+	 * rollbacks must tolerate partial work.
+	 */
+	readonly rollback: (result: R | undefined, input: I) => Promise<void>
+}
+
+/**
+ * Journal options for `Transaction`.
+ */
+export interface TransactionJournalOptions {
+	/** Directory holding journal files (created if missing) */
+	readonly dir: string
+	/** Transaction ID used in the file name (default: random UUID) */
+	readonly id?: string
+}
+
+/**
+ * What `recoverTransactions` does with an incomplete transaction.
+ *
+ * - `rollback`: undo every started step
+ * - `resume`: run the remaining steps, rolling back if one fails. Falls
+ *   back to rollback when a remaining step's type has no `execute`.
+ */
+export type RecoveryMode = 'rollback' | 'resume'
+
+/**
+ * Options for `recoverTransactions`.
+ */
+export interface RecoverTransactionsOptions {
+	/** Recovery mode (default: "rollback") */
+	readonly mode?: RecoveryMode
+	/** Optional logger */
+	readonly logger?: TransactionLogger
+}
+
+/**
+ * Outcome of recovering one journal.
+ */
+export interface RecoveryResult {
+	/** Transaction ID */
+	readonly id: string
+	/** Journal file path */
+	readonly path: string
+	/**
+	 * `resumed` and `rolled-back` remove the journal; `failed` leaves it for
+	 * the next recovery
+	 */
+	readonly outcome: 'resumed' | 'rolled-back' | 'failed'
+	/** Step or rollback error, if any */
+	readonly error?: Error
+}
+
+type JournalStepStatus =
+	| 'pending'
+	| 'started'
+	| 'completed'
+	| 'failed'
+	| 'rolled-back'
+
+interface JournalStep {
+	name: string
+	type: string
+	input?: unknown
+	status: JournalStepStatus
+	result?: unknown
+}
+
+interface JournalData {
+	version: 1
+	id: string
+	/** Process that owns the transaction; recovery skips live owners */
+	pid: number
+	status: 'running' | 'rolling-back'
+	createdAt: string
+	steps: JournalStep[]
+}
+
+const JOURNAL_SUFFIX = '.journal.json'
+
+const operationTypes = new Map<string, OperationType>()
+
+/**
+ * Register an operation type for journaled transactions.
+ * Registering a type again replaces it.
+ *
+ * Register types at startup, before `recoverTransactions`, so incomplete
+ * journals can be rolled back or resumed.
+ *
+ * @param type - Unique type name (e.g. "vault.write")
+ * @param definition - Execute and rollback functions
+ *
+ * @example
+ * ```typescript
+ * registerOperationType<{ path: string; content: string }, { previous: string | null }>(
+ *   "vault.write",
+ *   {
+ *     execute: async ({ path, content }) => {
+ *       const previous = (await pathExists(path)) ? await readTextFile(path) : null;
+ *       await writeTextFileAtomic(path, content);
+ *       return { previous };
+ *     },
+ *     rollback: async (result, { path }) => {
+ *       if (result?.previous == null) await unlink(path).catch(() => {});
+ *       else await writeTextFileAtomic(path, result.previous);
+ *     },
+ *   },
+ * );
+ * ```
+ */
+export function registerOperationType<I, R>(
+	type: string,
+	definition: OperationType<I, R>,
+): void {
+	operationTypes.set(type, definition as OperationType)
+}
+
+/**
+ * Build a transaction operation from a registered type.
+ *
+ * @param type - Registered operation type
+ * @param input - JSON-serializable input recorded in the journal
+ * @param name - Step name for logging (default: the type)
+ * @returns Operation for `Transaction.add`
+ * @throws Error if the type is not registered or has no `execute`
+ */
+export function journaledOperation(
+	type: string,
+	input?: unknown,
+	name = type,
+): RollbackOperation {
+	const definition = operationTypes.get(type)
+	const execute = definition?.execute
+	if (!definition || !execute) {
+		throw new Error(`Operation type "${type}" is not registered with execute`)
+	}
+	const { prepare } = definition
+	return {
+		name,
+		type,
+		input,
+		...(prepare ? { prepare: () => prepare(input) } : {}),
+		execute: (prepared) => execute(input, { resumed: false, prepared }),
+		rollback: (result) => definition.rollback(result, input),
+	}
+}
+
+/**
+ * On-disk journal of one transaction. Every update is written atomically.
+ *
+ * @internal Used by `Transaction` and `recoverTransactions`
+ */
+export class TransactionJournal {
+	private constructor(
+		readonly path: string,
+		private readonly data: JournalData,
+	) {}
+
+	/**
+	 * Write a journal for operations about to run.
+	 *
+	 * @throws Error if an operation has no registered `type`
+	 */
+	static async create(
+		options: TransactionJournalOptions,
+		operations: readonly RollbackOperation[],
+	): Promise<TransactionJournal> {
+		const untyped = operations.filter((op) => !op.type)
+		if (untyped.length > 0) {
+			throw new Error(
+				`Journaled transactions need a registered type for every operation (missing: ${untyped
+					.map((op) => op.name)
+					.join(', ')})`,
+			)
+		}
+
+		const id = options.id ?? crypto.randomUUID()
+		await ensureDir(options.dir)
+		const journal = new TransactionJournal(
+			join(options.dir, `${id}${JOURNAL_SUFFIX}`),
+			{
+				version: 1,
+				id,
+				pid: process.pid,
+				status: 'running',
+				createdAt: new Date().toISOString(),
+				steps: operations.map((op) => ({
+					name: op.name,
+					type: op.type as string,
+					input: op.input,
+					status: 'pending',
+				})),
+			},
+		)
+		await journal.save()
+		return journal
+	}
+
+	/** Read an existing journal file */
+	static async open(path: string): Promise<TransactionJournal> {
+		return new TransactionJournal(path, await readJsonFile<JournalData>(path))
+	}
+
+	get id(): string {
+		return this.data.id
+	}
+
+	get pid(): number {
+		return this.data.pid
+	}
+
+	get status(): JournalData['status'] {
+		return this.data.status
+	}
+
+	get steps(): readonly Readonly<JournalStep>[] {
+		return this.data.steps
+	}
+
+	/** `prepared` is the step's rollback payload until it completes */
+	async markStarted(index: number, prepared?: unknown): Promise<void> {
+		const step = this.step(index)
+		step.status = 'started'
+		if (prepared !== undefined) {
+			step.result = prepared
+		}
+		await this.save()
+	}
+
+	async markCompleted(index: number, result: unknown): Promise<void> {
+		const step = this.step(index)
+		step.status = 'completed'
+		step.result = result
+		await this.save()
+	}
+
+	/** The step threw; like in-memory rollback, it is not rolled back */
+	async markFailed(index: number): Promise<void> {
+		this.step(index).status = 'failed'
+		await this.save()
+	}
+
+	async markRollingBack(): Promise<void> {
+		this.data.status = 'rolling-back'
+		await this.save()
+	}
+
+	async markRolledBack(index: number): Promise<void> {
+		this.step(index).status = 'rolled-back'
+		await this.save()
+	}
+
+	/** Delete the journal (transaction finished) */
+	async remove(): Promise<void> {
+		await unlink(this.path).catch(() => {})
+	}
+
+	private step(index: number): JournalStep {
+		const step = this.data.steps[index]
+		if (!step) {
+			throw new Error(`Journal ${this.data.id} has no step ${index}`)
+		}
+		return step
+	}
+
+	private async save(): Promise<void> {
+		await writeJsonFileAtomic(this.path, this.data)
+	}
+}
+
+function toError(error: unknown): Error {
+	return error instanceof Error ? error : new Error(String(error))
+}
+
+/**
+ * Roll back started and completed steps in reverse order.
+ * Continues past failures; returns the first one.
+ */
+async function rollbackJournal(
+	journal: TransactionJournal,
+	logger?: TransactionLogger,
+): Promise<Error | undefined> {
+	await journal.markRollingBack()
+	let firstError: Error | undefined
+
+	for (let index = journal.steps.length - 1; index >= 0; index--) {
+		const step = journal.steps[index] as JournalStep
+		if (step.status !== 'started' && step.status !== 'completed') {
+			continue
+		}
+		try {
+			const definition = operationTypes.get(step.type)
+			if (!definition) {
+				throw new Error(`Unknown operation type "${step.type}"`)
+			}
+			logger?.debug?.('Rolling back journaled operation', {
+				id: journal.id,
+				name: step.name,
+			})
+			await definition.rollback(step.result, step.input)
+			await journal.markRolledBack(index)
+		} catch (error) {
+			logger?.error?.('Rollback failed for journaled operation', {
+				id: journal.id,
+				name: step.name,
+				error: toError(error).message,
+			})
+			firstError ??= toError(error)
+		}
+	}
+
+	return firstError
+}
+
+/**
+ * Run the remaining steps of a journal. Returns the failing step's error.
+ */
+async function resumeJournal(
+	journal: TransactionJournal,
+	logger?: TransactionLogger,
+): Promise<Error | undefined> {
+	for (const [index, step] of journal.steps.entries()) {
+		if (step.status === 'completed') {
+			continue
+		}
+		try {
+			logger?.debug?.('Resuming journaled operation', {
+				id: journal.id,
+				name: step.name,
+			})
+			const definition = operationTypes.get(step.type)
+			const execute = definition?.execute as NonNullable<
+				OperationType['execute']
+			>
+			const resumed = step.status === 'started'
+			const prepared = resumed
+				? step.result
+				: await definition?.prepare?.(step.input)
+			await journal.markStarted(index, prepared)
+			const result = await execute(step.input, { resumed, prepared })
+			await journal.markCompleted(index, result)
+		} catch (error) {
+			return toError(error)
+		}
+	}
+	return undefined
+}
+
+function canResume(journal: TransactionJournal): boolean {
+	return (
+		journal.status === 'running' &&
+		journal.steps.every(
+			(step) =>
+				step.status === 'completed' || operationTypes.get(step.type)?.execute,
+		)
+	)
+}
+
+/**
+ * Recover transactions whose process died before they finished.
+ *
+ * Call on startup, after registering operation types and before this
+ * process starts journaled transactions. Journals owned by another process
+ * that is still running are skipped. A journal whose rollback fails (e.g.
+ * an unregistered type) is kept, so a later call can retry.
+ *
+ * @param dir - Journal directory passed to `Transaction`
+ * @param options - Recovery mode and logger
+ * @returns One result per recovered journal
+ *
+ * @example
+ * ```typescript
+ * registerOperationType("vault.write", vaultWrite);
+ *
+ * for (const result of await recoverTransactions(journalDir)) {
+ *   if (result.outcome === "failed") {
+ *     console.error(`Could not recover ${result.id}:`, result.error);
+ *   }
+ * }
+ * ```
+ */
+export async function recoverTransactions(
+	dir: string,
+	options: RecoverTransactionsOptions = {},
+): Promise<RecoveryResult[]> {
+	const { mode = 'rollback', logger } = options
+
+	const files = await readdir(dir).catch(() => [] as string[])
+	const results: RecoveryResult[] = []
+
+	for (const file of files.filter((f) => f.endsWith(JOURNAL_SUFFIX)).sort()) {
+		const path = join(dir, file)
+		let journal: TransactionJournal
+		try {
+			journal = await TransactionJournal.open(path)
+		} catch (error) {
+			// Unreadable journal: leave it for inspection
+			results.push({
+				id: file.slice(0, -JOURNAL_SUFFIX.length),
+				path,
+				outcome: 'failed',
+				error: toError(error),
+			})
+			continue
+		}
+
+		if (journal.pid !== process.pid && isProcessRunning(journal.pid)) {
+			continue
+		}
+
+		logger?.debug?.('Recovering transaction', { id: journal.id, mode })
+
+		let stepError: Error | undefined
+		if (mode === 'resume' && canResume(journal)) {
+			stepError = await resumeJournal(journal, logger)
+			if (!stepError) {
+				await journal.remove()
+				results.push({ id: journal.id, path, outcome: 'resumed' })
+				continue
+			}
+		}
+
+		const rollbackError = await rollbackJournal(journal, logger)
+		if (rollbackError) {
+			results.push({
+				id: journal.id,
+				path,
+				outcome: 'failed',
+				error: rollbackError,
+			})
+			continue
+		}
+		await journal.remove()
+		results.push({
+			id: journal.id,
+			path,
+			outcome: 'rolled-back',
+			...(stepError ? { error: stepError } : {}),
+		})
+	}
+
+	return results
+}
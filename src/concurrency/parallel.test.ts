@@ -1,4 +1,5 @@
 import { describe, expect, test } from 'bun:test'
+import { getGauges, getSummaries, resetMetrics } from '../instrumentation/metrics.js'
 import { processInParallelChunks } from './parallel.js'
 
 describe('processInParallelChunks', () => {
@@ -248,6 +249,43 @@ describe('processInParallelChunks', () => {
 		})
 	})
 
+	describe('cancellation', () => {
+		test('stops before the next chunk when the signal aborts', async () => {
+			const controller = new AbortController()
+			const processed: number[] = []
+
+			const promise = processInParallelChunks({
+				items: [1, 2, 3, 4, 5, 6],
+				chunkSize: 2,
+				signal: controller.signal,
+				processor: async (n) => {
+					processed.push(n)
+					if (n === 2) controller.abort(new Error('cancelled'))
+					return n
+				},
+			})
+
+			await expect(promise).rejects.toThrow('cancelled')
+			expect(processed).toEqual([1, 2])
+		})
+
+		test('rejects without processing when already aborted', async () => {
+			const processed: number[] = []
+
+			const promise = processInParallelChunks({
+				items: [1, 2, 3],
+				signal: AbortSignal.abort(),
+				processor: async (n) => {
+					processed.push(n)
+					return n
+				},
+			})
+
+			await expect(promise).rejects.toThrow()
+			expect(processed).toEqual([])
+		})
+	})
+
 	describe('async processing', () => {
 		test('handles async delays in processing', async () => {
 			const items = [1, 2, 3]
@@ -364,4 +402,53 @@ describe('processInParallelChunks', () => {
 			])
 		})
 	})
+
+	describe('metrics', () => {
+		test('reports in-flight gauge and item duration summary when named', async () => {
+			resetMetrics()
+			const inFlight: number[] = []
+
+			await processInParallelChunks({
+				items: [1, 2, 3, 4, 5],
+				chunkSize: 2,
+				metricsName: 'scan',
+				processor: async (n) => {
+					inFlight.push(getGauges()[0]?.value ?? 0)
+					return n
+				},
+			})
+
+			expect(Math.max(...inFlight)).toBe(2)
+			expect(getGauges()).toEqual([
+				{ name: 'parallel_items_in_flight', labels: { operation: 'scan' }, value: 0 },
+			])
+			const [summary] = getSummaries()
+			expect(summary?.name).toBe('parallel_item_duration_ms')
+			expect(summary?.count).toBe(5)
+			resetMetrics()
+		})
+
+		test('decrements in-flight gauge when processor fails', async () => {
+			resetMetrics()
+
+			await processInParallelChunks({
+				items: [1],
+				metricsName: 'failing',
+				processor: async () => {
+					throw new Error('boom')
+				},
+				onError: () => [],
+			})
+
+			expect(getGauges()[0]?.value).toBe(0)
+			resetMetrics()
+		})
+
+		test('does not report metrics when unnamed', async () => {
+			resetMetrics()
+			await processInParallelChunks({ items: [1], processor: async (n) => n })
+			expect(getGauges()).toHaveLength(0)
+			expect(getSummaries()).toHaveLength(0)
+		})
+	})
 })
@@ -11,6 +11,7 @@
  * - Automatic result flattening (handles both single results and arrays)
  * - Error handling with optional callback or propagation
  * - Type-safe with full generic support
+ * - Optional in-flight gauge and per-item duration summary
  *
  * ## Usage
  *
@@ -39,6 +40,12 @@
  * @module core/concurrency/parallel
  */
 
+import {
+	decrementGauge,
+	incrementGauge,
+	observeSummary,
+} from '../instrumentation/metrics.js'
+
 /**
  * Options for parallel chunk processing.
  *
@@ -88,6 +95,24 @@ export interface ParallelChunkOptions<T, R> {
 	 * @returns Fallback result(s) or rethrow
 	 */
 	onError?: (item: T, error: Error) => R[] | R
+
+	/**
+	 * Operation name for metrics reporting.
+	 *
+	 * When set, items being processed are tracked in the
+	 * `parallel_items_in_flight` gauge and per-item durations in the
+	 * `parallel_item_duration_ms` summary, both labelled `{ operation }`.
+	 */
+	metricsName?: string
+
+	/**
+	 * Abort processing.
+	 *
+	 * Checked before each chunk starts; items already in flight finish,
+	 * then the call rejects with the signal's reason. Pass the same signal
+	 * to `processor` work that can stop early on its own.
+	 */
+	signal?: AbortSignal
 }
 
 /**
@@ -109,6 +134,7 @@ export interface ParallelChunkOptions<T, R> {
  *
  * - **With onError**: Errors are caught and passed to handler
  * - **Without onError**: Errors propagate to caller immediately
+ * - **Abort**: Rejects with `signal.reason` before the next chunk starts
  *
  * @template T - Type of input items
  * @template R - Type of output results
@@ -133,12 +159,23 @@ export interface ParallelChunkOptions<T, R> {
 export async function processInParallelChunks<T, R>(
 	options: ParallelChunkOptions<T, R>,
 ): Promise<R[]> {
-	const { items, chunkSize = 10, maxResults, processor, onError } = options
+	const {
+		items,
+		chunkSize = 10,
+		maxResults,
+		processor,
+		onError,
+		metricsName,
+		signal,
+	} = options
+	const labels = metricsName !== undefined ? { operation: metricsName } : null
 
 	const results: R[] = []
 
 	// Process items in chunks
 	for (let i = 0; i < items.length; i += chunkSize) {
+		signal?.throwIfAborted()
+
 		// Early termination if we've hit maxResults
 		if (maxResults !== undefined && results.length >= maxResults) {
 			break
@@ -150,6 +187,10 @@ export async function processInParallelChunks<T, R>(
 		// Process chunk in parallel
 		const chunkResults = await Promise.all(
 			chunk.map(async (item) => {
+				const startTime = Date.now()
+				if (labels) {
+					incrementGauge('parallel_items_in_flight', labels)
+				}
 				try {
 					return await processor(item)
 				} catch (error) {
@@ -159,6 +200,15 @@ export async function processInParallelChunks<T, R>(
 					}
 					// No error handler - propagate
 					throw error
+				} finally {
+					if (labels) {
+						decrementGauge('parallel_items_in_flight', labels)
+						observeSummary(
+							'parallel_item_duration_ms',
+							Date.now() - startTime,
+							labels,
+						)
+					}
 				}
 			}),
 		)
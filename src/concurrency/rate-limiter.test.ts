@@ -1,5 +1,12 @@
 import { describe, expect, test } from 'bun:test'
-import { RateLimiter } from './rate-limiter.js'
+import {
+	parseRetryAfter,
+	RateLimiter,
+	SlidingWindowLimiter,
+	slidingWindowAlgorithm,
+	TokenBucketLimiter,
+	tokenBucketAlgorithm,
+} from './rate-limiter.js'
 
 describe('RateLimiter', () => {
 	describe('constructor', () => {
@@ -282,3 +289,152 @@ describe('RateLimiter', () => {
 		})
 	})
 })
+
+describe('tokenBucketAlgorithm', () => {
+	test('allows a burst up to capacity, then refills at the set rate', () => {
+		const bucket = tokenBucketAlgorithm({ capacity: 2, refillPerSecond: 10 })
+		let state = bucket.initial(0)
+
+		for (let i = 0; i < 2; i++) {
+			const result = bucket.acquire(state, 0)
+			expect(result.waitMs).toBe(0)
+			state = result.state
+		}
+		expect(bucket.acquire(state, 0).waitMs).toBe(100)
+		expect(bucket.acquire(state, 60).waitMs).toBe(40)
+		expect(bucket.acquire(state, 100).waitMs).toBe(0)
+		// Refill never exceeds capacity
+		expect(bucket.acquire(state, 60_000).state.tokens).toBe(1)
+	})
+
+	test('rejects invalid options', () => {
+		expect(() => tokenBucketAlgorithm({ capacity: 0, refillPerSecond: 1 })).toThrow()
+		expect(() => tokenBucketAlgorithm({ capacity: 1, refillPerSecond: 0 })).toThrow()
+	})
+})
+
+describe('slidingWindowAlgorithm', () => {
+	test('allows N calls per window and waits for the oldest to expire', () => {
+		const window = slidingWindowAlgorithm({ limit: 2, windowMs: 1000 })
+		let state = window.initial(0)
+
+		state = window.acquire(state, 0).state
+		state = window.acquire(state, 300).state
+		expect(window.acquire(state, 500).waitMs).toBe(500)
+
+		const later = window.acquire(state, 1000)
+		expect(later.waitMs).toBe(0)
+		expect(later.state.timestamps).toEqual([300, 1000])
+	})
+
+	test('rejects invalid options', () => {
+		expect(() => slidingWindowAlgorithm({ limit: 0, windowMs: 1000 })).toThrow()
+		expect(() => slidingWindowAlgorithm({ limit: 1, windowMs: 0 })).toThrow()
+	})
+})
+
+describe('parseRetryAfter', () => {
+	test('parses delay seconds and HTTP dates', () => {
+		const now = Date.parse('2025-01-01T00:00:00Z')
+		expect(parseRetryAfter('120', now)).toBe(120_000)
+		expect(parseRetryAfter('1.5', now)).toBe(1500)
+		expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now)).toBe(30_000)
+		expect(parseRetryAfter('Tue, 31 Dec 2024 00:00:00 GMT', now)).toBe(0)
+	})
+
+	test('returns undefined for missing or invalid values', () => {
+		expect(parseRetryAfter(null)).toBeUndefined()
+		expect(parseRetryAfter('')).toBeUndefined()
+		expect(parseRetryAfter('soon')).toBeUndefined()
+	})
+})
+
+describe('TokenBucketLimiter', () => {
+	test('keeps a separate bucket per key', () => {
+		const limiter = new TokenBucketLimiter({ capacity: 1, refillPerSecond: 1 })
+
+		expect(limiter.tryAcquire('gmail')).toBe(true)
+		expect(limiter.tryAcquire('gmail')).toBe(false)
+		expect(limiter.tryAcquire('scraper')).toBe(true)
+		expect(limiter.tryAcquire()).toBe(true)
+	})
+
+	test('waits for a token to refill', async () => {
+		const limiter = new TokenBucketLimiter({ capacity: 1, refillPerSecond: 20 })
+		await limiter.wait('api')
+
+		const start = Date.now()
+		await limiter.wait('api')
+		expect(Date.now() - start).toBeGreaterThanOrEqual(45) // ~50ms
+	})
+
+	test('getTimeUntilReady does not take a token', () => {
+		const limiter = new TokenBucketLimiter({ capacity: 1, refillPerSecond: 1 })
+
+		expect(limiter.getTimeUntilReady('api')).toBe(0)
+		expect(limiter.getTimeUntilReady('api')).toBe(0)
+		expect(limiter.tryAcquire('api')).toBe(true)
+		expect(limiter.getTimeUntilReady('api')).toBeGreaterThan(900)
+	})
+
+	test('penalize blocks a key until the Retry-After delay passes', async () => {
+		const limiter = new TokenBucketLimiter({ capacity: 5, refillPerSecond: 5 })
+
+		limiter.penalize(60, 'api')
+		limiter.penalize(10, 'api') // Shorter penalty keeps the longer one
+		expect(limiter.tryAcquire('api')).toBe(false)
+		expect(limiter.tryAcquire('other')).toBe(true)
+
+		const start = Date.now()
+		await limiter.wait('api')
+		expect(Date.now() - start).toBeGreaterThanOrEqual(50)
+
+		limiter.penalize('120', 'api')
+		expect(limiter.getTimeUntilReady('api')).toBeGreaterThan(119_000)
+		limiter.penalize('not a date', 'other')
+		expect(limiter.getTimeUntilReady('other')).toBe(0)
+	})
+
+	test('reset clears one key or all keys', () => {
+		const limiter = new TokenBucketLimiter({ capacity: 1, refillPerSecond: 1 })
+		limiter.tryAcquire('a')
+		limiter.tryAcquire('b')
+
+		limiter.reset('a')
+		expect(limiter.tryAcquire('a')).toBe(true)
+		expect(limiter.tryAcquire('b')).toBe(false)
+
+		limiter.reset()
+		expect(limiter.tryAcquire('b')).toBe(true)
+	})
+
+	test('wait rejects with the abort reason', async () => {
+		const limiter = new TokenBucketLimiter({ capacity: 1, refillPerSecond: 0.1 })
+		await limiter.wait()
+
+		const controller = new AbortController()
+		setTimeout(() => controller.abort(new Error('cancelled')), 20)
+		await expect(limiter.wait('default', { signal: controller.signal })).rejects.toThrow(
+			'cancelled',
+		)
+
+		// Aborted waits do not take a token
+		expect(limiter.getTimeUntilReady()).toBeGreaterThan(9000)
+		await expect(limiter.wait('default', { signal: AbortSignal.abort() })).rejects.toThrow()
+	})
+})
+
+describe('SlidingWindowLimiter', () => {
+	test('allows N calls per window for each key', async () => {
+		const limiter = new SlidingWindowLimiter({ limit: 2, windowMs: 80 })
+
+		expect(limiter.tryAcquire('a')).toBe(true)
+		expect(limiter.tryAcquire('a')).toBe(true)
+		expect(limiter.tryAcquire('a')).toBe(false)
+		expect(limiter.tryAcquire('b')).toBe(true)
+
+		const start = Date.now()
+		await limiter.wait('a')
+		expect(Date.now() - start).toBeGreaterThanOrEqual(70) // ~80ms
+	})
+})
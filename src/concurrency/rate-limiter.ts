@@ -1,3 +1,18 @@
+/**
+ * Rate limiters.
+ *
+ * - `RateLimiter`: fixed minimum delay between calls
+ * - `TokenBucketLimiter`: steady rate with burst capacity
+ * - `SlidingWindowLimiter`: at most N calls per period
+ *
+ * The keyed limiters keep one bucket per key (API host, account, ...),
+ * honor `Retry-After` penalties, and accept an `AbortSignal` on `wait()`.
+ * Their per-key state is plain data updated by pure algorithms, so it can
+ * also be stored outside the process.
+ *
+ * @module core/concurrency/rate-limiter
+ */
+
 /**
  * Simple time-based rate limiter.
  *
@@ -80,3 +95,389 @@ export class RateLimiter {
 		return Math.max(0, remaining)
 	}
 }
+
+// ============================================================================
+// Keyed limiters
+// ============================================================================
+
+/** Key used when none is given */
+const DEFAULT_KEY = 'default'
+
+/**
+ * Pure rate limiting algorithm over serializable per-key state.
+ *
+ * @template S - Per-key state (JSON-serializable)
+ */
+export interface RateLimitAlgorithm<S> {
+	/**
+	 * Identifies the algorithm and its settings (stored state written under
+	 * a different id is discarded)
+	 */
+	readonly id: string
+	/** State of a key seen for the first time */
+	initial(now: number): S
+	/**
+	 * Try to take one permit.
+	 * @returns Updated state and 0 when acquired; otherwise the unchanged
+	 *   state and the milliseconds until a permit may be available
+	 */
+	acquire(state: S, now: number): { state: S; waitMs: number }
+}
+
+/**
+ * Limiter state for one key.
+ */
+export interface RateLimitEntry<S> {
+	/** Algorithm state */
+	state: S
+	/** Epoch ms before which no permit is granted (Retry-After penalty) */
+	blockedUntil: number
+}
+
+/**
+ * Options for `TokenBucketLimiter`.
+ */
+export interface TokenBucketOptions {
+	/** Bucket size: calls allowed in a burst */
+	capacity: number
+	/** Tokens added per second */
+	refillPerSecond: number
+}
+
+/** Token bucket state for one key */
+export interface TokenBucketState {
+	tokens: number
+	updatedAt: number
+}
+
+/**
+ * Options for `SlidingWindowLimiter`.
+ */
+export interface SlidingWindowOptions {
+	/** Calls allowed per window */
+	limit: number
+	/** Window length in milliseconds */
+	windowMs: number
+}
+
+/** Sliding window state for one key: times of calls in the window */
+export interface SlidingWindowState {
+	timestamps: number[]
+}
+
+/**
+ * Options for `wait()`.
+ */
+export interface RateLimitWaitOptions {
+	/** Abort waiting; rejects with the signal's reason */
+	signal?: AbortSignal
+}
+
+/**
+ * Token bucket algorithm: starts full, refills continuously.
+ *
+ * @param options - Capacity and refill rate
+ * @returns Algorithm
+ * @throws Error if capacity or refill rate is not positive
+ */
+export function tokenBucketAlgorithm(
+	options: TokenBucketOptions,
+): RateLimitAlgorithm<TokenBucketState> {
+	const { capacity, refillPerSecond } = options
+	if (!(capacity >= 1) || !(refillPerSecond > 0)) {
+		throw new Error('Token bucket needs capacity >= 1 and refillPerSecond > 0')
+	}
+	return {
+		id: `token-bucket:${capacity}:${refillPerSecond}`,
+		initial: (now) => ({ tokens: capacity, updatedAt: now }),
+		acquire: (state, now) => {
+			const elapsed = Math.max(0, now - state.updatedAt)
+			const tokens = Math.min(
+				capacity,
+				state.tokens + (elapsed * refillPerSecond) / 1000,
+			)
+			if (tokens >= 1) {
+				return { state: { tokens: tokens - 1, updatedAt: now }, waitMs: 0 }
+			}
+			return {
+				state,
+				waitMs: Math.ceil(((1 - tokens) * 1000) / refillPerSecond),
+			}
+		},
+	}
+}
+
+/**
+ * Sliding window log algorithm: at most `limit` calls in any `windowMs`.
+ *
+ * @param options - Limit and window length
+ * @returns Algorithm
+ * @throws Error if limit or window is not positive
+ */
+export function slidingWindowAlgorithm(
+	options: SlidingWindowOptions,
+): RateLimitAlgorithm<SlidingWindowState> {
+	const { limit, windowMs } = options
+	if (!(limit >= 1) || !(windowMs > 0)) {
+		throw new Error('Sliding window needs limit >= 1 and windowMs > 0')
+	}
+	return {
+		id: `sliding-window:${limit}:${windowMs}`,
+		initial: () => ({ timestamps: [] }),
+		acquire: (state, now) => {
+			const timestamps = state.timestamps.filter((t) => t > now - windowMs)
+			if (timestamps.length < limit) {
+				return { state: { timestamps: [...timestamps, now] }, waitMs: 0 }
+			}
+			const oldest = timestamps[timestamps.length - limit] as number
+			return { state: { timestamps }, waitMs: oldest + windowMs - now }
+		},
+	}
+}
+
+/**
+ * Parse an HTTP `Retry-After` value (delay in seconds or an HTTP date).
+ *
+ * @param value - Header value
+ * @param now - Current time in epoch ms (default: Date.now())
+ * @returns Delay in milliseconds, or undefined if missing or invalid
+ *
+ * @example
+ * ```typescript
+ * parseRetryAfter("120"); // 120000
+ * parseRetryAfter(response.headers.get("retry-after"));
+ * ```
+ */
+export function parseRetryAfter(
+	value: string | null | undefined,
+	now = Date.now(),
+): number | undefined {
+	const trimmed = value?.trim()
+	if (!trimmed) {
+		return undefined
+	}
+	if (/^\d+(\.\d+)?$/.test(trimmed)) {
+		return Math.ceil(Number(trimmed) * 1000)
+	}
+	const date = Date.parse(trimmed)
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Apply an algorithm to one key's entry, honoring its penalty.
+ *
+ * @param algorithm - Rate limiting algorithm
+ * @param entry - Key entry; its state is replaced when a permit is taken
+ * @param now - Current time in epoch ms
+ * @param take - Take the permit if one is available
+ * @returns Milliseconds until a permit is available (0 if ready now)
+ */
+export function applyRateLimit<S>(
+	algorithm: RateLimitAlgorithm<S>,
+	entry: RateLimitEntry<S>,
+	now: number,
+	take: boolean,
+): number {
+	if (entry.blockedUntil > now) {
+		return entry.blockedUntil - now
+	}
+	const { state, waitMs } = algorithm.acquire(entry.state, now)
+	if (take && waitMs === 0) {
+		entry.state = state
+	}
+	return waitMs
+}
+
+/**
+ * Sleep, rejecting with the signal's reason if aborted.
+ *
+ * @param ms - Milliseconds to sleep
+ * @param signal - Optional abort signal
+ */
+export function abortableSleep(
+	ms: number,
+	signal?: AbortSignal,
+): Promise<void> {
+	signal?.throwIfAborted()
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer)
+			reject(signal?.reason)
+		}
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		signal?.addEventListener('abort', onAbort, { once: true })
+	})
+}
+
+/**
+ * Rate limiter with one bucket per key, over a pure algorithm.
+ *
+ * @template S - Per-key algorithm state
+ */
+export class KeyedRateLimiter<S> {
+	private readonly entries = new Map<string, RateLimitEntry<S>>()
+
+	/**
+	 * @param algorithm - Algorithm applied to each key's state
+	 */
+	constructor(private readonly algorithm: RateLimitAlgorithm<S>) {}
+
+	/**
+	 * Take a permit if one is available now.
+	 *
+	 * @param key - Bucket key (default: shared bucket)
+	 * @returns True if acquired
+	 */
+	tryAcquire(key = DEFAULT_KEY): boolean {
+		return this.attempt(key, true) === 0
+	}
+
+	/**
+	 * Wait until a permit is available, then take it.
+	 *
+	 * @param key - Bucket key (default: shared bucket)
+	 * @param options - Abort signal
+	 * @returns Promise that resolves once a permit is taken
+	 * @throws The signal's reason if aborted while waiting
+	 *
+	 * @example
+	 * ```typescript
+	 * await limiter.wait(new URL(url).host, { signal });
+	 * ```
+	 */
+	async wait(
+		key = DEFAULT_KEY,
+		options: RateLimitWaitOptions = {},
+	): Promise<void> {
+		for (;;) {
+			options.signal?.throwIfAborted()
+			const waitMs = this.attempt(key, true)
+			if (waitMs === 0) {
+				return
+			}
+			await abortableSleep(waitMs, options.signal)
+		}
+	}
+
+	/**
+	 * Milliseconds until a permit is available, without taking one.
+	 *
+	 * @param key - Bucket key (default: shared bucket)
+	 * @returns Milliseconds until ready (0 if ready now)
+	 */
+	getTimeUntilReady(key = DEFAULT_KEY): number {
+		return this.attempt(key, false)
+	}
+
+	/**
+	 * Block a key for a provider-requested delay (e.g. after HTTP 429).
+	 * Overlapping penalties keep the later end.
+	 *
+	 * @param retryAfter - Delay in milliseconds, or a `Retry-After` header
+	 *   value (seconds or HTTP date); invalid header values are ignored
+	 * @param key - Bucket key (default: shared bucket)
+	 *
+	 * @example
+	 * ```typescript
+	 * if (response.status === 429) {
+	 *   limiter.penalize(response.headers.get("retry-after") ?? 60_000, host);
+	 * }
+	 * ```
+	 */
+	penalize(retryAfter: number | string, key = DEFAULT_KEY): void {
+		const now = Date.now()
+		const delayMs =
+			typeof retryAfter === 'number'
+				? retryAfter
+				: parseRetryAfter(retryAfter, now)
+		if (delayMs === undefined) {
+			return
+		}
+		const entry = this.getEntry(key, now)
+		entry.blockedUntil = Math.max(entry.blockedUntil, now + delayMs)
+	}
+
+	/**
+	 * Forget one key's state, or every key's.
+	 *
+	 * @param key - Key to reset (default: all keys)
+	 */
+	reset(key?: string): void {
+		if (key === undefined) {
+			this.entries.clear()
+		} else {
+			this.entries.delete(key)
+		}
+	}
+
+	private getEntry(key: string, now: number): RateLimitEntry<S> {
+		let entry = this.entries.get(key)
+		if (!entry) {
+			entry = { state: this.algorithm.initial(now), blockedUntil: 0 }
+			this.entries.set(key, entry)
+		}
+		return entry
+	}
+
+	/** Returns the wait in ms; takes the permit when `take` and ready */
+	private attempt(key: string, take: boolean): number {
+		const now = Date.now()
+		return applyRateLimit(this.algorithm, this.getEntry(key, now), now, take)
+	}
+}
+
+/**
+ * Token bucket rate limiter with per-key buckets.
+ *
+ * Allows bursts of up to `capacity` calls, then a steady
+ * `refillPerSecond` rate.
+ *
+ * @example
+ * ```typescript
+ * import { TokenBucketLimiter } from "@side-quest/core/concurrency";
+ *
+ * // Bursts of 10, then 5 requests per second per host
+ * const limiter = new TokenBucketLimiter({ capacity: 10, refillPerSecond: 5 });
+ *
+ * await limiter.wait(new URL(url).host, { signal });
+ * const response = await fetch(url, { signal });
+ * if (response.status === 429) {
+ *   limiter.penalize(response.headers.get("retry-after") ?? 60_000, new URL(url).host);
+ * }
+ * ```
+ */
+export class TokenBucketLimiter extends KeyedRateLimiter<TokenBucketState> {
+	/**
+	 * @param options - Capacity and refill rate
+	 * @throws Error if capacity or refill rate is not positive
+	 */
+	constructor(options: TokenBucketOptions) {
+		super(tokenBucketAlgorithm(options))
+	}
+}
+
+/**
+ * Sliding window rate limiter with per-key windows: at most `limit` calls
+ * in any `windowMs` period.
+ *
+ * @example
+ * ```typescript
+ * import { SlidingWindowLimiter } from "@side-quest/core/concurrency";
+ *
+ * // Provider quota: 250 calls per minute per account
+ * const limiter = new SlidingWindowLimiter({ limit: 250, windowMs: 60_000 });
+ * await limiter.wait(accountId);
+ * ```
+ */
+export class SlidingWindowLimiter extends KeyedRateLimiter<SlidingWindowState> {
+	/**
+	 * @param options - Limit and window length
+	 * @throws Error if limit or window is not positive
+	 */
+	constructor(options: SlidingWindowOptions) {
+		super(slidingWindowAlgorithm(options))
+	}
+}
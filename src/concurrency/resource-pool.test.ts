@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'bun:test'
-import { ResourcePool } from './resource-pool.ts'
+import { getCounters, getGauges, resetMetrics } from '../instrumentation/metrics.ts'
+import { type EvictionReason, ResourcePool, type ResourcePoolOptions } from './resource-pool.ts'
 
 describe('ResourcePool', () => {
 	test('basic get/set operations', () => {
@@ -262,10 +263,11 @@ describe('ResourcePool', () => {
 
 	test('clear during pending factory', async () => {
 		const pool = new ResourcePool<string, number>()
+		let calls = 0
 
 		const slowFactory = async (_key: string) => {
 			await new Promise((resolve) => setTimeout(resolve, 50))
-			return 42
+			return ++calls
 		}
 
 		// Start factory
@@ -274,12 +276,262 @@ describe('ResourcePool', () => {
 		// Clear pool while factory is running
 		pool.clear()
 
-		// Factory still completes
+		// The caller gets a value created after the clear
 		const result = await promise
-		expect(result).toBe(42)
+		expect(result).toBe(2)
+		expect(pool.get('key')).toBe(2)
+	})
+
+	test('reports size and pending gauges when named', async () => {
+		resetMetrics()
+		const pool = new ResourcePool<string, number>({ name: 'parsers' })
+		const gauge = (name: string) =>
+			getGauges().find((g) => g.name === name && g.labels.pool === 'parsers')?.value
+
+		let resolveFactory: (value: number) => void = () => {}
+		const pending = pool.getOrCreate(
+			'ts',
+			() =>
+				new Promise<number>((resolve) => {
+					resolveFactory = resolve
+				}),
+		)
+		expect(gauge('resource_pool_pending')).toBe(1)
+		expect(gauge('resource_pool_size')).toBe(0)
+
+		resolveFactory(1)
+		await pending
+		expect(gauge('resource_pool_pending')).toBe(0)
+		expect(gauge('resource_pool_size')).toBe(1)
+
+		pool.set('js', 2)
+		expect(gauge('resource_pool_size')).toBe(2)
+		pool.delete('ts')
+		expect(gauge('resource_pool_size')).toBe(1)
+		pool.clear()
+		expect(gauge('resource_pool_size')).toBe(0)
+		resetMetrics()
+	})
+
+	test('does not report metrics when unnamed', () => {
+		resetMetrics()
+		const pool = new ResourcePool<string, number>()
+		pool.set('a', 1)
+		expect(getGauges()).toHaveLength(0)
+	})
+})
+
+describe('ResourcePool lifecycle', () => {
+	const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+	/** Pool that records every disposal */
+	function disposingPool(options: ResourcePoolOptions<string, number>) {
+		const disposed: [string, number, EvictionReason][] = []
+		const pool = new ResourcePool<string, number>({
+			...options,
+			dispose: (value, key, reason) => {
+				disposed.push([key, value, reason])
+			},
+		})
+		return { pool, disposed }
+	}
+
+	test('evicts the least recently used value when full', async () => {
+		const { pool, disposed } = disposingPool({ maxSize: 2 })
+		pool.set('a', 1)
+		pool.set('b', 2)
+		pool.get('a') // 'b' is now least recently used
+		await pool.getOrCreate('c', async () => 3)
+
+		expect(pool.has('a')).toBe(true)
+		expect(pool.has('b')).toBe(false)
+		expect(pool.has('c')).toBe(true)
+		expect(disposed).toEqual([['b', 2, 'capacity']])
+		expect(pool.getStats()).toMatchObject({ size: 2, misses: 1, evictions: 1 })
+	})
+
+	test('evicts values idle longer than the TTL', async () => {
+		const { pool, disposed } = disposingPool({ idleTtlMs: 40 })
+		pool.set('a', 1)
+		pool.set('b', 2)
+		await sleep(25)
+		pool.get('b') // keeps 'b' fresh
+		await sleep(25)
+
+		expect(pool.has('a')).toBe(false)
+		expect(pool.prune()).toBe(1)
+		expect(pool.get('b')).toBe(2)
+		expect(await pool.getOrCreate('a', async () => 10)).toBe(10)
+		expect(disposed).toEqual([['a', 1, 'expired']])
+	})
+
+	test('validates cached values before reuse', async () => {
+		const healthy = new Set([1])
+		const { pool, disposed } = disposingPool({ validate: (value) => healthy.has(value) })
+		let created = 0
+		const factory = async () => ++created
+
+		expect(await pool.getOrCreate('db', factory)).toBe(1)
+		expect(await pool.getOrCreate('db', factory)).toBe(1)
+
+		healthy.clear()
+		expect(await pool.getOrCreate('db', factory)).toBe(2)
+		expect(disposed).toEqual([['db', 1, 'invalid']])
+		expect(pool.getStats()).toMatchObject({ hits: 1, misses: 2, evictions: 1 })
+	})
+
+	test('treats a throwing health check as invalid', async () => {
+		const pool = new ResourcePool<string, number>({
+			validate: () => {
+				throw new Error('connection reset')
+			},
+		})
+		pool.set('db', 1)
+
+		expect(await pool.getOrCreate('db', async () => 2)).toBe(2)
+	})
+
+	test('disposes values that are replaced, deleted, or cleared', async () => {
+		const { pool, disposed } = disposingPool({})
+		pool.set('a', 1)
+		pool.set('a', 1) // same value is not disposed
+		pool.set('a', 2)
+		pool.set('b', 3)
+		pool.delete('a')
+		pool.clear()
+
+		expect(disposed).toEqual([
+			['a', 1, 'replaced'],
+			['a', 2, 'deleted'],
+			['b', 3, 'cleared'],
+		])
+	})
+
+	test('close waits for async disposals and ignores their errors', async () => {
+		const closed: string[] = []
+		const pool = new ResourcePool<string, string>({
+			dispose: async (value) => {
+				await sleep(20)
+				if (value === 'bad') throw new Error('already closed')
+				closed.push(value)
+			},
+		})
+		pool.set('a', 'page-a')
+		pool.set('b', 'bad')
+
+		await pool.close()
+		expect(closed).toEqual(['page-a'])
+		expect(pool.size).toBe(0)
+	})
+
+	test('recreates a value evicted while it was being validated', async () => {
+		const { pool, disposed } = disposingPool({
+			maxSize: 1,
+			validate: async () => {
+				await sleep(20)
+				return true
+			},
+		})
+		pool.set('a', 1)
+
+		const reused = pool.getOrCreate('a', async () => 2)
+		pool.set('b', 10) // evicts 'a' for capacity mid-validation
+
+		expect(await reused).toBe(2)
+		expect(disposed).toEqual([
+			['a', 1, 'capacity'],
+			['b', 10, 'capacity'],
+		])
+	})
+
+	test('close disposes values created after it started', async () => {
+		const { pool, disposed } = disposingPool({})
+		const creating = pool.getOrCreate('a', async () => {
+			await sleep(20)
+			return 1
+		})
+
+		await pool.close()
+		expect(pool.size).toBe(0)
+		expect(disposed).toEqual([
+			['a', 1, 'cleared'],
+			['a', 1, 'cleared'],
+		])
+		expect(await creating).toBe(1)
+	})
+
+	test('recreates a value whose creation a clear interrupted', async () => {
+		const { pool, disposed } = disposingPool({})
+		let calls = 0
+		const factory = async () => {
+			await sleep(20)
+			return ++calls
+		}
+
+		const first = pool.getOrCreate('a', factory)
+		pool.clear()
+		const second = pool.getOrCreate('a', factory)
+
+		expect(await first).toBe(2)
+		expect(await second).toBe(2)
+		expect(calls).toBe(2)
+		expect(pool.get('a')).toBe(2)
+		expect(disposed).toEqual([['a', 1, 'cleared']])
+	})
+
+	test('caches factory failures for the backoff period', async () => {
+		const pool = new ResourcePool<string, number>({ failureBackoffMs: 40 })
+		let attempts = 0
+		const factory = async () => {
+			attempts++
+			if (attempts === 1) throw new Error('quota exceeded')
+			return 42
+		}
+
+		await expect(pool.getOrCreate('api', factory)).rejects.toThrow('quota exceeded')
+		await expect(pool.getOrCreate('api', factory)).rejects.toThrow('quota exceeded')
+		expect(attempts).toBe(1)
+
+		await sleep(50)
+		expect(await pool.getOrCreate('api', factory)).toBe(42)
+		expect(attempts).toBe(2)
+
+		// delete() forgets a cached failure
+		attempts = 0
+		pool.delete('api')
+		await expect(pool.getOrCreate('api', factory)).rejects.toThrow()
+		pool.delete('api')
+		expect(await pool.getOrCreate('api', factory)).toBe(42)
+	})
+
+	test('counts hits, misses, and pending creations', async () => {
+		const pool = new ResourcePool<string, number>()
+		let resolveFactory: (value: number) => void = () => {}
+		const factory = () =>
+			new Promise<number>((resolve) => {
+				resolveFactory = resolve
+			})
+
+		const first = pool.getOrCreate('a', factory)
+		const joined = pool.getOrCreate('a', factory)
+		expect(pool.getStats()).toEqual({ size: 0, pending: 1, hits: 1, misses: 1, evictions: 0 })
+
+		resolveFactory(1)
+		await Promise.all([first, joined])
+		await pool.getOrCreate('a', factory)
+		expect(pool.getStats()).toEqual({ size: 1, pending: 0, hits: 2, misses: 1, evictions: 0 })
+	})
 
-		// But pool is empty after clear
-		expect(pool.has('key')).toBe(true) // Factory sets it after clear
-		expect(pool.get('key')).toBe(42)
+	test('reports evictions as a counter when named', () => {
+		resetMetrics()
+		const pool = new ResourcePool<string, number>({ name: 'pages', maxSize: 1 })
+		pool.set('a', 1)
+		pool.set('b', 2)
+
+		expect(getCounters().find((c) => c.name === 'resource_pool_evictions_total')?.labels).toEqual({
+			pool: 'pages',
+			reason: 'capacity',
+		})
+		resetMetrics()
 	})
 })
@@ -30,6 +30,39 @@
  * }
  * ```
  *
+ * ## Lifecycle
+ *
+ * By default values are cached until deleted. Options add:
+ *
+ * - `maxSize`: evict the least recently used value when full
+ * - `idleTtlMs`: evict values unused for this long (checked on access and
+ *   by `prune()`)
+ * - `validate`: health check before reusing a cached value; failing values
+ *   are evicted and recreated
+ * - `dispose`: release a value when it leaves the pool (evicted, replaced,
+ *   deleted, or cleared); a value whose creation a clear interrupted is
+ *   disposed and created again, and `close()` awaits pending creations and
+ *   disposals
+ * - `failureBackoffMs`: remember a factory failure and rethrow it for this
+ *   long instead of calling the factory again
+ *
+ * ```typescript
+ * const pages = new ResourcePool<string, Page>({
+ *   maxSize: 4,
+ *   idleTtlMs: 60_000,
+ *   validate: (page) => !page.isClosed(),
+ *   dispose: (page) => page.close(),
+ * });
+ * ```
+ *
+ * ## Metrics
+ *
+ * Pass a `name` to report the pool's size and pending creations as
+ * `resource_pool_size` and `resource_pool_pending` gauges (labelled
+ * `{ pool: name }`) in the instrumentation metrics registry, and evictions
+ * as the `resource_pool_evictions_total` counter (labelled with `reason`).
+ * `getStats()` returns hits, misses, and evictions for any pool.
+ *
  * ## Thread Safety
  *
  * The pool uses a pending map to prevent concurrent factory calls for
@@ -39,44 +72,305 @@
  * @module core/concurrency/resource-pool
  */
 
+import { incrementCounter, setGauge } from '../instrumentation/metrics.js'
+
 /**
- * A simple cache for expensive resources that should be created once per key.
+ * Why a value left the pool.
+ *
+ * - `capacity`: least recently used when the pool was full
+ * - `expired`: idle longer than `idleTtlMs`
+ * - `invalid`: failed `validate()`
+ * - `replaced`: overwritten by `set()` or a newer factory result
+ * - `deleted`, `cleared`: removed by `delete()` or `clear()`/`close()`
+ */
+export type EvictionReason =
+	| 'capacity'
+	| 'expired'
+	| 'invalid'
+	| 'replaced'
+	| 'deleted'
+	| 'cleared'
+
+/**
+ * Options for a resource pool.
+ */
+export interface ResourcePoolOptions<K = unknown, V = unknown> {
+	/**
+	 * Pool name used as the `pool` label when reporting size and pending
+	 * gauges. Metrics are only reported when a name is set.
+	 */
+	name?: string
+
+	/**
+	 * Maximum cached values; the least recently used is evicted when full.
+	 * @default unlimited
+	 */
+	maxSize?: number
+
+	/**
+	 * Evict values not used for this many milliseconds.
+	 * @default never
+	 */
+	idleTtlMs?: number
+
+	/**
+	 * Health check run by `getOrCreate()` before reusing a cached value.
+	 * Returning false (or throwing) evicts the value and creates a new one.
+	 */
+	validate?: (value: V, key: K) => boolean | Promise<boolean>
+
+	/**
+	 * Release a value that left the pool. Errors are ignored.
+	 */
+	dispose?: (value: V, key: K, reason: EvictionReason) => void | Promise<void>
+
+	/**
+	 * Remember a factory failure for this many milliseconds, rejecting
+	 * `getOrCreate()` for the key with the same error instead of retrying.
+	 * @default 0 (failures are not cached)
+	 */
+	failureBackoffMs?: number
+}
+
+/**
+ * Pool counters, as returned by `getStats()`.
+ */
+export interface ResourcePoolStats {
+	/** Cached values */
+	size: number
+	/** Creations (and validations) in progress */
+	pending: number
+	/** `getOrCreate()` calls served from the pool or a pending creation */
+	hits: number
+	/** `getOrCreate()` calls that ran the factory */
+	misses: number
+	/** Values evicted for capacity, idle TTL, or failed validation */
+	evictions: number
+}
+
+interface PoolEntry<V> {
+	value: V
+	lastUsed: number
+}
+
+interface CachedFailure {
+	error: unknown
+	until: number
+}
+
+/**
+ * A cache for expensive resources that should be created once per key.
  * Prevents duplicate creation if called concurrently with same key.
  */
 export class ResourcePool<K, V> {
-	private cache = new Map<K, V>()
+	// Map order is recency order: least recently used first
+	private cache = new Map<K, PoolEntry<V>>()
 	private pending = new Map<K, Promise<V>>()
+	private failures = new Map<K, CachedFailure>()
+	private disposals = new Set<Promise<void>>()
+	// Bumped by clear(), so creations started before it are not cached
+	private generation = 0
+	private hits = 0
+	private misses = 0
+	private evictions = 0
+	private readonly options: ResourcePoolOptions<K, V>
+
+	constructor(options: ResourcePoolOptions<K, V> = {}) {
+		this.options = options
+	}
+
+	/**
+	 * Report size and pending gauges when the pool is named.
+	 */
+	private reportMetrics(): void {
+		const { name } = this.options
+		if (name === undefined) {
+			return
+		}
+		setGauge('resource_pool_size', this.cache.size, { pool: name })
+		setGauge('resource_pool_pending', this.pending.size, { pool: name })
+	}
 
 	/**
 	 * Get a cached resource or create it using the factory.
 	 * Prevents duplicate creation if called concurrently with same key.
 	 *
+	 * A cached value is checked with `validate` (when set) before reuse.
+	 *
 	 * @param key - The resource key
 	 * @param factory - Function to create the resource if not cached
 	 * @returns The cached or newly created resource
+	 * @throws The factory's error, or a cached failure within its backoff
 	 */
 	async getOrCreate(key: K, factory: (key: K) => Promise<V>): Promise<V> {
-		// Return cached value if available
-		if (this.cache.has(key)) {
-			return this.cache.get(key)!
+		// Return pending promise if factory is already running for this key
+		const running = this.pending.get(key)
+		if (running) {
+			this.hits++
+			return running
 		}
 
-		// Return pending promise if factory is already running for this key
-		if (this.pending.has(key)) {
-			return this.pending.get(key)!
+		const failure = this.failures.get(key)
+		if (failure) {
+			if (failure.until > Date.now()) {
+				throw failure.error
+			}
+			this.failures.delete(key)
 		}
 
-		// Create new resource
-		const promise = factory(key)
+		// Return cached value if available
+		const entry = this.touch(key)
+		if (entry && !this.options.validate) {
+			this.hits++
+			return entry.value
+		}
+
+		const promise = this.acquire(key, entry, factory, this.generation)
 		this.pending.set(key, promise)
+		this.reportMetrics()
 
 		try {
-			const value = await promise
-			this.cache.set(key, value)
-			return value
+			return await promise
 		} finally {
 			// Always clean up pending promise, even if factory throws
-			this.pending.delete(key)
+			if (this.pending.get(key) === promise) {
+				this.pending.delete(key)
+			}
+			this.reportMetrics()
+		}
+	}
+
+	/**
+	 * Validate a cached entry or run the factory.
+	 */
+	private async acquire(
+		key: K,
+		entry: PoolEntry<V> | undefined,
+		factory: (key: K) => Promise<V>,
+		generation: number,
+	): Promise<V> {
+		if (entry) {
+			const valid = await this.isValid(entry.value, key)
+			// The entry may have been evicted (and disposed) while validating
+			if (this.cache.get(key) === entry) {
+				if (valid) {
+					this.hits++
+					return entry.value
+				}
+				this.evict(key, entry, 'invalid')
+			}
+		}
+
+		this.misses++
+		let value: V
+		try {
+			value = await factory(key)
+		} catch (error) {
+			const { failureBackoffMs = 0 } = this.options
+			if (failureBackoffMs > 0 && generation === this.generation) {
+				this.failures.set(key, { error, until: Date.now() + failureBackoffMs })
+			}
+			throw error
+		}
+		if (generation !== this.generation) {
+			// Cleared while creating: release the value and get one created
+			// after the clear (or join a creation already started)
+			this.runDispose(value, key, 'cleared')
+			return this.getOrCreate(key, factory)
+		}
+		this.store(key, value)
+		return value
+	}
+
+	private async isValid(value: V, key: K): Promise<boolean> {
+		try {
+			return (await this.options.validate?.(value, key)) ?? true
+		} catch {
+			return false
+		}
+	}
+
+	/**
+	 * Look up an entry, evicting it if idle too long, and mark it as used.
+	 */
+	private touch(key: K): PoolEntry<V> | undefined {
+		const entry = this.cache.get(key)
+		if (!entry) {
+			return undefined
+		}
+		const now = Date.now()
+		if (this.isExpired(entry, now)) {
+			this.evict(key, entry, 'expired')
+			this.reportMetrics()
+			return undefined
+		}
+		entry.lastUsed = now
+		this.cache.delete(key)
+		this.cache.set(key, entry)
+		return entry
+	}
+
+	private isExpired(entry: PoolEntry<V>, now: number): boolean {
+		const { idleTtlMs } = this.options
+		return idleTtlMs !== undefined && now - entry.lastUsed >= idleTtlMs
+	}
+
+	/**
+	 * Cache a value as most recently used, evicting to stay within maxSize.
+	 */
+	private store(key: K, value: V): void {
+		const existing = this.cache.get(key)
+		if (existing) {
+			this.cache.delete(key)
+			if (existing.value !== value) {
+				this.runDispose(existing.value, key, 'replaced')
+			}
+		}
+		this.cache.set(key, { value, lastUsed: Date.now() })
+
+		const { maxSize } = this.options
+		if (maxSize !== undefined) {
+			for (const [oldKey, oldEntry] of this.cache) {
+				if (this.cache.size <= maxSize) break
+				this.evict(oldKey, oldEntry, 'capacity')
+			}
+		}
+		this.reportMetrics()
+	}
+
+	private evict(key: K, entry: PoolEntry<V>, reason: EvictionReason): void {
+		this.cache.delete(key)
+		if (reason === 'capacity' || reason === 'expired' || reason === 'invalid') {
+			this.evictions++
+			if (this.options.name !== undefined) {
+				incrementCounter('resource_pool_evictions_total', {
+					pool: this.options.name,
+					reason,
+				})
+			}
+		}
+		this.runDispose(entry.value, key, reason)
+	}
+
+	/**
+	 * Call `dispose`, tracking async disposals for `close()`.
+	 */
+	private runDispose(value: V, key: K, reason: EvictionReason): void {
+		const { dispose } = this.options
+		if (!dispose) {
+			return
+		}
+		let result: void | Promise<void>
+		try {
+			result = dispose(value, key, reason)
+		} catch {
+			return
+		}
+		if (result instanceof Promise) {
+			const disposal: Promise<void> = result
+				.catch(() => {})
+				.finally(() => this.disposals.delete(disposal))
+			this.disposals.add(disposal)
 		}
 	}
 
@@ -84,48 +378,126 @@ export class ResourcePool<K, V> {
 	 * Check if a resource exists in the pool.
 	 *
 	 * @param key - The resource key
-	 * @returns True if the resource is cached
+	 * @returns True if the resource is cached (and not idle past its TTL)
 	 */
 	has(key: K): boolean {
-		return this.cache.has(key)
+		const entry = this.cache.get(key)
+		return entry !== undefined && !this.isExpired(entry, Date.now())
 	}
 
 	/**
 	 * Get a resource without creating (returns undefined if not cached).
+	 * Marks it as used but does not run `validate`.
 	 *
 	 * @param key - The resource key
 	 * @returns The cached resource or undefined
 	 */
 	get(key: K): V | undefined {
-		return this.cache.get(key)
+		return this.touch(key)?.value
 	}
 
 	/**
 	 * Manually set a resource in the pool.
+	 * A different value already cached for the key is disposed.
 	 *
 	 * @param key - The resource key
 	 * @param value - The resource value
 	 */
 	set(key: K, value: V): void {
-		this.cache.set(key, value)
+		this.store(key, value)
 	}
 
 	/**
-	 * Remove a resource from the pool.
+	 * Remove a resource from the pool, disposing it, and forget a cached
+	 * factory failure for the key.
 	 *
 	 * @param key - The resource key
 	 * @returns True if the resource was removed, false if it didn't exist
 	 */
 	delete(key: K): boolean {
-		return this.cache.delete(key)
+		this.failures.delete(key)
+		const entry = this.cache.get(key)
+		if (entry) {
+			this.evict(key, entry, 'deleted')
+		}
+		this.reportMetrics()
+		return entry !== undefined
 	}
 
 	/**
-	 * Clear all cached resources.
+	 * Clear all cached resources (disposing them) and cached failures.
+	 *
+	 * Creations still running are not cached when they finish: their value
+	 * is disposed and created again, so callers get a value created after
+	 * the clear.
 	 */
 	clear(): void {
+		const entries = [...this.cache]
+		this.generation++
 		this.cache.clear()
 		this.pending.clear()
+		this.failures.clear()
+		for (const [key, entry] of entries) {
+			this.runDispose(entry.value, key, 'cleared')
+		}
+		this.reportMetrics()
+	}
+
+	/**
+	 * Clear the pool and wait for pending creations and disposals to finish.
+	 *
+	 * @example
+	 * ```typescript
+	 * onShutdown(() => connections.close());
+	 * ```
+	 */
+	async close(): Promise<void> {
+		// Creations interrupted by a clear run again, so clear until none are
+		// left
+		let creations = [...this.pending.values()]
+		this.clear()
+		while (creations.length > 0) {
+			await Promise.allSettled(creations)
+			creations = [...this.pending.values()]
+			this.clear()
+		}
+		await Promise.allSettled([...this.disposals])
+	}
+
+	/**
+	 * Evict every value idle longer than `idleTtlMs`.
+	 * Idle values are otherwise only evicted when accessed.
+	 *
+	 * @returns Number of values evicted
+	 */
+	prune(): number {
+		const now = Date.now()
+		let evicted = 0
+		// Least recently used first, so stop at the first fresh entry
+		for (const [key, entry] of this.cache) {
+			if (!this.isExpired(entry, now)) break
+			this.evict(key, entry, 'expired')
+			evicted++
+		}
+		if (evicted > 0) {
+			this.reportMetrics()
+		}
+		return evicted
+	}
+
+	/**
+	 * Get hit, miss, and eviction counters.
+	 *
+	 * @returns Current pool stats
+	 */
+	getStats(): ResourcePoolStats {
+		return {
+			size: this.cache.size,
+			pending: this.pending.size,
+			hits: this.hits,
+			misses: this.misses,
+			evictions: this.evictions,
+		}
 	}
 
 	/**
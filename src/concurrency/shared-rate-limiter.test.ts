@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { createTempDir } from '../testing/index.js'
+import { slidingWindowAlgorithm, tokenBucketAlgorithm } from './rate-limiter.js'
+import { SharedRateLimiter } from './shared-rate-limiter.js'
+
+describe('SharedRateLimiter', () => {
+	let dir: string
+	let statePath: string
+
+	beforeEach(() => {
+		dir = createTempDir('shared-rate-test-')
+		statePath = join(dir, 'rate.json')
+	})
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	const limiter = (capacity = 2) =>
+		new SharedRateLimiter({
+			statePath,
+			algorithm: tokenBucketAlgorithm({ capacity, refillPerSecond: 0.001 }),
+			lock: { lockDir: join(dir, 'locks') },
+		})
+
+	/**
+	 * Run a worker process that takes permits from the shared state file
+	 * and prints the time of each one.
+	 */
+	function spawnWorker(body: string[]) {
+		const script = join(dir, `worker-${crypto.randomUUID()}.ts`)
+		writeFileSync(
+			script,
+			[
+				`import { SharedRateLimiter } from ${JSON.stringify(join(import.meta.dir, 'shared-rate-limiter.ts'))}`,
+				`import { slidingWindowAlgorithm, tokenBucketAlgorithm } from ${JSON.stringify(join(import.meta.dir, 'rate-limiter.ts'))}`,
+				`const statePath = ${JSON.stringify(statePath)}`,
+				`const lock = { lockDir: ${JSON.stringify(join(dir, 'locks'))} }`,
+				...body,
+			].join('\n'),
+		)
+		return Bun.spawn(['bun', script], { stdout: 'pipe', stderr: 'inherit' })
+	}
+
+	async function output(proc: ReturnType<typeof spawnWorker>): Promise<number[]> {
+		expect(await proc.exited).toBe(0)
+		const text = await new Response(proc.stdout).text()
+		return text.split('\n').filter(Boolean).map(Number)
+	}
+
+	test('shares one budget between instances', async () => {
+		const a = limiter()
+		const b = limiter()
+
+		expect(await a.tryAcquire('gmail')).toBe(true)
+		expect(await b.tryAcquire('gmail')).toBe(true)
+		expect(await a.tryAcquire('gmail')).toBe(false)
+		expect(await b.getTimeUntilReady('gmail')).toBeGreaterThan(0)
+		expect(await b.tryAcquire('scraper')).toBe(true)
+
+		await b.reset('gmail')
+		expect(await a.tryAcquire('gmail')).toBe(true)
+	})
+
+	test('shares penalties between instances', async () => {
+		const a = limiter()
+		const b = limiter()
+
+		await a.penalize('120', 'api')
+		expect(await b.tryAcquire('api')).toBe(false)
+		expect(await b.getTimeUntilReady('api')).toBeGreaterThan(119_000)
+
+		const controller = new AbortController()
+		setTimeout(() => controller.abort(new Error('cancelled')), 20)
+		await expect(b.wait('api', { signal: controller.signal })).rejects.toThrow('cancelled')
+	})
+
+	test('worker processes never exceed the shared budget', async () => {
+		const workers = Array.from({ length: 3 }, () =>
+			spawnWorker([
+				`const limiter = new SharedRateLimiter({ statePath, lock, algorithm: tokenBucketAlgorithm({ capacity: 5, refillPerSecond: 0.001 }) })`,
+				`for (let i = 0; i < 5; i++) if (await limiter.tryAcquire()) console.log(1)`,
+			]),
+		)
+
+		const granted = (await Promise.all(workers.map(output))).flat()
+		expect(granted).toHaveLength(5)
+	}, 20_000)
+
+	test('worker processes waiting together respect the window', async () => {
+		const windowMs = 300
+		const workers = Array.from({ length: 3 }, () =>
+			spawnWorker([
+				`const limiter = new SharedRateLimiter({ statePath, lock, algorithm: slidingWindowAlgorithm({ limit: 2, windowMs: ${windowMs} }) })`,
+				`for (let i = 0; i < 2; i++) { await limiter.wait(); console.log(Date.now()) }`,
+			]),
+		)
+
+		const times = (await Promise.all(workers.map(output))).flat().sort((x, y) => x - y)
+		expect(times).toHaveLength(6)
+		for (let i = 2; i < times.length; i++) {
+			// Never more than 2 permits in any window (printing adds some slack)
+			expect((times[i] as number) - (times[i - 2] as number)).toBeGreaterThanOrEqual(windowMs - 50)
+		}
+	}, 20_000)
+
+	describe('stale state', () => {
+		test('starts over from a corrupt state file', async () => {
+			writeFileSync(statePath, '{ not json')
+
+			expect(await limiter().tryAcquire()).toBe(true)
+			expect(JSON.parse(readFileSync(statePath, 'utf8'))).toMatchObject({ version: 1 })
+		})
+
+		test('discards state written with different settings', async () => {
+			const small = limiter(1)
+			expect(await small.tryAcquire()).toBe(true)
+			expect(await small.tryAcquire()).toBe(false)
+
+			expect(await limiter(2).tryAcquire()).toBe(true)
+			expect(JSON.parse(readFileSync(statePath, 'utf8')).algorithm).toBe(
+				tokenBucketAlgorithm({ capacity: 2, refillPerSecond: 0.001 }).id,
+			)
+		})
+
+		test('prunes idle keys and resets keys touched in the future', async () => {
+			const now = Date.now()
+			const full = { state: { timestamps: [now - 100] }, blockedUntil: 0 }
+			writeFileSync(
+				statePath,
+				JSON.stringify({
+					version: 1,
+					algorithm: slidingWindowAlgorithm({ limit: 1, windowMs: 60_000 }).id,
+					keys: {
+						recent: { ...full, touchedAt: now - 100 },
+						idle: { ...full, touchedAt: now - 5000 },
+						penalized: { ...full, blockedUntil: now + 60_000, touchedAt: now - 5000 },
+						future: { ...full, touchedAt: now + 60_000 },
+					},
+				}),
+			)
+
+			const shared = new SharedRateLimiter({
+				statePath,
+				algorithm: slidingWindowAlgorithm({ limit: 1, windowMs: 60_000 }),
+				staleAfterMs: 1000,
+				lock: { lockDir: join(dir, 'locks') },
+			})
+			expect(await shared.tryAcquire('recent')).toBe(false)
+			expect(await shared.tryAcquire('penalized')).toBe(false)
+			expect(await shared.tryAcquire('idle')).toBe(true)
+			expect(await shared.tryAcquire('future')).toBe(true)
+		})
+	})
+})
@@ -0,0 +1,340 @@
+/**
+ * Rate limiting shared across processes through a state file.
+ *
+ * `SharedRateLimiter` keeps its per-key state in a small JSON file and
+ * updates it under `withFileLock`, so separate processes on one machine
+ * draw from the same budget. Any `RateLimitAlgorithm` works, e.g.
+ * `tokenBucketAlgorithm()` or `slidingWindowAlgorithm()`.
+ *
+ * ## Stale state
+ *
+ * - A missing, corrupt, or foreign state file starts over empty
+ * - State written under different algorithm settings is discarded
+ * - Keys untouched for `staleAfterMs` (and not penalized) are pruned
+ * - Keys last touched "in the future" (clock moved back) start over
+ * - Locks left by crashed processes are reclaimed by `withFileLock`
+ *
+ * @module core/concurrency/shared-rate-limiter
+ */
+
+import path from 'node:path'
+import {
+	ensureDir,
+	pathExists,
+	readTextFile,
+	writeJsonFileAtomic,
+} from '../fs/index.js'
+import {
+	type FileLockLogger,
+	type FileLockOptions,
+	withFileLock,
+} from './file-lock.js'
+import {
+	abortableSleep,
+	applyRateLimit,
+	parseRetryAfter,
+	type RateLimitAlgorithm,
+	type RateLimitEntry,
+	type RateLimitWaitOptions,
+} from './rate-limiter.js'
+
+/** Key used when none is given */
+const DEFAULT_KEY = 'default'
+
+/** State file format version */
+const STATE_VERSION = 1
+
+/** Default age after which an untouched key is pruned (1 hour) */
+const DEFAULT_STALE_AFTER_MS = 60 * 60 * 1000
+
+/**
+ * Options for `SharedRateLimiter`.
+ *
+ * @template S - Per-key algorithm state
+ */
+export interface SharedRateLimiterOptions<S> {
+	/** State file shared by every process using this budget */
+	statePath: string
+	/** Algorithm applied to each key (settings must match across processes) */
+	algorithm: RateLimitAlgorithm<S>
+	/**
+	 * Prune keys not touched for this long. Must exceed the time a key takes
+	 * to recover its full budget.
+	 * @default 3600000 (1 hour)
+	 */
+	staleAfterMs?: number
+	/**
+	 * Lock options for the state file.
+	 * @default { retryIntervalMs: 10 }
+	 */
+	lock?: FileLockOptions
+	/** Optional logger for debug output */
+	logger?: FileLockLogger
+}
+
+/**
+ * Stored state for one key.
+ */
+export interface SharedRateLimitEntry<S> extends RateLimitEntry<S> {
+	/** Epoch ms of the last update */
+	touchedAt: number
+}
+
+/**
+ * Contents of the state file.
+ */
+export interface SharedRateLimitFile<S> {
+	version: number
+	/** `RateLimitAlgorithm.id` the state was written with */
+	algorithm: string
+	keys: Record<string, SharedRateLimitEntry<S>>
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isEntry(value: unknown): value is SharedRateLimitEntry<unknown> {
+	return (
+		isRecord(value) &&
+		'state' in value &&
+		typeof value.blockedUntil === 'number' &&
+		typeof value.touchedAt === 'number'
+	)
+}
+
+/**
+ * Rate limiter whose per-key state is shared by every process using the
+ * same state file.
+ *
+ * Each call takes the file lock briefly to read, update, and atomically
+ * rewrite the state; waiting happens outside the lock.
+ *
+ * @template S - Per-key algorithm state
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   SharedRateLimiter,
+ *   tokenBucketAlgorithm,
+ * } from "@side-quest/core/concurrency";
+ *
+ * // Every plugin process shares 5 requests per second to the Gmail API
+ * const limiter = new SharedRateLimiter({
+ *   statePath: join(homedir(), ".cache/side-quest/gmail-rate.json"),
+ *   algorithm: tokenBucketAlgorithm({ capacity: 5, refillPerSecond: 5 }),
+ * });
+ *
+ * await limiter.wait(accountId, { signal });
+ * ```
+ */
+export class SharedRateLimiter<S> {
+	private readonly statePath: string
+	private readonly algorithm: RateLimitAlgorithm<S>
+	private readonly staleAfterMs: number
+	private readonly lockOptions: FileLockOptions
+	private readonly logger?: FileLockLogger
+
+	/**
+	 * @param options - State file, algorithm, and lock options
+	 */
+	constructor(options: SharedRateLimiterOptions<S>) {
+		this.statePath = path.resolve(options.statePath)
+		this.algorithm = options.algorithm
+		this.staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS
+		this.logger = options.logger
+		this.lockOptions = {
+			retryIntervalMs: 10,
+			logger: options.logger,
+			...options.lock,
+		}
+	}
+
+	/**
+	 * Take a permit if one is available now.
+	 *
+	 * @param key - Bucket key (default: shared bucket)
+	 * @returns True if acquired
+	 */
+	async tryAcquire(key = DEFAULT_KEY): Promise<boolean> {
+		return (await this.attempt(key)) === 0
+	}
+
+	/**
+	 * Wait until a permit is available, then take it.
+	 *
+	 * @param key - Bucket key (default: shared bucket)
+	 * @param options - Abort signal
+	 * @returns Promise that resolves once a permit is taken
+	 * @throws The signal's reason if aborted while waiting
+	 * @throws Error if the state file lock cannot be acquired
+	 */
+	async wait(
+		key = DEFAULT_KEY,
+		options: RateLimitWaitOptions = {},
+	): Promise<void> {
+		for (;;) {
+			options.signal?.throwIfAborted()
+			const waitMs = await this.attempt(key)
+			if (waitMs === 0) {
+				return
+			}
+			await abortableSleep(waitMs, options.signal)
+		}
+	}
+
+	/**
+	 * Milliseconds until a permit is available, without taking one.
+	 * Reads the state file without locking.
+	 *
+	 * @param key - Bucket key (default: shared bucket)
+	 * @returns Milliseconds until ready (0 if ready now)
+	 */
+	async getTimeUntilReady(key = DEFAULT_KEY): Promise<number> {
+		const now = Date.now()
+		const file = await this.load(now)
+		return applyRateLimit(
+			this.algorithm,
+			this.entryFor(file, key, now),
+			now,
+			false,
+		)
+	}
+
+	/**
+	 * Block a key for every process (e.g. after HTTP 429).
+	 * Overlapping penalties keep the later end.
+	 *
+	 * @param retryAfter - Delay in milliseconds, or a `Retry-After` header
+	 *   value (seconds or HTTP date); invalid header values are ignored
+	 * @param key - Bucket key (default: shared bucket)
+	 */
+	async penalize(
+		retryAfter: number | string,
+		key = DEFAULT_KEY,
+	): Promise<void> {
+		const delayMs =
+			typeof retryAfter === 'number' ? retryAfter : parseRetryAfter(retryAfter)
+		if (delayMs === undefined) {
+			return
+		}
+		await this.update((file, now) => {
+			const entry = this.entryFor(file, key, now)
+			entry.blockedUntil = Math.max(entry.blockedUntil, now + delayMs)
+			entry.touchedAt = now
+			file.keys[key] = entry
+			return true
+		})
+	}
+
+	/**
+	 * Forget one key's state, or every key's, for every process.
+	 *
+	 * @param key - Key to reset (default: all keys)
+	 */
+	async reset(key?: string): Promise<void> {
+		await this.update((file) => {
+			if (key === undefined) {
+				file.keys = {}
+			} else {
+				delete file.keys[key]
+			}
+			return true
+		})
+	}
+
+	/** Takes a permit if ready; returns the wait in ms */
+	private async attempt(key: string): Promise<number> {
+		let waitMs = 0
+		await this.update((file, now) => {
+			const entry = this.entryFor(file, key, now)
+			waitMs = applyRateLimit(this.algorithm, entry, now, true)
+			if (waitMs > 0) {
+				return false
+			}
+			entry.touchedAt = now
+			file.keys[key] = entry
+			return true
+		})
+		return waitMs
+	}
+
+	/** Locked read-modify-write; `mutate` returns whether to write */
+	private async update(
+		mutate: (file: SharedRateLimitFile<S>, now: number) => boolean,
+	): Promise<void> {
+		await withFileLock(
+			this.statePath,
+			async () => {
+				const now = Date.now()
+				const file = await this.load(now)
+				if (mutate(file, now)) {
+					await ensureDir(path.dirname(this.statePath))
+					await writeJsonFileAtomic(this.statePath, file, 0)
+				}
+			},
+			this.lockOptions,
+		)
+	}
+
+	/** Read the state file, discarding anything stale or invalid */
+	private async load(now: number): Promise<SharedRateLimitFile<S>> {
+		const file: SharedRateLimitFile<S> = {
+			version: STATE_VERSION,
+			algorithm: this.algorithm.id,
+			keys: {},
+		}
+		if (!(await pathExists(this.statePath))) {
+			return file
+		}
+
+		let raw: unknown
+		try {
+			raw = JSON.parse(await readTextFile(this.statePath))
+		} catch (error) {
+			this.logger?.debug?.('Discarding unreadable rate limit state', {
+				statePath: this.statePath,
+				error: error instanceof Error ? error.message : String(error),
+			})
+			return file
+		}
+		if (
+			!isRecord(raw) ||
+			raw.version !== STATE_VERSION ||
+			raw.algorithm !== this.algorithm.id ||
+			!isRecord(raw.keys)
+		) {
+			this.logger?.debug?.('Discarding incompatible rate limit state', {
+				statePath: this.statePath,
+				algorithm: isRecord(raw) ? raw.algorithm : undefined,
+			})
+			return file
+		}
+
+		for (const [key, entry] of Object.entries(raw.keys)) {
+			if (!isEntry(entry) || entry.touchedAt > now) {
+				continue
+			}
+			const stale =
+				now - entry.touchedAt > this.staleAfterMs && entry.blockedUntil <= now
+			if (!stale) {
+				file.keys[key] = entry as SharedRateLimitEntry<S>
+			}
+		}
+		return file
+	}
+
+	private entryFor(
+		file: SharedRateLimitFile<S>,
+		key: string,
+		now: number,
+	): SharedRateLimitEntry<S> {
+		return (
+			file.keys[key] ?? {
+				state: this.algorithm.initial(now),
+				blockedUntil: 0,
+				touchedAt: now,
+			}
+		)
+	}
+}
@@ -39,6 +39,23 @@ export class TimeoutError extends Error {
 	}
 }
 
+/**
+ * Start a timer that rejects with a TimeoutError, with a handle to cancel it.
+ */
+function startTimeout(
+	timeoutMs: number,
+	message?: string,
+): { promise: Promise<never>; cancel: () => void } {
+	let timer: ReturnType<typeof setTimeout> | undefined
+	const promise = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			const errorMessage = message ?? `Operation timed out after ${timeoutMs}ms`
+			reject(new TimeoutError(errorMessage, timeoutMs))
+		}, timeoutMs)
+	})
+	return { promise, cancel: () => clearTimeout(timer) }
+}
+
 /**
  * Create a promise that rejects after the specified timeout.
  *
@@ -61,12 +78,7 @@ export function createTimeoutPromise(
 	timeoutMs: number,
 	message?: string,
 ): Promise<never> {
-	return new Promise<never>((_, reject) => {
-		setTimeout(() => {
-			const errorMessage = message ?? `Operation timed out after ${timeoutMs}ms`
-			reject(new TimeoutError(errorMessage, timeoutMs))
-		}, timeoutMs)
-	})
+	return startTimeout(timeoutMs, message).promise
 }
 
 /**
@@ -76,6 +88,7 @@ export function createTimeoutPromise(
  * The operation continues running in the background after timeout
  * (JavaScript doesn't support true cancellation), but the promise
  * will reject immediately.
+ * The timer is cleared as soon as the operation settles.
  *
  * @template T - Return type of the operation
  * @param promise - Async operation to wrap
@@ -111,5 +124,11 @@ export async function withTimeout<T>(
 	timeoutMs: number,
 	message?: string,
 ): Promise<T> {
-	return Promise.race([promise, createTimeoutPromise(timeoutMs, message)])
+	const timeout = startTimeout(timeoutMs, message)
+	try {
+		return await Promise.race([promise, timeout.promise])
+	} finally {
+		// Don't keep the process alive once the operation settles
+		timeout.cancel()
+	}
 }
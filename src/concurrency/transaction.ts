@@ -10,10 +10,16 @@
  * - **Automatic rollback** in reverse order on failure
  * - **State capture** for rollback operations
  * - **Resilient rollback** - continues even if individual rollbacks fail
+ * - **Optional journal** - survives crashes via `recoverTransactions()`
  *
  * @module core/concurrency/transaction
  */
 
+import {
+	TransactionJournal,
+	type TransactionJournalOptions,
+} from './journal.js'
+
 /**
  * Rollback operation definition.
  *
@@ -27,14 +33,44 @@ export interface RollbackOperation {
 	/**
 	 * Execute the operation.
 	 * May return state needed for rollback (e.g., created file path).
+	 * Receives the result of `prepare()`, if any.
+	 */
+	readonly execute: (prepared?: unknown) => Promise<unknown>
+
+	/**
+	 * Capture rollback state before `execute()` runs. In journaled
+	 * transactions it is recorded when the step starts, so recovery can
+	 * undo a step the process died in.
 	 */
-	readonly execute: () => Promise<unknown>
+	readonly prepare?: () => Promise<unknown>
 
 	/**
 	 * Rollback the operation.
 	 * Receives the result from execute() for state-based cleanup.
 	 */
 	readonly rollback: (result?: unknown) => Promise<void>
+
+	/**
+	 * Registered operation type, required in journaled transactions
+	 * (see `journaledOperation`)
+	 */
+	readonly type?: string
+
+	/** JSON-serializable input recorded in the journal */
+	readonly input?: unknown
+}
+
+/**
+ * Transaction configuration.
+ */
+export interface TransactionOptions {
+	/** Optional logger */
+	logger?: TransactionLogger
+	/**
+	 * Record steps in an on-disk journal so `recoverTransactions()` can
+	 * roll back or resume after a crash. Every operation needs a `type`.
+	 */
+	journal?: TransactionJournalOptions
 }
 
 /**
@@ -95,20 +131,27 @@ export interface TransactionLogger {
  * if (!result.success) {
  *   console.error(`Transaction failed at ${result.failedAt}: ${result.error}`);
  * }
+ *
+ * // Crash-safe: steps from registered types, journaled to disk
+ * const durable = new Transaction({ journal: { dir: journalDir } });
+ * durable.add(journaledOperation("vault.write", { path, content }));
+ * await durable.execute();
  * ```
  */
 export class Transaction {
 	private operations: RollbackOperation[] = []
 	private completed: Array<{ op: RollbackOperation; result: unknown }> = []
 	private logger?: TransactionLogger
+	private journalOptions?: TransactionJournalOptions
 
 	/**
 	 * Create a new transaction.
 	 *
 	 * @param options - Optional configuration
 	 */
-	constructor(options?: { logger?: TransactionLogger }) {
+	constructor(options?: TransactionOptions) {
 		this.logger = options?.logger
+		this.journalOptions = options?.journal
 	}
 
 	/**
@@ -129,8 +172,13 @@ export class Transaction {
 	 * On failure, automatically rolls back all completed operations
 	 * in reverse order, then returns the error.
 	 *
+	 * With a journal, the journal is written before the first operation and
+	 * removed once the transaction succeeds or is fully rolled back.
+	 *
 	 * @template T - Type of the final operation result
 	 * @returns Transaction result with success flag and data/error
+	 * @throws Error if journaling is enabled and an operation has no `type`,
+	 *   or the journal cannot be created (before any operation runs)
 	 */
 	async execute<T = void>(): Promise<TransactionResult<T>> {
 		this.logger?.debug?.('Transaction starting', {
@@ -138,13 +186,20 @@ export class Transaction {
 			operationNames: this.operations.map((op) => op.name),
 		})
 
+		const journal = this.journalOptions
+			? await TransactionJournal.create(this.journalOptions, this.operations)
+			: undefined
+
 		try {
 			let lastResult: unknown
 
-			for (const op of this.operations) {
+			for (const [index, op] of this.operations.entries()) {
 				this.logger?.debug?.('Executing operation', { name: op.name })
-				const result = await op.execute()
+				const prepared = await op.prepare?.()
+				await journal?.markStarted(index, prepared)
+				const result = await op.execute(prepared)
 				this.completed.push({ op, result })
+				await journal?.markCompleted(index, result)
 				lastResult = result
 			}
 
@@ -152,6 +207,7 @@ export class Transaction {
 				completedCount: this.completed.length,
 			})
 
+			await journal?.remove()
 			return { success: true, data: lastResult as T }
 		} catch (error) {
 			const failedOp = this.operations[this.completed.length]
@@ -162,7 +218,8 @@ export class Transaction {
 				error: error instanceof Error ? error.message : String(error),
 			})
 
-			await this.rollback()
+			await journal?.markFailed(this.completed.length).catch(() => undefined)
+			await this.rollback(journal)
 
 			return {
 				success: false,
@@ -176,15 +233,27 @@ export class Transaction {
 	 * Rollback all completed operations in reverse order.
 	 *
 	 * Called automatically on execute() failure.
-	 * Continues rolling back even if individual rollbacks fail.
+	 * Continues rolling back even if individual rollbacks fail; the journal
+	 * is then kept so `recoverTransactions()` can retry them.
 	 */
-	private async rollback(): Promise<void> {
+	private async rollback(journal?: TransactionJournal): Promise<void> {
+		let failed = false
+		try {
+			await journal?.markRollingBack()
+		} catch {
+			// Journal is best effort during rollback; recovery sees "running"
+		}
+
 		// Rollback in reverse order
-		for (const { op, result } of this.completed.reverse()) {
+		for (const [index, { op, result }] of [
+			...this.completed.entries(),
+		].reverse()) {
 			try {
 				this.logger?.debug?.('Rolling back operation', { name: op.name })
 				await op.rollback(result)
+				await journal?.markRolledBack(index)
 			} catch (rollbackError) {
+				failed = true
 				// Log but continue - we want to rollback as much as possible
 				this.logger?.error?.('Rollback failed for operation', {
 					name: op.name,
@@ -196,6 +265,9 @@ export class Transaction {
 			}
 		}
 		this.completed = []
+		if (!failed) {
+			await journal?.remove()
+		}
 	}
 
 	/**
@@ -255,7 +327,7 @@ export class Transaction {
  */
 export async function executeTransaction<T = void>(
 	operations: readonly RollbackOperation[],
-	options?: { logger?: TransactionLogger },
+	options?: TransactionOptions,
 ): Promise<TransactionResult<T>> {
 	const tx = new Transaction(options)
 	for (const op of operations) {
@@ -211,4 +211,30 @@ describe('walkDirectory', () => {
 		// Assert
 		expect(visited).toEqual([path.join('src', 'index.ts')])
 	})
+
+	test('stops walking when the signal aborts', () => {
+		// Arrange
+		ensureDirSync(path.join(tempDir, 'nested'))
+		writeTextFileSync(path.join(tempDir, 'a.txt'), 'a')
+		writeTextFileSync(path.join(tempDir, 'b.txt'), 'b')
+		writeTextFileSync(path.join(tempDir, 'nested', 'c.txt'), 'c')
+
+		const controller = new AbortController()
+		const visited: string[] = []
+
+		// Act
+		const walk = () =>
+			walkDirectory(
+				tempDir,
+				(_fullPath, relativePath) => {
+					visited.push(relativePath)
+					controller.abort(new Error('cancelled'))
+				},
+				{ signal: controller.signal },
+			)
+
+		// Assert
+		expect(walk).toThrow('cancelled')
+		expect(visited).toHaveLength(1)
+	})
 })
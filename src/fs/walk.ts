@@ -25,6 +25,12 @@ export interface WalkDirectoryOptions {
 	 * Defaults to true.
 	 */
 	readonly skipHidden?: boolean
+
+	/**
+	 * Stop walking when aborted.
+	 * Checked before each entry; the walk throws the signal's reason.
+	 */
+	readonly signal?: AbortSignal
 }
 
 /**
@@ -48,10 +54,11 @@ export type FileVisitor = (
  * - Skipping hidden files/directories (configurable)
  * - Skipping specified directories (e.g., node_modules)
  * - Error handling for unreadable directories
+ * - Cancellation via `signal` (throws the signal's reason)
  *
  * @param rootDir - Absolute path to the root directory to walk
  * @param onFile - Callback function called for each file found
- * @param options - Walk options (skipDirs, skipHidden)
+ * @param options - Walk options (skipDirs, skipHidden, signal)
  *
  * @example
  * ```typescript
@@ -78,12 +85,14 @@ export function walkDirectory(
 	onFile: FileVisitor,
 	options: WalkDirectoryOptions = {},
 ): void {
-	const { skipDirs = [], skipHidden = true } = options
+	const { skipDirs = [], skipHidden = true, signal } = options
 	const skipDirSet = new Set(skipDirs)
 
 	function walk(currentDir: string): void {
 		try {
 			for (const entry of readDir(currentDir)) {
+				signal?.throwIfAborted()
+
 				// Skip hidden files/folders if configured
 				if (skipHidden && entry.startsWith('.')) continue
 
@@ -98,10 +107,12 @@ export function walkDirectory(
 					onFile(fullPath, relativePath, entry)
 				}
 			}
-		} catch {
+		} catch (error) {
+			if (signal?.aborted) throw error
 			// Skip directories we can't read (permission issues, etc.)
 		}
 	}
 
+	signal?.throwIfAborted()
 	walk(rootDir)
 }
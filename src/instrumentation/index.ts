@@ -6,7 +6,9 @@
  * - **observeWithContext/observeSyncWithContext**: Full W3C Trace Context support
  * - **context utilities**: AsyncLocalStorage-based correlation ID propagation
  * - **error categorization**: Classify errors for retry logic and alerting
- * - **metrics**: In-memory counters and histograms with SLO-aligned buckets
+ * - **metrics**: In-memory counters, gauges, histograms, and streaming summaries
+ * - **openmetrics**: OpenMetrics/Prometheus text exposition and `/metrics` endpoint
+ * - **tracing**: OpenTelemetry-compatible spans with OTLP/JSON and in-memory exporters
  *
  * ## Quick Start
  *
@@ -65,16 +67,30 @@ export {
 // Metrics
 export {
 	type CounterData,
+	configureHistogram,
+	configureSummary,
+	decrementGauge,
+	type GaugeData,
 	getCounters,
+	getGauges,
 	getHistogramBuckets,
 	getHistograms,
 	getLatencyBucket,
+	getSummaries,
 	type HistogramData,
 	type HistogramObservation,
+	type HistogramOptions,
 	incrementCounter,
+	incrementGauge,
 	type MetricLabels,
 	observeHistogram,
+	observeSummary,
+	registerGaugeCallback,
 	resetMetrics,
+	type SummaryData,
+	type SummaryOptions,
+	type SummaryQuantile,
+	setGauge,
 } from './metrics.js'
 // Simple observe API (callbacks)
 // Context-aware observe API (W3C Trace Context)
@@ -88,6 +104,14 @@ export {
 	observeSyncWithContext,
 	observeWithContext,
 } from './observe.js'
+// OpenMetrics exposition
+export {
+	escapeLabelValue,
+	type MetricsServerOptions,
+	OPENMETRICS_CONTENT_TYPE,
+	serializeOpenMetrics,
+	serveMetrics,
+} from './openmetrics.js'
 // Resource metrics (memory, heap, RSS)
 export {
 	type CaptureResourceMetricsOptions,
@@ -97,5 +121,28 @@ export {
 	type ResourceMetrics,
 	type ResourceMetricsLogger,
 } from './resource-metrics.js'
+// Span recording and OTLP export
+export {
+	addSpanEvent,
+	InMemorySpanExporter,
+	isTracingEnabled,
+	OtlpFileSpanExporter,
+	type OtlpFileSpanExporterOptions,
+	type OtlpKeyValue,
+	type OtlpSpan,
+	type OtlpTraceRequest,
+	registerSpanExporter,
+	type Span,
+	type SpanAttributes,
+	type SpanAttributeValue,
+	type SpanEvent,
+	type SpanExporter,
+	type SpanStatus,
+	setSpanAttributes,
+	shutdownSpanExporters,
+	toOtlpJson,
+	toSpanId,
+	toTraceId,
+} from './tracing.js'
 // Typed error base class
 export { PluginError } from './typed-error.js'
@@ -1,12 +1,21 @@
 import { beforeEach, describe, expect, test } from 'bun:test'
 import {
+	configureHistogram,
+	configureSummary,
+	decrementGauge,
 	getCounters,
+	getGauges,
 	getHistogramBuckets,
 	getHistograms,
 	getLatencyBucket,
+	getSummaries,
 	incrementCounter,
+	incrementGauge,
 	observeHistogram,
+	observeSummary,
+	registerGaugeCallback,
 	resetMetrics,
+	setGauge,
 } from './metrics.js'
 
 describe('metrics', () => {
@@ -118,6 +127,136 @@ describe('metrics', () => {
 		})
 	})
 
+	describe('configureHistogram', () => {
+		test('uses custom bucket boundaries for new series', () => {
+			configureHistogram('duration_ms', { buckets: [500, 100, 10, 100] })
+			observeHistogram('duration_ms', 5, { tool: 'a' })
+			observeHistogram('duration_ms', 50, { tool: 'a' })
+			observeHistogram('duration_ms', 5000, { tool: 'a' })
+
+			const result = getHistogramBuckets('duration_ms', { tool: 'a' })
+			expect(result.boundaries).toEqual([10, 100, 500])
+			expect(result.buckets).toEqual([1, 2, 2])
+		})
+
+		test('re-buckets existing series', () => {
+			observeHistogram('duration_ms', 2, { tool: 'a' })
+			observeHistogram('duration_ms', 20, { tool: 'a' })
+
+			configureHistogram('duration_ms', { buckets: [3, 30] })
+
+			expect(getHistograms()[0]?.boundaries).toEqual([3, 30])
+			expect(getHistogramBuckets('duration_ms', { tool: 'a' }).buckets).toEqual([1, 2])
+		})
+
+		test('leaves other histograms on default buckets', () => {
+			configureHistogram('duration_ms', { buckets: [10] })
+			expect(getHistogramBuckets('other', {}).boundaries).toEqual([1, 5, 10, 30, 60])
+		})
+	})
+
+	describe('gauges', () => {
+		test('sets, increments and decrements gauges', () => {
+			setGauge('queue_depth', 5, { queue: 'inbox' })
+			incrementGauge('queue_depth', { queue: 'inbox' }, 3)
+			decrementGauge('queue_depth', { queue: 'inbox' })
+
+			expect(getGauges()).toEqual([{ name: 'queue_depth', labels: { queue: 'inbox' }, value: 7 }])
+		})
+
+		test('creates gauge at zero when incrementing or decrementing', () => {
+			incrementGauge('in_flight', { tool: 'a' })
+			decrementGauge('in_flight', { tool: 'b' })
+
+			const values = getGauges().map((g) => g.value)
+			expect(values).toEqual([1, -1])
+		})
+
+		test('evaluates callback gauges when read', () => {
+			let size = 1
+			const unregister = registerGaugeCallback('pool_size', { pool: 'db' }, () => size)
+
+			expect(getGauges()[0]?.value).toBe(1)
+			size = 4
+			expect(getGauges()[0]?.value).toBe(4)
+
+			unregister()
+			expect(getGauges()).toHaveLength(0)
+		})
+
+		test('skips callback gauges that throw', () => {
+			registerGaugeCallback('broken', {}, () => {
+				throw new Error('boom')
+			})
+			setGauge('ok', 1, {})
+
+			expect(getGauges().map((g) => g.name)).toEqual(['ok'])
+		})
+
+		test('stale unregister does not remove a newer callback', () => {
+			const unregisterOld = registerGaugeCallback('pool_size', {}, () => 1)
+			registerGaugeCallback('pool_size', {}, () => 2)
+
+			unregisterOld()
+			expect(getGauges()[0]?.value).toBe(2)
+		})
+	})
+
+	describe('summaries', () => {
+		test('tracks count, sum and default quantiles', () => {
+			for (let i = 1; i <= 1000; i++) {
+				observeSummary('duration_ms', i, { op: 'scan' })
+			}
+
+			const [summary] = getSummaries()
+			expect(summary?.count).toBe(1000)
+			expect(summary?.sum).toBe(500500)
+			expect(summary?.quantiles.map((q) => q.quantile)).toEqual([0.5, 0.95, 0.99])
+
+			const [p50, p95, p99] = summary?.quantiles.map((q) => q.value) ?? []
+			expect(p50).toBeGreaterThan(480)
+			expect(p50).toBeLessThan(520)
+			expect(p95).toBeGreaterThan(930)
+			expect(p95).toBeLessThan(970)
+			expect(p99).toBeGreaterThan(975)
+			expect(p99).toBeLessThanOrEqual(1000)
+		})
+
+		test('estimates quantiles of shuffled input', () => {
+			const values = Array.from({ length: 5000 }, (_, i) => (i * 7919) % 5000)
+			for (const value of values) {
+				observeSummary('shuffled', value, {})
+			}
+
+			const p50 = getSummaries()[0]?.quantiles[0]?.value ?? 0
+			expect(Math.abs(p50 - 2500)).toBeLessThan(150)
+		})
+
+		test('uses exact values for fewer than five observations', () => {
+			observeSummary('small', 30, {})
+			observeSummary('small', 10, {})
+			observeSummary('small', 20, {})
+
+			expect(getSummaries()[0]?.quantiles.map((q) => q.value)).toEqual([20, 30, 30])
+		})
+
+		test('reports configured quantile for a single observation', () => {
+			configureSummary('custom', { quantiles: [0.9] })
+			observeSummary('custom', 1, {})
+
+			expect(getSummaries()[0]?.quantiles).toEqual([{ quantile: 0.9, value: 1 }])
+		})
+
+		test('supports configured quantiles', () => {
+			configureSummary('custom', { quantiles: [0.25, 0.75, 2] })
+			for (let i = 1; i <= 100; i++) {
+				observeSummary('custom', i, {})
+			}
+
+			expect(getSummaries()[0]?.quantiles.map((q) => q.quantile)).toEqual([0.25, 0.75])
+		})
+	})
+
 	describe('resetMetrics', () => {
 		test('clears all counters and histograms', () => {
 			incrementCounter('test', { label: 'value' })
@@ -131,6 +270,19 @@ describe('metrics', () => {
 			expect(getCounters()).toHaveLength(0)
 			expect(getHistograms()).toHaveLength(0)
 		})
+
+		test('clears gauges, summaries and configuration', () => {
+			configureHistogram('test', { buckets: [1] })
+			setGauge('gauge', 1, {})
+			registerGaugeCallback('callback', {}, () => 1)
+			observeSummary('summary', 1, {})
+
+			resetMetrics()
+
+			expect(getGauges()).toHaveLength(0)
+			expect(getSummaries()).toHaveLength(0)
+			expect(getHistogramBuckets('test', {}).boundaries).toEqual([1, 5, 10, 30, 60])
+		})
 	})
 
 	describe('histogram memory management', () => {
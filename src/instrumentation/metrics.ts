@@ -1,9 +1,11 @@
 /**
- * Metrics collection utilities for counters and histograms.
+ * Metrics collection utilities for counters, gauges, histograms, and summaries.
  *
  * Provides in-memory metric storage with:
  * - **Counters**: Track event counts with labels
- * - **Histograms**: Track value distributions with SLO-aligned buckets
+ * - **Gauges**: Track values that go up and down (set/inc/dec or callbacks)
+ * - **Histograms**: Track value distributions with SLO-aligned or custom buckets
+ * - **Summaries**: Streaming quantiles (p50/p95/p99) in constant memory
  * - **Memory Management**: FIFO cleanup, TTL-based expiration
  * - **Performance**: O(1) bucket updates, efficient queries
  *
@@ -40,6 +42,46 @@ export interface HistogramData {
 	observations: HistogramObservation[]
 	/** Incremental bucket counts for O(1) bucket queries */
 	buckets: number[]
+	/**
+	 * Upper bounds of the buckets, ascending. Always set on histograms
+	 * returned by `getHistograms()`; when omitted, the SLO buckets or those
+	 * set with `configureHistogram()` apply.
+	 */
+	boundaries?: readonly number[]
+}
+
+export interface HistogramOptions {
+	/** Bucket upper bounds (sorted ascending, duplicates removed) */
+	buckets: readonly number[]
+}
+
+export interface GaugeData {
+	name: string
+	labels: MetricLabels
+	value: number
+}
+
+export interface SummaryOptions {
+	/** Quantiles to estimate, between 0 and 1 (default: [0.5, 0.95, 0.99]) */
+	quantiles: readonly number[]
+}
+
+export interface SummaryQuantile {
+	/** Quantile between 0 and 1 */
+	quantile: number
+	/** Estimated value (NaN when there are no observations) */
+	value: number
+}
+
+export interface SummaryData {
+	name: string
+	labels: MetricLabels
+	/** Number of observations */
+	count: number
+	/** Sum of all observed values */
+	sum: number
+	/** Estimated quantiles, in configured order */
+	quantiles: SummaryQuantile[]
 }
 
 /** Maximum number of observations to retain per histogram (FIFO cleanup) */
@@ -51,8 +93,41 @@ const HISTOGRAM_TTL_MS = 24 * 60 * 60 * 1000
 /** In-memory counter storage */
 const counters = new Map<string, CounterData>()
 
+/** Stored histogram, whose boundaries are always resolved */
+type StoredHistogram = HistogramData & { boundaries: readonly number[] }
+
 /** In-memory histogram storage */
-const histograms = new Map<string, HistogramData>()
+const histograms = new Map<string, StoredHistogram>()
+
+/** Custom bucket boundaries keyed by histogram name */
+const histogramBoundaries = new Map<string, readonly number[]>()
+
+/** In-memory gauge storage */
+const gauges = new Map<string, GaugeData>()
+
+/** Callback gauges, evaluated when gauges are read */
+const gaugeCallbacks = new Map<
+	string,
+	{ name: string; labels: MetricLabels; callback: () => number }
+>()
+
+/** Default quantiles for summaries */
+const DEFAULT_SUMMARY_QUANTILES = [0.5, 0.95, 0.99] as const
+
+/** Custom quantiles keyed by summary name */
+const summaryQuantiles = new Map<string, readonly number[]>()
+
+/** In-memory summary storage */
+const summaries = new Map<
+	string,
+	{
+		name: string
+		labels: MetricLabels
+		count: number
+		sum: number
+		estimators: P2Quantile[]
+	}
+>()
 
 /**
  * Generate a stable key for metric lookup based on name and labels.
@@ -100,7 +175,7 @@ export function incrementCounter(
  *
  * @param histogram - Histogram data to cleanup
  */
-function cleanupHistogramObservations(histogram: HistogramData): void {
+function cleanupHistogramObservations(histogram: StoredHistogram): void {
 	const now = Date.now()
 	const cutoffTime = now - HISTOGRAM_TTL_MS
 
@@ -125,11 +200,11 @@ function cleanupHistogramObservations(histogram: HistogramData): void {
  *
  * @param histogram - Histogram data to recalculate
  */
-function recalculateBuckets(histogram: HistogramData): void {
-	histogram.buckets = new Array(SLO_HISTOGRAM_BUCKETS.length).fill(0)
+function recalculateBuckets(histogram: StoredHistogram): void {
+	histogram.buckets = new Array(histogram.boundaries.length).fill(0)
 
 	for (const obs of histogram.observations) {
-		updateBucketsForValue(histogram.buckets, obs.value)
+		updateBucketsForValue(histogram.buckets, histogram.boundaries, obs.value)
 	}
 }
 
@@ -138,15 +213,20 @@ function recalculateBuckets(histogram: HistogramData): void {
  * This maintains cumulative bucket counts efficiently.
  *
  * @param buckets - Bucket array to update
+ * @param boundaries - Bucket upper bounds, ascending
  * @param value - Value to add to buckets
  */
-function updateBucketsForValue(buckets: number[], value: number): void {
+function updateBucketsForValue(
+	buckets: number[],
+	boundaries: readonly number[],
+	value: number,
+): void {
 	// Find the first bucket this value fits into
-	for (let i = 0; i < SLO_HISTOGRAM_BUCKETS.length; i++) {
-		const boundary = SLO_HISTOGRAM_BUCKETS[i]
+	for (let i = 0; i < boundaries.length; i++) {
+		const boundary = boundaries[i]
 		if (boundary !== undefined && value <= boundary) {
 			// Increment this bucket and all subsequent buckets (cumulative)
-			for (let j = i; j < SLO_HISTOGRAM_BUCKETS.length; j++) {
+			for (let j = i; j < boundaries.length; j++) {
 				buckets[j] = (buckets[j] ?? 0) + 1
 			}
 			break
@@ -154,9 +234,50 @@ function updateBucketsForValue(buckets: number[], value: number): void {
 	}
 }
 
+/**
+ * Configure bucket boundaries for a histogram.
+ *
+ * Applies to every series with this name. Existing series are re-bucketed
+ * from their retained observations. Histograms without configuration use
+ * the SLO-aligned buckets (1, 5, 10, 30, 60).
+ *
+ * @param name - Histogram metric name
+ * @param options - Bucket upper bounds
+ *
+ * @example
+ * ```typescript
+ * configureHistogram("tool_duration_ms", { buckets: [10, 50, 100, 250, 500, 1000] });
+ * observeHistogram("tool_duration_ms", 42, { tool: "search" });
+ * ```
+ */
+export function configureHistogram(
+	name: string,
+	options: HistogramOptions,
+): void {
+	const boundaries = [...new Set(options.buckets)]
+		.filter((b) => Number.isFinite(b))
+		.sort((a, b) => a - b)
+	histogramBoundaries.set(name, boundaries)
+
+	for (const histogram of histograms.values()) {
+		if (histogram.name === name) {
+			histogram.boundaries = boundaries
+			recalculateBuckets(histogram)
+		}
+	}
+}
+
+/**
+ * Get the bucket boundaries for a histogram name.
+ */
+function getBoundaries(name: string): readonly number[] {
+	return histogramBoundaries.get(name) ?? SLO_HISTOGRAM_BUCKETS
+}
+
 /**
  * Observe a value in a histogram metric.
- * Histograms track distributions of values using SLO-aligned buckets.
+ * Histograms track distributions of values using SLO-aligned buckets,
+ * or the buckets set with `configureHistogram()`.
  *
  * This implementation includes:
  * - FIFO cleanup: Keeps max 1000 recent observations per metric
@@ -188,7 +309,7 @@ export function observeHistogram(
 	if (existing) {
 		existing.observations.push(observation)
 		// Incremental bucket update (O(1) instead of O(n))
-		updateBucketsForValue(existing.buckets, value)
+		updateBucketsForValue(existing.buckets, existing.boundaries, value)
 
 		// Cleanup if needed (TTL or max size exceeded)
 		const needsCleanup =
@@ -200,14 +321,16 @@ export function observeHistogram(
 			cleanupHistogramObservations(existing)
 		}
 	} else {
-		const buckets = new Array(SLO_HISTOGRAM_BUCKETS.length).fill(0)
-		updateBucketsForValue(buckets, value)
+		const boundaries = getBoundaries(name)
+		const buckets = new Array(boundaries.length).fill(0)
+		updateBucketsForValue(buckets, boundaries, value)
 
 		histograms.set(key, {
 			name,
 			labels,
 			observations: [observation],
 			buckets,
+			boundaries,
 		})
 	}
 }
@@ -248,22 +371,351 @@ export function getHistogramBuckets(
 	const histogram = histograms.get(key)
 
 	if (!histogram) {
+		const boundaries = getBoundaries(name)
 		return {
-			buckets: new Array(SLO_HISTOGRAM_BUCKETS.length).fill(0),
-			boundaries: SLO_HISTOGRAM_BUCKETS,
+			buckets: new Array(boundaries.length).fill(0),
+			boundaries,
 		}
 	}
 
 	// Return pre-calculated buckets (O(1) instead of O(n²))
-	return { buckets: [...histogram.buckets], boundaries: SLO_HISTOGRAM_BUCKETS }
+	return { buckets: [...histogram.buckets], boundaries: histogram.boundaries }
+}
+
+// ============================================================================
+// Gauges
+// ============================================================================
+
+/**
+ * Set a gauge metric to a value.
+ *
+ * @param name - Metric name (e.g., "queue_depth")
+ * @param value - Current value
+ * @param labels - Labels to attach to the metric
+ *
+ * @example
+ * ```typescript
+ * setGauge("queue_depth", queue.length, { queue: "inbox" });
+ * ```
+ */
+export function setGauge(
+	name: string,
+	value: number,
+	labels: MetricLabels,
+): void {
+	const key = getMetricKey(name, labels)
+	const existing = gauges.get(key)
+
+	if (existing) {
+		existing.value = value
+	} else {
+		gauges.set(key, { name, labels, value })
+	}
+}
+
+/**
+ * Increment a gauge metric (created at 0 if missing).
+ *
+ * @param name - Metric name (e.g., "requests_in_flight")
+ * @param labels - Labels to attach to the metric
+ * @param value - Value to add (default: 1)
+ *
+ * @example
+ * ```typescript
+ * incrementGauge("requests_in_flight", { tool: "search" });
+ * ```
+ */
+export function incrementGauge(
+	name: string,
+	labels: MetricLabels,
+	value = 1,
+): void {
+	const key = getMetricKey(name, labels)
+	const existing = gauges.get(key)
+
+	if (existing) {
+		existing.value += value
+	} else {
+		gauges.set(key, { name, labels, value })
+	}
+}
+
+/**
+ * Decrement a gauge metric (created at 0 if missing).
+ *
+ * @param name - Metric name (e.g., "requests_in_flight")
+ * @param labels - Labels to attach to the metric
+ * @param value - Value to subtract (default: 1)
+ *
+ * @example
+ * ```typescript
+ * decrementGauge("requests_in_flight", { tool: "search" });
+ * ```
+ */
+export function decrementGauge(
+	name: string,
+	labels: MetricLabels,
+	value = 1,
+): void {
+	incrementGauge(name, labels, -value)
+}
+
+/**
+ * Register a gauge whose value is read from a callback when gauges are
+ * collected. Replaces any callback registered for the same name and labels.
+ *
+ * @param name - Metric name (e.g., "pool_size")
+ * @param labels - Labels to attach to the metric
+ * @param callback - Returns the current value
+ * @returns Function that unregisters the callback
+ *
+ * @example
+ * ```typescript
+ * const unregister = registerGaugeCallback("pool_size", { pool: "db" }, () => pool.size);
+ * // Later, when the pool is disposed:
+ * unregister();
+ * ```
+ */
+export function registerGaugeCallback(
+	name: string,
+	labels: MetricLabels,
+	callback: () => number,
+): () => void {
+	const key = getMetricKey(name, labels)
+	const entry = { name, labels, callback }
+	gaugeCallbacks.set(key, entry)
+
+	return () => {
+		// Only remove if not replaced by a newer registration
+		if (gaugeCallbacks.get(key) === entry) {
+			gaugeCallbacks.delete(key)
+		}
+	}
+}
+
+/**
+ * Get all gauge metrics, evaluating callback gauges.
+ *
+ * Callback gauges override set gauges with the same name and labels.
+ * Callbacks that throw are skipped.
+ *
+ * @returns Array of gauge data
+ */
+export function getGauges(): GaugeData[] {
+	const result = new Map<string, GaugeData>()
+	for (const [key, gauge] of gauges) {
+		result.set(key, { ...gauge })
+	}
+	for (const [key, { name, labels, callback }] of gaugeCallbacks) {
+		try {
+			result.set(key, { name, labels, value: callback() })
+		} catch {
+			// Skip gauges whose callback fails
+		}
+	}
+	return Array.from(result.values())
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * Streaming quantile estimator using the P² algorithm (Jain & Chlamtac, 1985).
+ *
+ * Tracks five markers per quantile, so memory stays constant regardless of
+ * how many values are observed.
+ */
+class P2Quantile {
+	readonly quantile: number
+	private readonly heights: number[] = []
+	private readonly positions = [1, 2, 3, 4, 5]
+	private readonly desired: number[]
+	private readonly increments: number[]
+	private count = 0
+
+	constructor(p: number) {
+		this.quantile = p
+		this.desired = [1, 1 + 2 * p, 1 + 4 * p, 3 + 2 * p, 5]
+		this.increments = [0, p / 2, p, (1 + p) / 2, 1]
+	}
+
+	add(x: number): void {
+		this.count++
+		const q = this.heights
+		const n = this.positions
+
+		// Collect the first five values exactly
+		if (this.count <= 5) {
+			q.push(x)
+			q.sort((a, b) => a - b)
+			return
+		}
+
+		// Find the cell containing x, extending the extremes if needed
+		let k: number
+		if (x < q[0]!) {
+			q[0] = x
+			k = 0
+		} else if (x >= q[4]!) {
+			q[4] = x
+			k = 3
+		} else {
+			k = 0
+			while (k < 3 && x >= q[k + 1]!) {
+				k++
+			}
+		}
+
+		for (let i = k + 1; i < 5; i++) {
+			n[i]!++
+		}
+		for (let i = 0; i < 5; i++) {
+			this.desired[i]! += this.increments[i]!
+		}
+
+		// Adjust the middle markers toward their desired positions
+		for (let i = 1; i <= 3; i++) {
+			const d = this.desired[i]! - n[i]!
+			if (
+				(d >= 1 && n[i + 1]! - n[i]! > 1) ||
+				(d <= -1 && n[i - 1]! - n[i]! < -1)
+			) {
+				const sign = d > 0 ? 1 : -1
+				const parabolic = this.parabolic(i, sign)
+				q[i] =
+					q[i - 1]! < parabolic && parabolic < q[i + 1]!
+						? parabolic
+						: this.linear(i, sign)
+				n[i]! += sign
+			}
+		}
+	}
+
+	private parabolic(i: number, d: number): number {
+		const q = this.heights
+		const n = this.positions
+		return (
+			q[i]! +
+			(d / (n[i + 1]! - n[i - 1]!)) *
+				((n[i]! - n[i - 1]! + d) * ((q[i + 1]! - q[i]!) / (n[i + 1]! - n[i]!)) +
+					(n[i + 1]! - n[i]! - d) * ((q[i]! - q[i - 1]!) / (n[i]! - n[i - 1]!)))
+		)
+	}
+
+	private linear(i: number, d: number): number {
+		const q = this.heights
+		const n = this.positions
+		return q[i]! + (d * (q[i + d]! - q[i]!)) / (n[i + d]! - n[i]!)
+	}
+
+	value(): number {
+		if (this.count === 0) {
+			return Number.NaN
+		}
+		if (this.count <= 5) {
+			// Nearest-rank on the exact values
+			const rank = Math.ceil(this.quantile * this.heights.length)
+			return this.heights[Math.max(0, rank - 1)]!
+		}
+		return this.heights[2]!
+	}
+}
+
+/**
+ * Configure the quantiles estimated for a summary.
+ *
+ * Affects series created after this call; existing series keep their
+ * quantiles until `resetMetrics()`.
+ *
+ * @param name - Summary metric name
+ * @param options - Quantiles between 0 and 1
+ *
+ * @example
+ * ```typescript
+ * configureSummary("chunk_duration_ms", { quantiles: [0.5, 0.9, 0.99] });
+ * ```
+ */
+export function configureSummary(name: string, options: SummaryOptions): void {
+	summaryQuantiles.set(
+		name,
+		options.quantiles.filter((q) => q >= 0 && q <= 1),
+	)
+}
+
+/**
+ * Observe a value in a summary metric.
+ *
+ * Summaries estimate quantiles (default p50/p95/p99) over every value
+ * observed since the last reset, without retaining the values.
+ *
+ * @param name - Metric name (e.g., "chunk_duration_ms")
+ * @param value - Value to observe
+ * @param labels - Labels to attach to the metric
+ *
+ * @example
+ * ```typescript
+ * observeSummary("chunk_duration_ms", 182, { operation: "scan" });
+ * const [summary] = getSummaries();
+ * // summary.quantiles → [{ quantile: 0.5, value: ... }, ...]
+ * ```
+ */
+export function observeSummary(
+	name: string,
+	value: number,
+	labels: MetricLabels,
+): void {
+	const key = getMetricKey(name, labels)
+	let summary = summaries.get(key)
+
+	if (!summary) {
+		const quantiles = summaryQuantiles.get(name) ?? DEFAULT_SUMMARY_QUANTILES
+		summary = {
+			name,
+			labels,
+			count: 0,
+			sum: 0,
+			estimators: quantiles.map((q) => new P2Quantile(q)),
+		}
+		summaries.set(key, summary)
+	}
+
+	summary.count++
+	summary.sum += value
+	for (const estimator of summary.estimators) {
+		estimator.add(value)
+	}
+}
+
+/**
+ * Get all summary metrics with their current quantile estimates.
+ *
+ * @returns Array of summary data
+ */
+export function getSummaries(): SummaryData[] {
+	return Array.from(summaries.values()).map((summary) => ({
+		name: summary.name,
+		labels: summary.labels,
+		count: summary.count,
+		sum: summary.sum,
+		quantiles: summary.estimators.map((estimator) => ({
+			quantile: estimator.quantile,
+			value: estimator.value(),
+		})),
+	}))
 }
 
 /**
- * Reset all metrics (useful for testing).
+ * Reset all metrics and metric configuration (useful for testing).
  */
 export function resetMetrics(): void {
 	counters.clear()
 	histograms.clear()
+	histogramBoundaries.clear()
+	gauges.clear()
+	gaugeCallbacks.clear()
+	summaries.clear()
+	summaryQuantiles.clear()
 }
 
 /**
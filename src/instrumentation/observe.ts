@@ -10,6 +10,9 @@
  *    W3C Trace Context support with automatic correlation ID propagation.
  *    Best for distributed tracing and multi-operation workflows.
  *
+ * Both styles record OpenTelemetry-compatible spans while a span exporter is
+ * registered (see `./tracing.ts`).
+ *
  * @module core/instrumentation/observe
  */
 
@@ -21,6 +24,13 @@ import {
 } from './context.js'
 import { categorizeError } from './error-category.js'
 import { getLatencyBucket } from './metrics.js'
+import {
+	addSpanEvent,
+	endSpan,
+	isTracingEnabled,
+	type SpanStatus,
+	startSpan,
+} from './tracing.js'
 
 /**
  * Simple logger interface for observe utilities.
@@ -59,6 +69,24 @@ export interface ObserveOptions<T> {
 	onError?(error: unknown, durationMs: number): void
 }
 
+/**
+ * Finish the current span of a failed operation with an exception event.
+ */
+function endSpanWithError(
+	traceContext: TraceContext,
+	error: unknown,
+	attributes: Record<string, unknown>,
+): void {
+	const message = error instanceof Error ? error.message : String(error)
+	addSpanEvent('exception', {
+		'exception.type': error instanceof Error ? error.name : typeof error,
+		'exception.message': message,
+		'exception.stacktrace': error instanceof Error ? error.stack : undefined,
+	})
+	const status: SpanStatus = { code: 'error', message }
+	endSpan(traceContext, status, attributes)
+}
+
 /**
  * Adds observability to async operations without changing return type.
  *
@@ -96,6 +124,28 @@ export async function observe<T>(
 	operation: string,
 	fn: () => Promise<T>,
 	options?: ObserveOptions<T>,
+): Promise<T> {
+	if (isTracingEnabled()) {
+		// Give the operation its own span so nested observe calls link to it
+		const traceContext = createTraceContext()
+		startSpan(operation, traceContext, { operation })
+		return runWithContext(traceContext, () =>
+			observeOperation(logger, operation, fn, options, traceContext),
+		)
+	}
+
+	return observeOperation(logger, operation, fn, options)
+}
+
+/**
+ * Shared implementation of `observe()`, ending the span when traced.
+ */
+async function observeOperation<T>(
+	logger: ObserveLogger,
+	operation: string,
+	fn: () => Promise<T>,
+	options?: ObserveOptions<T>,
+	traceContext?: TraceContext,
 ): Promise<T> {
 	const startTime = Date.now()
 
@@ -104,6 +154,9 @@ export async function observe<T>(
 		const durationMs = Math.max(0, Date.now() - startTime)
 
 		logger.info(`${operation} succeeded`, { durationMs })
+		if (traceContext) {
+			endSpan(traceContext, { code: 'ok' }, { durationMs })
+		}
 		options?.onSuccess?.(result, durationMs)
 
 		return result
@@ -118,6 +171,13 @@ export async function observe<T>(
 			errorCategory: category,
 			durationMs,
 		})
+		if (traceContext) {
+			endSpanWithError(traceContext, error, {
+				durationMs,
+				errorCode: code,
+				errorCategory: category,
+			})
+		}
 
 		options?.onError?.(error, durationMs)
 
@@ -155,6 +215,28 @@ export function observeSync<T>(
 	operation: string,
 	fn: () => T,
 	options?: ObserveOptions<T>,
+): T {
+	if (isTracingEnabled()) {
+		// Give the operation its own span so nested observe calls link to it
+		const traceContext = createTraceContext()
+		startSpan(operation, traceContext, { operation })
+		return runWithContext(traceContext, () =>
+			observeSyncOperation(logger, operation, fn, options, traceContext),
+		)
+	}
+
+	return observeSyncOperation(logger, operation, fn, options)
+}
+
+/**
+ * Shared implementation of `observeSync()`, ending the span when traced.
+ */
+function observeSyncOperation<T>(
+	logger: ObserveLogger,
+	operation: string,
+	fn: () => T,
+	options?: ObserveOptions<T>,
+	traceContext?: TraceContext,
 ): T {
 	const startTime = Date.now()
 
@@ -163,6 +245,9 @@ export function observeSync<T>(
 		const durationMs = Math.max(0, Date.now() - startTime)
 
 		logger.info(`${operation} succeeded`, { durationMs })
+		if (traceContext) {
+			endSpan(traceContext, { code: 'ok' }, { durationMs })
+		}
 		options?.onSuccess?.(result, durationMs)
 
 		return result
@@ -177,6 +262,13 @@ export function observeSync<T>(
 			errorCategory: category,
 			durationMs,
 		})
+		if (traceContext) {
+			endSpanWithError(traceContext, error, {
+				durationMs,
+				errorCode: code,
+				errorCategory: category,
+			})
+		}
 
 		options?.onError?.(error, durationMs)
 
@@ -288,6 +380,7 @@ export async function observeWithContext<T>(
 	})
 
 	const startTime = Date.now()
+	startSpan(operation, traceContext, { operation, ...options?.context })
 
 	// Run operation within trace context for automatic propagation
 	return runWithContext(traceContext, async () => {
@@ -307,6 +400,15 @@ export async function observeWithContext<T>(
 				timestamp: new Date().toISOString(),
 				...options?.context,
 			})
+			if (success) {
+				endSpan(traceContext, { code: 'ok' }, { durationMs })
+			} else {
+				endSpan(
+					traceContext,
+					{ code: 'error', message: `${operation} failed` },
+					{ durationMs },
+				)
+			}
 
 			return result
 		} catch (error: unknown) {
@@ -331,6 +433,11 @@ export async function observeWithContext<T>(
 				stack: errorStack,
 				...options?.context,
 			})
+			endSpanWithError(traceContext, error, {
+				durationMs,
+				errorCode: code,
+				errorCategory: category,
+			})
 
 			throw error
 		}
@@ -374,6 +481,7 @@ export function observeSyncWithContext<T>(
 	})
 
 	const startTime = Date.now()
+	startSpan(operation, traceContext, { operation, ...options?.context })
 
 	// Run operation within trace context for automatic propagation
 	return runWithContext(traceContext, () => {
@@ -393,6 +501,15 @@ export function observeSyncWithContext<T>(
 				timestamp: new Date().toISOString(),
 				...options?.context,
 			})
+			if (success) {
+				endSpan(traceContext, { code: 'ok' }, { durationMs })
+			} else {
+				endSpan(
+					traceContext,
+					{ code: 'error', message: `${operation} failed` },
+					{ durationMs },
+				)
+			}
 
 			return result
 		} catch (error: unknown) {
@@ -417,6 +534,11 @@ export function observeSyncWithContext<T>(
 				stack: errorStack,
 				...options?.context,
 			})
+			endSpanWithError(traceContext, error, {
+				durationMs,
+				errorCode: code,
+				errorCategory: category,
+			})
 
 			throw error
 		}
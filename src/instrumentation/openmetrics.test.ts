@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import {
+	configureHistogram,
+	incrementCounter,
+	observeHistogram,
+	observeSummary,
+	registerGaugeCallback,
+	resetMetrics,
+	setGauge,
+} from './metrics.js'
+import {
+	escapeLabelValue,
+	OPENMETRICS_CONTENT_TYPE,
+	serializeOpenMetrics,
+	serveMetrics,
+} from './openmetrics.js'
+
+describe('openmetrics', () => {
+	beforeEach(() => {
+		resetMetrics()
+	})
+
+	afterEach(() => {
+		resetMetrics()
+	})
+
+	describe('escapeLabelValue', () => {
+		test('escapes backslash, double quote and newline', () => {
+			expect(escapeLabelValue('a\\b')).toBe('a\\\\b')
+			expect(escapeLabelValue('say "hi"')).toBe('say \\"hi\\"')
+			expect(escapeLabelValue('line1\nline2')).toBe('line1\\nline2')
+		})
+	})
+
+	describe('serializeOpenMetrics', () => {
+		test('emits only EOF marker when registry is empty', () => {
+			expect(serializeOpenMetrics()).toBe('# EOF\n')
+		})
+
+		test('serializes counters with _total suffix and grouped families', () => {
+			incrementCounter('tool_calls', { tool: 'search', success: true })
+			incrementCounter('tool_calls', { tool: 'index', success: false }, 3)
+			incrementCounter('bytes_total', {}, 1024)
+
+			const output = serializeOpenMetrics()
+
+			expect(output).toContain(
+				'# TYPE tool_calls counter\n' +
+					'tool_calls_total{success="true",tool="search"} 1\n' +
+					'tool_calls_total{success="false",tool="index"} 3\n',
+			)
+			expect(output).toContain('# TYPE bytes counter\nbytes_total 1024\n')
+			expect(output.match(/# TYPE tool_calls/g)).toHaveLength(1)
+		})
+
+		test('serializes histograms with cumulative buckets, sum and count', () => {
+			observeHistogram('duration_seconds', 0.5, { tool: 'search' })
+			observeHistogram('duration_seconds', 3, { tool: 'search' })
+			observeHistogram('duration_seconds', 120, { tool: 'search' })
+
+			const output = serializeOpenMetrics()
+
+			expect(output).toContain('# TYPE duration_seconds histogram')
+			expect(output).toContain('duration_seconds_bucket{tool="search",le="1"} 1')
+			expect(output).toContain('duration_seconds_bucket{tool="search",le="5"} 2')
+			expect(output).toContain('duration_seconds_bucket{tool="search",le="60"} 2')
+			expect(output).toContain('duration_seconds_bucket{tool="search",le="+Inf"} 3')
+			expect(output).toContain('duration_seconds_sum{tool="search"} 123.5')
+			expect(output).toContain('duration_seconds_count{tool="search"} 3')
+		})
+
+		test('uses configured histogram buckets', () => {
+			configureHistogram('latency_ms', { buckets: [100, 500] })
+			observeHistogram('latency_ms', 250, {})
+
+			const output = serializeOpenMetrics()
+			expect(output).toContain('latency_ms_bucket{le="100"} 0')
+			expect(output).toContain('latency_ms_bucket{le="500"} 1')
+			expect(output).toContain('latency_ms_bucket{le="+Inf"} 1')
+		})
+
+		test('serializes set and callback gauges', () => {
+			setGauge('queue_depth', 4, { queue: 'inbox' })
+			registerGaugeCallback('pool_size', { pool: 'db' }, () => 2)
+
+			const output = serializeOpenMetrics()
+			expect(output).toContain('# TYPE queue_depth gauge\nqueue_depth{queue="inbox"} 4\n')
+			expect(output).toContain('# TYPE pool_size gauge\npool_size{pool="db"} 2\n')
+		})
+
+		test('serializes summaries with quantile, sum and count', () => {
+			observeSummary('chunk_ms', 10, { op: 'scan' })
+			observeSummary('chunk_ms', 30, { op: 'scan' })
+
+			const output = serializeOpenMetrics()
+			expect(output).toContain('# TYPE chunk_ms summary')
+			expect(output).toContain('chunk_ms{op="scan",quantile="0.5"} 10')
+			expect(output).toContain('chunk_ms{op="scan",quantile="0.99"} 30')
+			expect(output).toContain('chunk_ms_sum{op="scan"} 40')
+			expect(output).toContain('chunk_ms_count{op="scan"} 2')
+		})
+
+		test('sanitizes names and escapes label values', () => {
+			incrementCounter('mcp.tool-calls', { 'tool-name': 'say "hi"\n' })
+
+			expect(serializeOpenMetrics()).toContain(
+				'mcp_tool_calls_total{tool_name="say \\"hi\\"\\n"} 1',
+			)
+		})
+
+		test('ends with EOF marker', () => {
+			incrementCounter('ops', {})
+			expect(serializeOpenMetrics().endsWith('# EOF\n')).toBe(true)
+		})
+	})
+
+	describe('serveMetrics', () => {
+		test('serves exposition on /metrics and 404 elsewhere', async () => {
+			incrementCounter('scrapes', { source: 'test' })
+			const server = serveMetrics({ port: 0 })
+
+			try {
+				const response = await fetch(`http://127.0.0.1:${server.port}/metrics`)
+				expect(response.status).toBe(200)
+				expect(response.headers.get('content-type')).toBe(OPENMETRICS_CONTENT_TYPE)
+				expect(await response.text()).toContain('scrapes_total{source="test"} 1')
+
+				const missing = await fetch(`http://127.0.0.1:${server.port}/other`)
+				expect(missing.status).toBe(404)
+			} finally {
+				server.stop(true)
+			}
+		})
+	})
+})
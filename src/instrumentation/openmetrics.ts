@@ -0,0 +1,295 @@
+/**
+ * OpenMetrics text exposition for in-memory instrumentation metrics.
+ *
+ * Serializes counters, gauges, histograms, and summaries from the metrics
+ * registry into the OpenMetrics text format (compatible with Prometheus
+ * scrapers), and can serve them from a tiny local `/metrics` endpoint.
+ *
+ * Histogram series reflect the observations currently retained by the
+ * registry (max 1000 per series, 24 hour TTL), so their counts can drop
+ * when old observations are evicted. Scrapers treat this as a reset.
+ *
+ * @module core/instrumentation/openmetrics
+ */
+
+import type { Server } from 'bun'
+import {
+	type CounterData,
+	type GaugeData,
+	getCounters,
+	getGauges,
+	getHistogramBuckets,
+	getHistograms,
+	getSummaries,
+	type HistogramData,
+	type MetricLabels,
+	type SummaryData,
+} from './metrics.js'
+
+/** Content type for OpenMetrics text exposition */
+export const OPENMETRICS_CONTENT_TYPE =
+	'application/openmetrics-text; version=1.0.0; charset=utf-8'
+
+/**
+ * Options for the metrics HTTP endpoint.
+ */
+export interface MetricsServerOptions {
+	/** Port to listen on (default: 9464, use 0 for a random free port) */
+	port?: number
+	/** Hostname to bind (default: "127.0.0.1", local only) */
+	hostname?: string
+	/** Path that serves metrics (default: "/metrics") */
+	path?: string
+}
+
+/**
+ * Sanitize a metric name to `[a-zA-Z_:][a-zA-Z0-9_:]*`.
+ */
+function sanitizeMetricName(name: string): string {
+	const sanitized = name.replace(/[^a-zA-Z0-9_:]/g, '_')
+	return /^[a-zA-Z_:]/.test(sanitized) ? sanitized : `_${sanitized}`
+}
+
+/**
+ * Sanitize a label name to `[a-zA-Z_][a-zA-Z0-9_]*`.
+ */
+function sanitizeLabelName(name: string): string {
+	const sanitized = name.replace(/[^a-zA-Z0-9_]/g, '_')
+	return /^[a-zA-Z_]/.test(sanitized) ? sanitized : `_${sanitized}`
+}
+
+/**
+ * Escape a label value (backslash, double quote, and line feed).
+ *
+ * @param value - Raw label value
+ * @returns Escaped value safe to place between double quotes
+ *
+ * @example
+ * ```typescript
+ * escapeLabelValue('say "hi"\n'); // 'say \\"hi\\"\\n'
+ * ```
+ */
+export function escapeLabelValue(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+/**
+ * Format a label set as `{a="1",b="2"}` (empty string for no labels).
+ * Labels are sorted by name for stable output.
+ */
+function formatLabels(
+	labels: MetricLabels,
+	extra?: Record<string, string>,
+): string {
+	const pairs = Object.keys(labels)
+		.sort()
+		.map(
+			(key) =>
+				`${sanitizeLabelName(key)}="${escapeLabelValue(String(labels[key]))}"`,
+		)
+	for (const [key, value] of Object.entries(extra ?? {})) {
+		pairs.push(`${key}="${escapeLabelValue(value)}"`)
+	}
+	return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+/**
+ * Format a sample value (integers stay integers, infinities as +Inf/-Inf).
+ */
+function formatValue(value: number): string {
+	if (value === Number.POSITIVE_INFINITY) return '+Inf'
+	if (value === Number.NEGATIVE_INFINITY) return '-Inf'
+	if (Number.isNaN(value)) return 'NaN'
+	return String(value)
+}
+
+/**
+ * Group items by sanitized family name, preserving first-seen order.
+ */
+function groupByFamily<T extends { name: string }>(
+	items: T[],
+	familyName: (name: string) => string,
+): Map<string, T[]> {
+	const families = new Map<string, T[]>()
+	for (const item of items) {
+		const family = familyName(item.name)
+		const group = families.get(family) ?? []
+		group.push(item)
+		families.set(family, group)
+	}
+	return families
+}
+
+/**
+ * Serialize counter families. A `_total` suffix is added to sample names
+ * and stripped from family names, as OpenMetrics requires.
+ */
+function serializeCounters(counters: CounterData[]): string[] {
+	const lines: string[] = []
+	const families = groupByFamily(counters, (name) =>
+		sanitizeMetricName(name).replace(/_total$/, ''),
+	)
+
+	for (const [family, series] of families) {
+		lines.push(`# TYPE ${family} counter`)
+		for (const counter of series) {
+			lines.push(
+				`${family}_total${formatLabels(counter.labels)} ${formatValue(counter.value)}`,
+			)
+		}
+	}
+	return lines
+}
+
+/**
+ * Serialize gauge families.
+ */
+function serializeGauges(gauges: GaugeData[]): string[] {
+	const lines: string[] = []
+	const families = groupByFamily(gauges, sanitizeMetricName)
+
+	for (const [family, series] of families) {
+		lines.push(`# TYPE ${family} gauge`)
+		for (const gauge of series) {
+			lines.push(
+				`${family}${formatLabels(gauge.labels)} ${formatValue(gauge.value)}`,
+			)
+		}
+	}
+	return lines
+}
+
+/**
+ * Serialize summary families as `quantile` samples plus `_sum` and `_count`.
+ */
+function serializeSummaries(summaries: SummaryData[]): string[] {
+	const lines: string[] = []
+	const families = groupByFamily(summaries, sanitizeMetricName)
+
+	for (const [family, series] of families) {
+		lines.push(`# TYPE ${family} summary`)
+		for (const summary of series) {
+			for (const { quantile, value } of summary.quantiles) {
+				lines.push(
+					`${family}${formatLabels(summary.labels, { quantile: formatValue(quantile) })} ${formatValue(value)}`,
+				)
+			}
+			lines.push(
+				`${family}_sum${formatLabels(summary.labels)} ${formatValue(summary.sum)}`,
+			)
+			lines.push(
+				`${family}_count${formatLabels(summary.labels)} ${summary.count}`,
+			)
+		}
+	}
+	return lines
+}
+
+/**
+ * Serialize histogram families as `_bucket`, `_sum` and `_count` series.
+ */
+function serializeHistograms(histograms: HistogramData[]): string[] {
+	const lines: string[] = []
+	const families = groupByFamily(histograms, sanitizeMetricName)
+
+	for (const [family, series] of families) {
+		lines.push(`# TYPE ${family} histogram`)
+		for (const histogram of series) {
+			const { buckets } = histogram
+			const boundaries =
+				histogram.boundaries ??
+				getHistogramBuckets(histogram.name, histogram.labels).boundaries
+			const count = histogram.observations.length
+			const sum = histogram.observations.reduce((acc, o) => acc + o.value, 0)
+
+			boundaries.forEach((boundary, i) => {
+				lines.push(
+					`${family}_bucket${formatLabels(histogram.labels, { le: formatValue(boundary) })} ${buckets[i] ?? 0}`,
+				)
+			})
+			lines.push(
+				`${family}_bucket${formatLabels(histogram.labels, { le: '+Inf' })} ${count}`,
+			)
+			lines.push(
+				`${family}_sum${formatLabels(histogram.labels)} ${formatValue(sum)}`,
+			)
+			lines.push(`${family}_count${formatLabels(histogram.labels)} ${count}`)
+		}
+	}
+	return lines
+}
+
+/**
+ * Serialize all registered metrics in OpenMetrics text format.
+ *
+ * - Counters become `<name>_total` samples in a `counter` family
+ * - Gauges (including callback gauges) become `gauge` families
+ * - Histograms become cumulative `<name>_bucket{le="..."}` samples plus
+ *   `<name>_sum` and `<name>_count`
+ * - Summaries become `<name>{quantile="..."}` samples plus `<name>_sum`
+ *   and `<name>_count`
+ * - Metric and label names are sanitized; label values are escaped
+ * - Output ends with the required `# EOF` marker
+ *
+ * @returns OpenMetrics exposition text
+ *
+ * @example
+ * ```typescript
+ * incrementCounter("tool_calls", { tool: "search" });
+ * observeHistogram("tool_duration_seconds", 0.4, { tool: "search" });
+ *
+ * console.log(serializeOpenMetrics());
+ * // # TYPE tool_calls counter
+ * // tool_calls_total{tool="search"} 1
+ * // # TYPE tool_duration_seconds histogram
+ * // tool_duration_seconds_bucket{tool="search",le="1"} 1
+ * // ...
+ * // # EOF
+ * ```
+ */
+export function serializeOpenMetrics(): string {
+	const lines = [
+		...serializeCounters(getCounters()),
+		...serializeGauges(getGauges()),
+		...serializeHistograms(getHistograms()),
+		...serializeSummaries(getSummaries()),
+		'# EOF',
+	]
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Serve registered metrics over HTTP for local Prometheus scraping.
+ *
+ * Binds to localhost by default. Requests to any other path return 404.
+ * Call `server.stop()` to shut the endpoint down.
+ *
+ * @param options - Port, hostname, and path
+ * @returns Running Bun server
+ *
+ * @example
+ * ```typescript
+ * const server = serveMetrics({ port: 9464 });
+ * // curl http://127.0.0.1:9464/metrics
+ * server.stop();
+ * ```
+ */
+export function serveMetrics(
+	options: MetricsServerOptions = {},
+): Server<undefined> {
+	const path = options.path ?? '/metrics'
+
+	return Bun.serve({
+		port: options.port ?? 9464,
+		hostname: options.hostname ?? '127.0.0.1',
+		fetch(request) {
+			const url = new URL(request.url)
+			if (url.pathname !== path) {
+				return new Response('Not Found', { status: 404 })
+			}
+			return new Response(serializeOpenMetrics(), {
+				headers: { 'Content-Type': OPENMETRICS_CONTENT_TYPE },
+			})
+		},
+	})
+}
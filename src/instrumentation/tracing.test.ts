@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createTraceContext, runWithContext } from './context.js'
+import {
+	type ContextAwareLogger,
+	observe,
+	observeSync,
+	observeSyncWithContext,
+	observeWithContext,
+} from './observe.js'
+import {
+	addSpanEvent,
+	InMemorySpanExporter,
+	isTracingEnabled,
+	OtlpFileSpanExporter,
+	registerSpanExporter,
+	type Span,
+	setSpanAttributes,
+	shutdownSpanExporters,
+	toOtlpJson,
+	toSpanId,
+	toTraceId,
+} from './tracing.js'
+
+const logger: ContextAwareLogger = {
+	info: () => {},
+	error: () => {},
+}
+
+describe('tracing', () => {
+	let exporter: InMemorySpanExporter
+
+	beforeEach(() => {
+		exporter = new InMemorySpanExporter()
+		registerSpanExporter(exporter)
+	})
+
+	afterEach(async () => {
+		await shutdownSpanExporters()
+	})
+
+	describe('ID mapping', () => {
+		test('maps correlation IDs to stable hex IDs', () => {
+			expect(toTraceId('my-session')).toMatch(/^[0-9a-f]{32}$/)
+			expect(toSpanId('a1b2c3d4')).toMatch(/^[0-9a-f]{16}$/)
+			expect(toTraceId('my-session')).toBe(toTraceId('my-session'))
+			expect(toSpanId('a1b2c3d4')).not.toBe(toSpanId('a1b2c3d5'))
+		})
+
+		test('keeps IDs that are already valid', () => {
+			const traceId = '4bf92f3577b34da6a3ce929d0e0e4736'
+			expect(toTraceId(traceId)).toBe(traceId)
+			expect(toSpanId('00f067aa0ba902b7')).toBe('00f067aa0ba902b7')
+		})
+	})
+
+	describe('observeWithContext', () => {
+		test('links nested spans to their parent', async () => {
+			await observeWithContext(logger, 'tool:search', () =>
+				observeWithContext(logger, 'index:query', async () => 'ok'),
+			)
+
+			const [child, parent] = exporter.getFinishedSpans() as [Span, Span]
+			expect(child.name).toBe('index:query')
+			expect(parent.name).toBe('tool:search')
+			expect(child.parentSpanId).toBe(parent.spanId)
+			expect(child.traceId).toBe(parent.traceId)
+			expect(parent.parentSpanId).toBeUndefined()
+			expect(parent.endTime).toBeGreaterThanOrEqual(parent.startTime)
+		})
+
+		test('uses the session correlation ID as trace ID', async () => {
+			const session = createTraceContext({ sessionCid: 'session-1' })
+
+			await runWithContext(session, () => observeWithContext(logger, 'op', async () => {}))
+
+			const [span] = exporter.getFinishedSpans()
+			expect(span?.traceId).toBe(toTraceId('session-1'))
+		})
+
+		test('records attributes, events and ok status', async () => {
+			await observeWithContext(
+				logger,
+				'vault:sync',
+				async () => {
+					setSpanAttributes({ fileCount: 3, nested: { dropped: true } })
+					addSpanEvent('conflict detected', { path: 'a.md' })
+				},
+				{ context: { vault: 'notes' } },
+			)
+
+			const [span] = exporter.getFinishedSpans()
+			expect(span?.status).toEqual({ code: 'ok' })
+			expect(span?.attributes).toMatchObject({
+				operation: 'vault:sync',
+				vault: 'notes',
+				fileCount: 3,
+			})
+			expect(span?.attributes).not.toHaveProperty('nested')
+			expect(typeof span?.attributes.durationMs).toBe('number')
+			expect(span?.events).toEqual([
+				{
+					name: 'conflict detected',
+					timestamp: expect.any(Number),
+					attributes: { path: 'a.md' },
+				},
+			])
+		})
+
+		test('records error status and exception event on throw', async () => {
+			await expect(
+				observeWithContext(logger, 'op', async () => {
+					throw new Error('boom')
+				}),
+			).rejects.toThrow('boom')
+
+			const [span] = exporter.getFinishedSpans()
+			expect(span?.status).toEqual({ code: 'error', message: 'boom' })
+			expect(span?.events[0]?.name).toBe('exception')
+			expect(span?.events[0]?.attributes['exception.message']).toBe('boom')
+			expect(span?.attributes.errorCategory).toBeDefined()
+		})
+
+		test('records error status when isSuccess fails', async () => {
+			await observeWithContext(logger, 'op', async () => ({ ok: false }), {
+				isSuccess: (result) => result.ok,
+			})
+
+			const [span] = exporter.getFinishedSpans()
+			expect(span?.status.code).toBe('error')
+		})
+	})
+
+	describe('simple observe API', () => {
+		test('records spans and links nested operations', async () => {
+			await observe(logger, 'outer', async () => {
+				observeSync(logger, 'inner', () => 1)
+			})
+
+			const [inner, outer] = exporter.getFinishedSpans() as [Span, Span]
+			expect(inner.name).toBe('inner')
+			expect(inner.parentSpanId).toBe(outer.spanId)
+			expect(outer.status.code).toBe('ok')
+		})
+
+		test('records error spans from observeSync', () => {
+			expect(() =>
+				observeSync(logger, 'parse', () => {
+					throw new SyntaxError('bad json')
+				}),
+			).toThrow('bad json')
+
+			const [span] = exporter.getFinishedSpans()
+			expect(span?.status).toEqual({ code: 'error', message: 'bad json' })
+			expect(span?.events[0]?.attributes['exception.type']).toBe('SyntaxError')
+		})
+	})
+
+	describe('without exporters', () => {
+		test('records nothing', async () => {
+			await shutdownSpanExporters()
+			expect(isTracingEnabled()).toBe(false)
+
+			observeSyncWithContext(logger, 'op', () => {
+				addSpanEvent('ignored')
+			})
+
+			expect(exporter.getFinishedSpans()).toEqual([])
+		})
+	})
+
+	describe('toOtlpJson', () => {
+		test('converts spans to an OTLP/JSON export request', () => {
+			const span: Span = {
+				traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+				spanId: '00f067aa0ba902b7',
+				parentSpanId: '1111111111111111',
+				name: 'tool:search',
+				startTime: 1_700_000_000_000,
+				endTime: 1_700_000_000_250,
+				attributes: { tool: 'search', hits: 3, ratio: 0.5, cached: false },
+				status: { code: 'error', message: 'boom' },
+				events: [{ name: 'retry', timestamp: 1_700_000_000_100, attributes: {} }],
+			}
+
+			const request = toOtlpJson([span], { serviceName: 'my-plugin' })
+			const resourceSpans = request.resourceSpans[0]
+			const otlpSpan = resourceSpans?.scopeSpans[0]?.spans[0]
+
+			expect(resourceSpans?.resource.attributes).toEqual([
+				{ key: 'service.name', value: { stringValue: 'my-plugin' } },
+			])
+			expect(otlpSpan).toMatchObject({
+				traceId: span.traceId,
+				spanId: span.spanId,
+				parentSpanId: span.parentSpanId,
+				kind: 1,
+				startTimeUnixNano: '1700000000000000000',
+				endTimeUnixNano: '1700000000250000000',
+				status: { code: 2, message: 'boom' },
+			})
+			expect(otlpSpan?.attributes).toEqual([
+				{ key: 'tool', value: { stringValue: 'search' } },
+				{ key: 'hits', value: { intValue: '3' } },
+				{ key: 'ratio', value: { doubleValue: 0.5 } },
+				{ key: 'cached', value: { boolValue: false } },
+			])
+			expect(otlpSpan?.events[0]?.timeUnixNano).toBe('1700000000100000000')
+		})
+	})
+
+	describe('OtlpFileSpanExporter', () => {
+		let tempDir: string
+
+		beforeEach(() => {
+			tempDir = mkdtempSync(join(tmpdir(), 'tracing-test-'))
+		})
+
+		afterEach(() => {
+			rmSync(tempDir, { recursive: true, force: true })
+		})
+
+		test('appends one OTLP/JSON request per line', async () => {
+			const filePath = join(tempDir, 'logs', 'traces.jsonl')
+			registerSpanExporter(new OtlpFileSpanExporter({ filePath, serviceName: 'test' }))
+
+			await observeWithContext(logger, 'first', async () => {})
+			observeSyncWithContext(logger, 'second', () => {})
+			await shutdownSpanExporters()
+
+			const lines = readFileSync(filePath, 'utf8').trim().split('\n')
+			expect(lines).toHaveLength(2)
+			const names = lines.map(
+				(line) => JSON.parse(line).resourceSpans[0].scopeSpans[0].spans[0].name,
+			)
+			expect(names).toEqual(['first', 'second'])
+		})
+	})
+})
@@ -0,0 +1,585 @@
+/**
+ * OpenTelemetry-compatible span recording and export.
+ *
+ * `observe`, `observeSync`, `observeWithContext` and `observeSyncWithContext`
+ * record a span for every operation while at least one exporter is
+ * registered. Spans reuse the trace context correlation IDs, so nested
+ * operations form a tree that trace viewers (Jaeger, Tempo, etc.) render as
+ * a flame graph.
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import {
+ *   OtlpFileSpanExporter,
+ *   observeWithContext,
+ *   registerSpanExporter,
+ * } from "@side-quest/core/instrumentation";
+ *
+ * const unregister = registerSpanExporter(
+ *   new OtlpFileSpanExporter({ filePath: "traces.jsonl", serviceName: "my-plugin" }),
+ * );
+ *
+ * await observeWithContext(logger, "tool:search", async () => {
+ *   addSpanEvent("cache miss", { key });
+ *   await observeWithContext(logger, "index:query", queryIndex);
+ * });
+ * ```
+ *
+ * ## ID Mapping
+ *
+ * Correlation IDs are mapped deterministically to OTLP IDs: `sessionCid`
+ * becomes a 32-hex-char trace ID and `cid` a 16-hex-char span ID. IDs that
+ * already have the right shape are used as-is; others are hashed.
+ *
+ * @module core/instrumentation/tracing
+ */
+
+import { createHash } from 'node:crypto'
+import { appendToFile, ensureParentDir } from '../fs/index.js'
+import { getCurrentContext, type TraceContext } from './context.js'
+
+/** Span attribute value (OTLP scalar types) */
+export type SpanAttributeValue = string | number | boolean
+
+/** Span attributes keyed by attribute name */
+export type SpanAttributes = Record<string, SpanAttributeValue>
+
+/**
+ * Timestamped event recorded during a span.
+ */
+export interface SpanEvent {
+	/** Event name */
+	name: string
+	/** Unix timestamp in milliseconds */
+	timestamp: number
+	/** Event attributes */
+	attributes: SpanAttributes
+}
+
+/**
+ * Span completion status.
+ */
+export interface SpanStatus {
+	/** Status code (OTLP: 0 = unset, 1 = ok, 2 = error) */
+	code: 'unset' | 'ok' | 'error'
+	/** Error description for `error` spans */
+	message?: string
+}
+
+/**
+ * Finished span.
+ */
+export interface Span {
+	/** 32 hex-char trace ID */
+	traceId: string
+	/** 16 hex-char span ID */
+	spanId: string
+	/** Parent span ID when the parent operation was also recorded */
+	parentSpanId?: string
+	/** Operation name */
+	name: string
+	/** Start time (Unix ms) */
+	startTime: number
+	/** End time (Unix ms) */
+	endTime: number
+	/** Span attributes */
+	attributes: SpanAttributes
+	/** Completion status */
+	status: SpanStatus
+	/** Events recorded during the span, in order */
+	events: SpanEvent[]
+}
+
+/**
+ * Destination for finished spans.
+ */
+export interface SpanExporter {
+	/** Receive finished spans (errors are swallowed) */
+	export(spans: readonly Span[]): void | Promise<void>
+	/** Flush pending work and release resources */
+	shutdown?(): Promise<void>
+}
+
+/**
+ * Span being recorded.
+ */
+interface ActiveSpan {
+	span: Omit<Span, 'endTime' | 'status'>
+}
+
+/** Registered exporters */
+const exporters = new Set<SpanExporter>()
+
+/** Spans in progress, keyed by correlation ID */
+const activeSpans = new Map<string, ActiveSpan>()
+
+/**
+ * Map an identifier to a fixed-length lowercase hex ID.
+ */
+function toHexId(value: string, length: number): string {
+	const pattern = new RegExp(`^[0-9a-f]{${length}}$`)
+	if (pattern.test(value) && !/^0+$/.test(value)) {
+		return value
+	}
+	return createHash('sha256').update(value).digest('hex').slice(0, length)
+}
+
+/**
+ * Map a session correlation ID to a 32 hex-char OTLP trace ID.
+ *
+ * @param sessionCid - Session correlation ID
+ * @returns Trace ID
+ *
+ * @example
+ * ```typescript
+ * toTraceId("my-session"); // "5b0f..." (stable for the same input)
+ * ```
+ */
+export function toTraceId(sessionCid: string): string {
+	return toHexId(sessionCid, 32)
+}
+
+/**
+ * Map a correlation ID to a 16 hex-char OTLP span ID.
+ *
+ * @param cid - Correlation ID
+ * @returns Span ID
+ *
+ * @example
+ * ```typescript
+ * toSpanId("a1b2c3d4"); // "9c1e..." (stable for the same input)
+ * ```
+ */
+export function toSpanId(cid: string): string {
+	return toHexId(cid, 16)
+}
+
+/**
+ * Register an exporter to receive finished spans.
+ *
+ * Spans are only recorded while at least one exporter is registered.
+ *
+ * @param exporter - Span exporter
+ * @returns Function that unregisters the exporter
+ *
+ * @example
+ * ```typescript
+ * const exporter = new InMemorySpanExporter();
+ * const unregister = registerSpanExporter(exporter);
+ * // ... run observed operations ...
+ * unregister();
+ * ```
+ */
+export function registerSpanExporter(exporter: SpanExporter): () => void {
+	exporters.add(exporter)
+	return () => {
+		exporters.delete(exporter)
+	}
+}
+
+/**
+ * Shut down and unregister every exporter, flushing pending writes.
+ *
+ * @example
+ * ```typescript
+ * process.on("beforeExit", () => shutdownSpanExporters());
+ * ```
+ */
+export async function shutdownSpanExporters(): Promise<void> {
+	const current = [...exporters]
+	exporters.clear()
+	await Promise.allSettled(current.map((e) => e.shutdown?.()))
+}
+
+/**
+ * Whether spans are currently being recorded.
+ */
+export function isTracingEnabled(): boolean {
+	return exporters.size > 0
+}
+
+/**
+ * Keep only attribute values OTLP can represent.
+ */
+function toAttributes(
+	values: Record<string, unknown> | undefined,
+): SpanAttributes {
+	const attributes: SpanAttributes = {}
+	for (const [key, value] of Object.entries(values ?? {})) {
+		if (
+			typeof value === 'string' ||
+			typeof value === 'number' ||
+			typeof value === 'boolean'
+		) {
+			attributes[key] = value
+		}
+	}
+	return attributes
+}
+
+/**
+ * Start recording a span for a trace context.
+ *
+ * Used by the observe utilities; no-op when no exporter is registered.
+ *
+ * @param name - Operation name
+ * @param context - Trace context of the operation
+ * @param attributes - Initial attributes (non-scalar values are dropped)
+ */
+export function startSpan(
+	name: string,
+	context: TraceContext,
+	attributes?: Record<string, unknown>,
+): void {
+	if (!isTracingEnabled()) {
+		return
+	}
+
+	const parentSpanId =
+		context.parentCid && activeSpans.has(context.parentCid)
+			? toSpanId(context.parentCid)
+			: undefined
+
+	activeSpans.set(context.cid, {
+		span: {
+			traceId: toTraceId(context.sessionCid ?? context.cid),
+			spanId: toSpanId(context.cid),
+			...(parentSpanId && { parentSpanId }),
+			name,
+			startTime: Date.now(),
+			attributes: toAttributes(attributes),
+			events: [],
+		},
+	})
+}
+
+/**
+ * Finish a span and hand it to every exporter.
+ *
+ * Used by the observe utilities; no-op when the span was not started.
+ *
+ * @param context - Trace context passed to `startSpan`
+ * @param status - Completion status
+ * @param attributes - Attributes to add at completion
+ */
+export function endSpan(
+	context: TraceContext,
+	status: SpanStatus,
+	attributes?: Record<string, unknown>,
+): void {
+	const active = activeSpans.get(context.cid)
+	if (!active) {
+		return
+	}
+	activeSpans.delete(context.cid)
+
+	const span: Span = {
+		...active.span,
+		attributes: { ...active.span.attributes, ...toAttributes(attributes) },
+		endTime: Date.now(),
+		status,
+	}
+
+	for (const exporter of exporters) {
+		try {
+			Promise.resolve(exporter.export([span])).catch(() => {
+				// Tracing must never break the traced operation
+			})
+		} catch {
+			// Tracing must never break the traced operation
+		}
+	}
+}
+
+/**
+ * Record an event on the span of the current trace context.
+ *
+ * No-op outside an observed operation or when tracing is disabled.
+ *
+ * @param name - Event name
+ * @param attributes - Event attributes (non-scalar values are dropped)
+ *
+ * @example
+ * ```typescript
+ * await observeWithContext(logger, "vault:sync", async () => {
+ *   addSpanEvent("conflict detected", { path });
+ * });
+ * ```
+ */
+export function addSpanEvent(
+	name: string,
+	attributes?: Record<string, unknown>,
+): void {
+	const cid = getCurrentContext()?.cid
+	const active = cid ? activeSpans.get(cid) : undefined
+	active?.span.events.push({
+		name,
+		timestamp: Date.now(),
+		attributes: toAttributes(attributes),
+	})
+}
+
+/**
+ * Set attributes on the span of the current trace context.
+ *
+ * No-op outside an observed operation or when tracing is disabled.
+ *
+ * @param attributes - Attributes to merge (non-scalar values are dropped)
+ *
+ * @example
+ * ```typescript
+ * await observeWithContext(logger, "inbox:scan", async () => {
+ *   const files = await listFiles();
+ *   setSpanAttributes({ fileCount: files.length });
+ * });
+ * ```
+ */
+export function setSpanAttributes(attributes: Record<string, unknown>): void {
+	const cid = getCurrentContext()?.cid
+	const active = cid ? activeSpans.get(cid) : undefined
+	if (active) {
+		Object.assign(active.span.attributes, toAttributes(attributes))
+	}
+}
+
+// ============================================================================
+// OTLP/JSON
+// ============================================================================
+
+/** OTLP attribute key/value pair */
+export interface OtlpKeyValue {
+	key: string
+	value:
+		| { stringValue: string }
+		| { boolValue: boolean }
+		| { intValue: string }
+		| { doubleValue: number }
+}
+
+/** OTLP span (JSON encoding) */
+export interface OtlpSpan {
+	traceId: string
+	spanId: string
+	parentSpanId?: string
+	name: string
+	kind: number
+	startTimeUnixNano: string
+	endTimeUnixNano: string
+	attributes: OtlpKeyValue[]
+	events: Array<{
+		timeUnixNano: string
+		name: string
+		attributes: OtlpKeyValue[]
+	}>
+	status: { code: number; message?: string }
+}
+
+/** OTLP `ExportTraceServiceRequest` (JSON encoding) */
+export interface OtlpTraceRequest {
+	resourceSpans: Array<{
+		resource: { attributes: OtlpKeyValue[] }
+		scopeSpans: Array<{
+			scope: { name: string }
+			spans: OtlpSpan[]
+		}>
+	}>
+}
+
+/** OTLP status codes */
+const OTLP_STATUS_CODES: Record<SpanStatus['code'], number> = {
+	unset: 0,
+	ok: 1,
+	error: 2,
+}
+
+/** OTLP SPAN_KIND_INTERNAL */
+const SPAN_KIND_INTERNAL = 1
+
+/**
+ * Convert milliseconds to an OTLP nanosecond string.
+ */
+function toUnixNano(ms: number): string {
+	return (BigInt(Math.round(ms)) * 1_000_000n).toString()
+}
+
+/**
+ * Convert attributes to OTLP key/value pairs.
+ */
+function toOtlpAttributes(attributes: SpanAttributes): OtlpKeyValue[] {
+	return Object.entries(attributes).map(([key, value]) => {
+		if (typeof value === 'string') {
+			return { key, value: { stringValue: value } }
+		}
+		if (typeof value === 'boolean') {
+			return { key, value: { boolValue: value } }
+		}
+		return Number.isInteger(value)
+			? { key, value: { intValue: String(value) } }
+			: { key, value: { doubleValue: value } }
+	})
+}
+
+/**
+ * Convert spans to an OTLP/JSON `ExportTraceServiceRequest`.
+ *
+ * The result can be written to a file, or POSTed to an OTLP/HTTP endpoint
+ * such as a local Jaeger at `http://localhost:4318/v1/traces`.
+ *
+ * @param spans - Finished spans
+ * @param options - Resource `service.name` (default: "side-quest")
+ * @returns OTLP/JSON request body
+ *
+ * @example
+ * ```typescript
+ * const body = toOtlpJson(exporter.getFinishedSpans(), { serviceName: "my-plugin" });
+ * await fetch("http://localhost:4318/v1/traces", {
+ *   method: "POST",
+ *   headers: { "Content-Type": "application/json" },
+ *   body: JSON.stringify(body),
+ * });
+ * ```
+ */
+export function toOtlpJson(
+	spans: readonly Span[],
+	options: { serviceName?: string } = {},
+): OtlpTraceRequest {
+	return {
+		resourceSpans: [
+			{
+				resource: {
+					attributes: toOtlpAttributes({
+						'service.name': options.serviceName ?? 'side-quest',
+					}),
+				},
+				scopeSpans: [
+					{
+						scope: { name: '@side-quest/core/instrumentation' },
+						spans: spans.map((span) => ({
+							traceId: span.traceId,
+							spanId: span.spanId,
+							...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+							name: span.name,
+							kind: SPAN_KIND_INTERNAL,
+							startTimeUnixNano: toUnixNano(span.startTime),
+							endTimeUnixNano: toUnixNano(span.endTime),
+							attributes: toOtlpAttributes(span.attributes),
+							events: span.events.map((event) => ({
+								timeUnixNano: toUnixNano(event.timestamp),
+								name: event.name,
+								attributes: toOtlpAttributes(event.attributes),
+							})),
+							status: {
+								code: OTLP_STATUS_CODES[span.status.code],
+								...(span.status.message && { message: span.status.message }),
+							},
+						})),
+					},
+				],
+			},
+		],
+	}
+}
+
+// ============================================================================
+// Exporters
+// ============================================================================
+
+/**
+ * Exporter that keeps finished spans in memory, for tests.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new InMemorySpanExporter();
+ * const unregister = registerSpanExporter(exporter);
+ *
+ * await observeWithContext(logger, "parent", () =>
+ *   observeWithContext(logger, "child", async () => {}),
+ * );
+ *
+ * const [child, parent] = exporter.getFinishedSpans();
+ * expect(child.parentSpanId).toBe(parent.spanId);
+ * unregister();
+ * ```
+ */
+export class InMemorySpanExporter implements SpanExporter {
+	private spans: Span[] = []
+
+	export(spans: readonly Span[]): void {
+		this.spans.push(...spans)
+	}
+
+	/**
+	 * Get finished spans in completion order (children before parents).
+	 */
+	getFinishedSpans(): Span[] {
+		return [...this.spans]
+	}
+
+	/**
+	 * Remove all recorded spans.
+	 */
+	reset(): void {
+		this.spans = []
+	}
+
+	async shutdown(): Promise<void> {
+		this.reset()
+	}
+}
+
+/**
+ * Options for the OTLP/JSON file exporter.
+ */
+export interface OtlpFileSpanExporterOptions {
+	/** File to append OTLP/JSON lines to */
+	filePath: string
+	/** Resource `service.name` (default: "side-quest") */
+	serviceName?: string
+}
+
+/**
+ * Exporter that appends one OTLP/JSON `ExportTraceServiceRequest` per line.
+ *
+ * This is the format written by the OpenTelemetry Collector file exporter,
+ * so files can be replayed into a collector or uploaded to a trace viewer.
+ * Writes are serialized; call `shutdown()` to wait for pending writes.
+ *
+ * @example
+ * ```typescript
+ * registerSpanExporter(
+ *   new OtlpFileSpanExporter({
+ *     filePath: join(homedir(), ".claude", "logs", "traces.jsonl"),
+ *     serviceName: "vault-plugin",
+ *   }),
+ * );
+ * ```
+ */
+export class OtlpFileSpanExporter implements SpanExporter {
+	private readonly options: OtlpFileSpanExporterOptions
+	private writeChain: Promise<void> = Promise.resolve()
+
+	constructor(options: OtlpFileSpanExporterOptions) {
+		this.options = options
+	}
+
+	export(spans: readonly Span[]): Promise<void> {
+		const line = `${JSON.stringify(
+			toOtlpJson(spans, { serviceName: this.options.serviceName }),
+		)}\n`
+
+		this.writeChain = this.writeChain
+			.then(async () => {
+				await ensureParentDir(this.options.filePath)
+				await appendToFile(this.options.filePath, line)
+			})
+			.catch(() => {
+				// Drop spans that fail to write; tracing is best-effort
+			})
+		return this.writeChain
+	}
+
+	async shutdown(): Promise<void> {
+		await this.writeChain
+	}
+}
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { LOGS_CLI_USAGE, parseTimeArg, runLogsCli } from './cli'
+
+const NOW = Date.parse('2024-01-01T03:00:00.000Z')
+
+describe('parseTimeArg', () => {
+	test('parses relative durations', () => {
+		expect(parseTimeArg('30s', NOW)).toBe(NOW - 30_000)
+		expect(parseTimeArg('15m', NOW)).toBe(NOW - 15 * 60_000)
+		expect(parseTimeArg('2h', NOW)).toBe(NOW - 2 * 3_600_000)
+		expect(parseTimeArg('1d', NOW)).toBe(NOW - 86_400_000)
+	})
+
+	test('parses ISO timestamps', () => {
+		expect(parseTimeArg('2024-01-01T00:00:00Z', NOW)).toBe(1_704_067_200_000)
+	})
+
+	test('returns undefined for invalid values', () => {
+		expect(parseTimeArg('yesterday', NOW)).toBeUndefined()
+	})
+})
+
+describe('runLogsCli', () => {
+	let logDir: string
+	let output: string[]
+	let errors: string[]
+
+	const run = (argv: string[]) =>
+		runLogsCli([...argv, '--log-dir', logDir], {
+			write: (line) => output.push(line),
+			writeError: (line) => errors.push(line),
+			now: NOW,
+			color: false,
+		})
+
+	beforeEach(() => {
+		logDir = mkdtempSync(join(tmpdir(), 'logs-cli-test-'))
+		output = []
+		errors = []
+
+		const records = [
+			['2024-01-01T00:00:00.000Z', 'INFO', 'my-plugin.scraper', 'scrape started'],
+			['2024-01-01T02:30:00.000Z', 'ERROR', 'my-plugin.auth', 'token expired'],
+		].map(([timestamp, level, logger, message]) =>
+			JSON.stringify({ '@timestamp': timestamp, level, message, logger, properties: {} }),
+		)
+		writeFileSync(join(logDir, 'my-plugin.jsonl.1'), `${records[0]}\n`)
+		writeFileSync(join(logDir, 'my-plugin.jsonl'), `${records[1]}\n`)
+	})
+
+	afterEach(() => {
+		rmSync(logDir, { recursive: true, force: true })
+	})
+
+	test('prints matching entries in pretty format', async () => {
+		expect(await run(['my-plugin'])).toBe(0)
+		expect(output).toEqual([
+			'2024-01-01T00:00:00.000Z INFO  my-plugin.scraper scrape started',
+			'2024-01-01T02:30:00.000Z ERROR my-plugin.auth token expired',
+		])
+	})
+
+	test('applies level, subsystem and time filters', async () => {
+		await run(['my-plugin', '--subsystem', 'scraper,auth', '--since', '1h'])
+		expect(output).toHaveLength(1)
+		expect(output[0]).toContain('token expired')
+
+		output = []
+		await run(['my-plugin', '--level', 'error', '--subsystem', 'scraper'])
+		expect(output).toEqual([])
+	})
+
+	test('prints raw JSONL', async () => {
+		await run(['my-plugin', '--format', 'jsonl', '--limit', '1'])
+		expect(JSON.parse(output[0] ?? '')).toMatchObject({ message: 'token expired' })
+	})
+
+	test('renders a correlation ID timeline', async () => {
+		writeFileSync(
+			join(logDir, 'my-plugin.jsonl'),
+			`${JSON.stringify({
+				'@timestamp': '2024-01-01T02:45:00.000Z',
+				level: 'INFO',
+				message: 'MCP tool response',
+				logger: 'my-plugin.mcp',
+				properties: { cid: 'abc', tool: 'search', durationMs: 5 },
+			})}\n`,
+		)
+
+		expect(await run(['my-plugin', '--cid', 'abc', '--timeline'])).toBe(0)
+		expect(output).toEqual([
+			'search 5ms ok [my-plugin.mcp] cid=abc\n  02:45:00.000 INFO  MCP tool response',
+		])
+
+		expect(await run(['my-plugin', '--timeline'])).toBe(1)
+		expect(errors[0]).toBe('Error: --timeline requires --cid')
+	})
+
+	test('merges repeated --log-file names by time', async () => {
+		writeFileSync(
+			join(logDir, 'my-plugin-mcp.jsonl'),
+			`${JSON.stringify({
+				'@timestamp': '2024-01-01T01:00:00.000Z',
+				level: 'INFO',
+				message: 'MCP tool request',
+				logger: 'my-plugin.mcp',
+				properties: {},
+			})}\n`,
+		)
+
+		await run(['my-plugin', '--log-file', 'my-plugin', '--log-file', 'my-plugin-mcp'])
+		expect(output).toEqual([
+			'2024-01-01T00:00:00.000Z INFO  my-plugin.scraper scrape started',
+			'2024-01-01T01:00:00.000Z INFO  my-plugin.mcp MCP tool request',
+			'2024-01-01T02:30:00.000Z ERROR my-plugin.auth token expired',
+		])
+
+		output = []
+		await run(['my-plugin', '--log-file', 'my-plugin-mcp'])
+		expect(output).toHaveLength(1)
+	})
+
+	test('prints usage with --help', async () => {
+		expect(await run(['--help'])).toBe(0)
+		expect(output).toEqual([LOGS_CLI_USAGE])
+	})
+
+	test('rejects invalid arguments', async () => {
+		expect(await run([])).toBe(1)
+		expect(errors[0]).toBe('Error: Missing plugin name')
+
+		expect(await run(['my-plugin', '--level', 'loud'])).toBe(1)
+		expect(await run(['my-plugin', '--since', 'soon'])).toBe(1)
+		expect(await run(['my-plugin', '--format', 'xml'])).toBe(1)
+		expect(await run(['my-plugin', '--limit', '-1'])).toBe(1)
+		expect(output).toEqual([])
+	})
+})
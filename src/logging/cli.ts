@@ -0,0 +1,218 @@
+/**
+ * Log query CLI.
+ *
+ * Command-line front end for `queryLogs`, replacing ad-hoc `jq` pipelines
+ * over several rotated files when debugging plugin incidents. Plugins expose
+ * it from a script:
+ *
+ * ```bash
+ * bun scripts/logs.ts my-plugin --level warning --subsystem scraper --since 2h
+ * ```
+ */
+
+import {
+	getStringFlag,
+	parseArgs,
+	parseCommaSeparatedList,
+} from '../cli/index.ts'
+import { supportsColor } from '../terminal/index.ts'
+import type { LogLevel } from './config.ts'
+import {
+	formatLogEntry,
+	type LogEntry,
+	type LogOutputFormat,
+	queryLogs,
+} from './reader.ts'
+import { formatTimeline, reconstructTimeline } from './timeline.ts'
+
+/** Usage text printed by `--help` and on invalid arguments */
+export const LOGS_CLI_USAGE = `Usage: logs <plugin> [options]
+
+Options:
+  --level <level>       Minimum level: debug, info, warning, error
+  --subsystem <names>   Subsystem categories (comma-separated or repeated)
+  --cid <id>            Correlation ID (matches cid, parentCid, sessionCid)
+  --timeline            Render the --cid timeline as an indented tree
+  --since <time>        ISO timestamp or relative duration (30s, 15m, 2h, 7d)
+  --until <time>        ISO timestamp or relative duration
+  --limit <n>           Show only the last n matching entries
+  --format <format>     Output format: pretty (default) or jsonl
+  --log-dir <dir>       Log directory (default: ~/.claude/logs)
+  --log-file <name>     Log file name without extension (repeatable;
+                        default: plugin, or every plugin* file for
+                        --timeline)
+  --help                Show this help`
+
+/** Levels accepted by `--level` */
+const LEVELS: readonly LogLevel[] = ['debug', 'info', 'warning', 'error']
+
+/** Milliseconds per relative duration unit */
+const DURATION_UNITS: Record<string, number> = {
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Options for running the log query CLI.
+ */
+export interface LogsCliOptions {
+	/** Write a line of output (default: stdout) */
+	write?: (line: string) => void
+	/** Write a line of error output (default: stderr) */
+	writeError?: (line: string) => void
+	/** Current time in milliseconds, for relative durations (default: Date.now()) */
+	now?: number
+	/** Colorize pretty output (default: when stdout supports color) */
+	color?: boolean
+}
+
+/**
+ * Parse a `--since`/`--until` value.
+ *
+ * @param value - ISO timestamp or relative duration ("15m", "2h", "7d")
+ * @param now - Reference time for relative durations
+ * @returns Epoch milliseconds, or undefined when the value is invalid
+ *
+ * @example
+ * ```typescript
+ * parseTimeArg("2h", Date.now()); // two hours ago
+ * parseTimeArg("2024-01-01T00:00:00Z", Date.now()); // 1704067200000
+ * ```
+ */
+export function parseTimeArg(value: string, now: number): number | undefined {
+	const relative = /^(\d+)([smhd])$/.exec(value.trim())
+	if (relative) {
+		return now - Number(relative[1]) * DURATION_UNITS[relative[2]!]!
+	}
+	const parsed = Date.parse(value)
+	return Number.isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * Run the log query CLI.
+ *
+ * @param argv - Arguments after the script name
+ * @param options - Output sinks and clock overrides (for tests)
+ * @returns Process exit code (0 on success, 1 on invalid arguments)
+ *
+ * @example
+ * ```typescript
+ * // scripts/logs.ts in a plugin
+ * import { runLogsCli } from "@side-quest/core/logging";
+ *
+ * process.exit(await runLogsCli(Bun.argv.slice(2)));
+ * ```
+ */
+export async function runLogsCli(
+	argv: string[],
+	options: LogsCliOptions = {},
+): Promise<number> {
+	const {
+		write = (line) => process.stdout.write(`${line}\n`),
+		writeError = (line) => process.stderr.write(`${line}\n`),
+		now = Date.now(),
+		color = supportsColor(),
+	} = options
+
+	const { command: name, flags } = parseArgs(argv)
+	if (flags.help) {
+		write(LOGS_CLI_USAGE)
+		return 0
+	}
+
+	const fail = (message: string): number => {
+		writeError(`Error: ${message}`)
+		writeError(LOGS_CLI_USAGE)
+		return 1
+	}
+
+	if (!name) {
+		return fail('Missing plugin name')
+	}
+
+	const level = getStringFlag(flags, 'level')
+	if (level !== undefined && !LEVELS.includes(level as LogLevel)) {
+		return fail(`Invalid --level "${level}"`)
+	}
+
+	const format = getStringFlag(flags, 'format') ?? 'pretty'
+	if (format !== 'pretty' && format !== 'jsonl') {
+		return fail(`Invalid --format "${format}"`)
+	}
+
+	const times: { since?: number; until?: number } = {}
+	for (const key of ['since', 'until'] as const) {
+		const raw = getStringFlag(flags, key)
+		if (raw === undefined) continue
+		const parsed = parseTimeArg(raw, now)
+		if (parsed === undefined) {
+			return fail(`Invalid --${key} "${raw}"`)
+		}
+		times[key] = parsed
+	}
+
+	const rawLimit = getStringFlag(flags, 'limit')
+	const limit = rawLimit === undefined ? undefined : Number(rawLimit)
+	if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+		return fail(`Invalid --limit "${rawLimit}"`)
+	}
+
+	const subsystemFlag = flags.subsystem
+	const subsystems = (
+		Array.isArray(subsystemFlag) ? subsystemFlag : [subsystemFlag]
+	).flatMap((value) =>
+		parseCommaSeparatedList(typeof value === 'string' ? value : undefined),
+	)
+
+	const logFileFlag = flags['log-file']
+	const logFileNames = (
+		Array.isArray(logFileFlag) ? logFileFlag : [logFileFlag]
+	).filter((value): value is string => typeof value === 'string')
+
+	const cid = getStringFlag(flags, 'cid')
+	const logDir = getStringFlag(flags, 'log-dir')
+
+	if (flags.timeline) {
+		if (!cid) {
+			return fail('--timeline requires --cid')
+		}
+		const timeline = await reconstructTimeline({
+			name,
+			cid,
+			logDir,
+			logFileNames: logFileNames.length > 0 ? logFileNames : undefined,
+			...times,
+		})
+		write(formatTimeline(timeline, { color }))
+		return 0
+	}
+
+	const entries: LogEntry[] = []
+	for (const logFileName of logFileNames.length > 0 ? logFileNames : [name]) {
+		entries.push(
+			...(await queryLogs({
+				name,
+				logDir,
+				logFileName,
+				level: level as LogLevel | undefined,
+				subsystems,
+				cid,
+				...times,
+			})),
+		)
+	}
+	if (logFileNames.length > 1) {
+		// Interleave entries from several files by time (stable within a file)
+		entries.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+	}
+	if (limit !== undefined) {
+		entries.splice(0, Math.max(0, entries.length - limit))
+	}
+
+	for (const entry of entries) {
+		write(formatLogEntry(entry, { format: format as LogOutputFormat, color }))
+	}
+	return 0
+}
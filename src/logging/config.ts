@@ -4,6 +4,12 @@
  * These values can be overridden when creating a plugin logger.
  */
 
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+
+/** Default centralized log directory for all plugins */
+export const DEFAULT_LOG_DIR: string = join(homedir(), '.claude', 'logs')
+
 /** Maximum log file size before rotation (1 MiB) */
 export const DEFAULT_MAX_SIZE: number = 0x400 * 0x400
 
@@ -1,4 +1,8 @@
 import { describe, expect, test } from 'bun:test'
+import { readFileSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { getConfig } from '@logtape/logtape'
+import { createTempDir } from '../fs/index.ts'
 import { createPluginLogger } from './factory'
 
 describe('createPluginLogger', () => {
@@ -9,6 +13,7 @@ describe('createPluginLogger', () => {
 		})
 
 		expect(typeof logger.initLogger).toBe('function')
+		expect(typeof logger.flush).toBe('function')
 		expect(typeof logger.createCorrelationId).toBe('function')
 		expect(typeof logger.getSubsystemLogger).toBe('function')
 		expect(typeof logger.rootLogger).toBe('object')
@@ -82,4 +87,25 @@ describe('createPluginLogger', () => {
 		expect(unknownLogger).toBeDefined()
 		expect(typeof unknownLogger.info).toBe('function')
 	})
+
+	test('initLogger configures logging again after flush', async () => {
+		const logDir = createTempDir('plugin-logger-test-')
+		const logger = createPluginLogger({ name: 'flush-plugin', logDir })
+		try {
+			await logger.initLogger()
+			logger.rootLogger.info('before flush')
+			await logger.flush()
+			expect(getConfig()).toBeNull()
+
+			await logger.initLogger()
+			logger.rootLogger.info('after flush')
+			await logger.flush()
+
+			const log = readFileSync(join(logDir, 'flush-plugin.jsonl'), 'utf8')
+			expect(log).toContain('before flush')
+			expect(log).toContain('after flush')
+		} finally {
+			rmSync(logDir, { recursive: true, force: true })
+		}
+	})
 })
@@ -8,7 +8,6 @@
  */
 
 import { existsSync, mkdirSync } from 'node:fs'
-import { homedir } from 'node:os'
 import { join } from 'node:path'
 import { getRotatingFileSink } from '@logtape/file'
 import {
@@ -16,8 +15,10 @@ import {
 	getLogger,
 	jsonLinesFormatter,
 	type Logger,
+	reset,
 } from '@logtape/logtape'
 import {
+	DEFAULT_LOG_DIR,
 	DEFAULT_LOG_EXTENSION,
 	DEFAULT_LOG_LEVEL,
 	DEFAULT_MAX_FILES,
@@ -25,9 +26,8 @@ import {
 	type LogLevel,
 } from './config.ts'
 import { createCorrelationId } from './correlation.ts'
-
-/** Default centralized log directory for all plugins */
-const DEFAULT_LOG_DIR = join(homedir(), '.claude', 'logs')
+import { type RedactionOptions, redactSink } from './redaction.ts'
+import { type LogSamplingOptions, sampleSink } from './sampling.ts'
 
 /**
  * Options for creating a plugin logger.
@@ -70,6 +70,22 @@ export interface PluginLoggerOptions {
 	 * Lowest log level to capture. Defaults to "debug".
 	 */
 	lowestLevel?: LogLevel
+
+	/**
+	 * Redaction applied before records reach the log file.
+	 * Defaults to masking OAuth tokens, secrets, JWTs, bearer tokens, and
+	 * email addresses. Pass `false` to disable.
+	 */
+	redaction?: RedactionOptions | false
+
+	/**
+	 * Sampling, per-category rate limiting, and deduplication for
+	 * high-volume categories. Suppressed counts are logged periodically.
+	 * Disabled by default.
+	 *
+	 * @example { ratios: { "my-plugin.walker": 0.1 }, dedupe: { first: 5, every: 100 } }
+	 */
+	sampling?: LogSamplingOptions
 }
 
 /**
@@ -82,6 +98,13 @@ export interface PluginLogger {
 	 */
 	initLogger: () => Promise<void>
 
+	/**
+	 * Flush buffered records to the log file and close it.
+	 * Call before process exit; logging stops until `initLogger` runs again.
+	 * No-op when this logger did not configure LogTape.
+	 */
+	flush: () => Promise<void>
+
 	/**
 	 * Generate a correlation ID for request tracing.
 	 */
@@ -152,11 +175,15 @@ export function createPluginLogger(options: PluginLoggerOptions): PluginLogger {
 		maxSize = DEFAULT_MAX_SIZE,
 		maxFiles = DEFAULT_MAX_FILES,
 		lowestLevel = DEFAULT_LOG_LEVEL,
+		redaction = {},
+		sampling,
 	} = options
 
 	const logFile = join(logDir, `${logFileName}${DEFAULT_LOG_EXTENSION}`)
 
 	let isInitialized = false
+	// Whether this logger's configure() call owns the LogTape config
+	let ownsConfig = false
 
 	/**
 	 * Initialize the logging system.
@@ -175,16 +202,23 @@ export function createPluginLogger(options: PluginLoggerOptions): PluginLogger {
 		// Multiple plugins calling configure() will merge their configs
 		const sinkName = `file_${name}`
 
+		const fileSink = getRotatingFileSink(logFile, {
+			formatter: jsonLinesFormatter,
+			maxSize,
+			maxFiles,
+			// @ts-expect-error - lazy option exists in newer versions
+			lazy: true,
+		})
+
+		// Sample first so dropped records are never redacted or written
+		const redactedSink =
+			redaction === false ? fileSink : redactSink(fileSink, redaction)
+		const sink = sampling ? sampleSink(redactedSink, sampling) : redactedSink
+
 		try {
 			await configure({
 				sinks: {
-					[sinkName]: getRotatingFileSink(logFile, {
-						formatter: jsonLinesFormatter,
-						maxSize,
-						maxFiles,
-						// @ts-expect-error - lazy option exists in newer versions
-						lazy: true,
-					}),
+					[sinkName]: sink,
 				},
 				loggers: [
 					{
@@ -215,6 +249,8 @@ export function createPluginLogger(options: PluginLoggerOptions): PluginLogger {
 			throw error
 		}
 
+		ownsConfig = true
+
 		// Log initialization
 		const startupLogger = getLogger([name])
 		startupLogger.info('Logging initialized', {
@@ -228,6 +264,14 @@ export function createPluginLogger(options: PluginLoggerOptions): PluginLogger {
 		isInitialized = true
 	}
 
+	async function flush(): Promise<void> {
+		if (!ownsConfig) return
+		ownsConfig = false
+		isInitialized = false
+		// reset() also clears the config, so initLogger() can configure again
+		await reset()
+	}
+
 	// Create root logger
 	const rootLogger = getLogger([name])
 
@@ -244,6 +288,7 @@ export function createPluginLogger(options: PluginLoggerOptions): PluginLogger {
 
 	return {
 		initLogger,
+		flush,
 		createCorrelationId,
 		rootLogger,
 		getSubsystemLogger,
@@ -8,6 +8,10 @@
  * - Automatic file rotation (1MB default, 5 files)
  * - Hierarchical categories for subsystem filtering
  * - Correlation IDs for request tracing
+ * - Log reader and `logs` CLI for querying rotated JSONL files
+ * - Correlation-ID timelines rebuilt from logs as an indented tree
+ * - Redaction of secrets and PII before records reach the log file
+ * - Sampling, rate limiting, and deduplication for high-volume categories
  *
  * @example
  * ```typescript
@@ -24,12 +28,22 @@
  * // Use loggers
  * rootLogger.info("Plugin started");
  * subsystemLoggers.api.debug("Request received", { endpoint: "/health" });
+ *
+ * // Read logs back (follows my-plugin.jsonl.N … my-plugin.jsonl)
+ * const errors = await queryLogs({ name: "my-plugin", level: "error" });
  * ```
  *
  * @packageDocumentation
  */
 
 export {
+	LOGS_CLI_USAGE,
+	type LogsCliOptions,
+	parseTimeArg,
+	runLogsCli,
+} from './cli.ts'
+export {
+	DEFAULT_LOG_DIR,
 	DEFAULT_LOG_EXTENSION,
 	DEFAULT_LOG_LEVEL,
 	DEFAULT_MAX_FILES,
@@ -51,3 +65,42 @@ export {
 	type PerformanceSummary,
 	resetGlobalMetricsCollector,
 } from './metrics.ts'
+export {
+	type FormatLogEntryOptions,
+	findLogFileNames,
+	formatLogEntry,
+	getLogFiles,
+	type LogEntry,
+	type LogEntryLevel,
+	type LogFilter,
+	type LogOutputFormat,
+	type LogQueryOptions,
+	matchesLogFilter,
+	parseLogLine,
+	queryLogs,
+} from './reader.ts'
+export {
+	createRedactor,
+	DEFAULT_REDACT_KEYS,
+	DEFAULT_REDACT_PATTERNS,
+	REDACTED,
+	type RedactionOptions,
+	type Redactor,
+	redact,
+	redactSink,
+} from './redaction.ts'
+export {
+	type LogDedupe,
+	type LogRateLimit,
+	type LogSamplingOptions,
+	sampleSink,
+} from './sampling.ts'
+export {
+	buildTimeline,
+	type FormatTimelineOptions,
+	formatTimeline,
+	reconstructTimeline,
+	type Timeline,
+	type TimelineNode,
+	type TimelineOptions,
+} from './timeline.ts'
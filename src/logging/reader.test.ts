@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+	formatLogEntry,
+	getLogFiles,
+	type LogEntry,
+	matchesLogFilter,
+	parseLogLine,
+	queryLogs,
+} from './reader'
+
+function line(
+	timestamp: string,
+	level: string,
+	logger: string,
+	message: string,
+	properties: Record<string, unknown> = {},
+): string {
+	return JSON.stringify({
+		'@timestamp': timestamp,
+		level,
+		message,
+		logger,
+		properties,
+	})
+}
+
+describe('parseLogLine', () => {
+	test('parses LogTape JSON Lines records', () => {
+		const entry = parseLogLine(
+			line('2024-01-01T00:00:00.000Z', 'WARN', 'my-plugin.api', 'Slow', {
+				cid: 'a1b2c3d4',
+			}),
+		)
+
+		expect(entry).toMatchObject({
+			timestamp: '2024-01-01T00:00:00.000Z',
+			level: 'warning',
+			message: 'Slow',
+			logger: 'my-plugin.api',
+			properties: { cid: 'a1b2c3d4' },
+		})
+	})
+
+	test('skips blank and malformed lines', () => {
+		expect(parseLogLine('')).toBeUndefined()
+		expect(parseLogLine('{not json')).toBeUndefined()
+		expect(parseLogLine('{"message":"no timestamp"}')).toBeUndefined()
+		expect(parseLogLine('42')).toBeUndefined()
+	})
+})
+
+describe('matchesLogFilter', () => {
+	const entry = parseLogLine(
+		line('2024-01-01T12:00:00.000Z', 'INFO', 'my-plugin.scraper.gmail', 'Hi', {
+			cid: 'child',
+			parentCid: 'parent',
+			sessionCid: 'session',
+		}),
+	) as LogEntry
+
+	test('filters by minimum level', () => {
+		expect(matchesLogFilter(entry, { level: 'debug' }, 'my-plugin')).toBe(true)
+		expect(matchesLogFilter(entry, { level: 'info' }, 'my-plugin')).toBe(true)
+		expect(matchesLogFilter(entry, { level: 'warning' }, 'my-plugin')).toBe(false)
+	})
+
+	test('filters by subsystem including nested categories', () => {
+		expect(matchesLogFilter(entry, { subsystems: ['scraper'] }, 'my-plugin')).toBe(true)
+		expect(matchesLogFilter(entry, { subsystems: ['auth', 'scraper'] }, 'my-plugin')).toBe(true)
+		expect(matchesLogFilter(entry, { subsystems: ['scrap'] }, 'my-plugin')).toBe(false)
+	})
+
+	test('matches correlation ID against cid, parentCid and sessionCid', () => {
+		for (const cid of ['child', 'parent', 'session']) {
+			expect(matchesLogFilter(entry, { cid }, 'my-plugin')).toBe(true)
+		}
+		expect(matchesLogFilter(entry, { cid: 'other' }, 'my-plugin')).toBe(false)
+	})
+
+	test('filters by time range', () => {
+		const noon = Date.parse('2024-01-01T12:00:00.000Z')
+		expect(matchesLogFilter(entry, { since: noon, until: noon }, 'my-plugin')).toBe(true)
+		expect(matchesLogFilter(entry, { since: new Date(noon + 1) }, 'my-plugin')).toBe(false)
+		expect(matchesLogFilter(entry, { until: noon - 1 }, 'my-plugin')).toBe(false)
+	})
+})
+
+describe('queryLogs', () => {
+	let logDir: string
+
+	beforeEach(() => {
+		logDir = mkdtempSync(join(tmpdir(), 'log-reader-test-'))
+		writeFileSync(
+			join(logDir, 'my-plugin.jsonl.2'),
+			`${line('2024-01-01T00:00:00.000Z', 'INFO', 'my-plugin', 'first')}\n`,
+		)
+		writeFileSync(
+			join(logDir, 'my-plugin.jsonl.1'),
+			[
+				line('2024-01-01T01:00:00.000Z', 'ERROR', 'my-plugin.api', 'second', {
+					cid: 'abc',
+				}),
+				'garbage',
+			].join('\n'),
+		)
+		writeFileSync(
+			join(logDir, 'my-plugin.jsonl'),
+			`${line('2024-01-01T02:00:00.000Z', 'DEBUG', 'my-plugin.api', 'third', { cid: 'abc' })}\n`,
+		)
+		writeFileSync(join(logDir, 'other-plugin.jsonl'), '')
+	})
+
+	afterEach(() => {
+		rmSync(logDir, { recursive: true, force: true })
+	})
+
+	test('lists rotated files oldest first', async () => {
+		const files = await getLogFiles(join(logDir, 'my-plugin.jsonl'))
+		expect(files).toEqual([
+			join(logDir, 'my-plugin.jsonl.2'),
+			join(logDir, 'my-plugin.jsonl.1'),
+			join(logDir, 'my-plugin.jsonl'),
+		])
+	})
+
+	test('returns no files for a missing directory', async () => {
+		expect(await getLogFiles(join(logDir, 'missing', 'x.jsonl'))).toEqual([])
+	})
+
+	test('reads across rotated files in order', async () => {
+		const entries = await queryLogs({ name: 'my-plugin', logDir })
+		expect(entries.map((e) => e.message)).toEqual(['first', 'second', 'third'])
+	})
+
+	test('applies filters and limit', async () => {
+		const byCid = await queryLogs({ name: 'my-plugin', logDir, cid: 'abc' })
+		expect(byCid.map((e) => e.message)).toEqual(['second', 'third'])
+
+		const errors = await queryLogs({ name: 'my-plugin', logDir, level: 'error' })
+		expect(errors.map((e) => e.message)).toEqual(['second'])
+
+		const last = await queryLogs({ name: 'my-plugin', logDir, limit: 1 })
+		expect(last.map((e) => e.message)).toEqual(['third'])
+	})
+})
+
+describe('formatLogEntry', () => {
+	const raw = line('2024-01-01T00:00:00.000Z', 'WARN', 'my-plugin.api', 'Slow', {
+		cid: 'a1b2c3d4',
+		durationMs: 1200,
+	})
+	const entry = parseLogLine(raw) as LogEntry
+
+	test('renders pretty lines', () => {
+		expect(formatLogEntry(entry)).toBe(
+			'2024-01-01T00:00:00.000Z WARN  my-plugin.api Slow cid=a1b2c3d4 durationMs=1200',
+		)
+	})
+
+	test('renders raw JSONL', () => {
+		expect(formatLogEntry(entry, { format: 'jsonl' })).toBe(raw)
+	})
+
+	test('colorizes pretty output on request', () => {
+		expect(formatLogEntry(entry, { color: true })).toContain('\x1b[')
+	})
+})
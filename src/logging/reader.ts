@@ -0,0 +1,411 @@
+/**
+ * Plugin log reader.
+ *
+ * Reads the rotating JSONL files written by `createPluginLogger` back into
+ * structured entries, following rotated files (`<plugin>.jsonl.N` … `.1`,
+ * then `<plugin>.jsonl`) oldest first, with filtering by level, subsystem,
+ * correlation ID, and time range.
+ */
+
+import { basename, dirname, join } from 'node:path'
+import { pathExists, readDirAsync, readTextFile } from '../fs/index.ts'
+import { cyan, dim, gray, red, yellow } from '../terminal/index.ts'
+import {
+	DEFAULT_LOG_DIR,
+	DEFAULT_LOG_EXTENSION,
+	type LogLevel,
+} from './config.ts'
+
+/**
+ * Level of a log entry as read back from disk.
+ *
+ * Includes LogTape's `trace` and `fatal`, which plugins may emit even though
+ * they are outside the `LogLevel` conventions.
+ */
+export type LogEntryLevel = 'trace' | LogLevel | 'fatal'
+
+/**
+ * A single parsed log record.
+ */
+export interface LogEntry {
+	/** ISO 8601 timestamp */
+	timestamp: string
+	/** Normalized log level */
+	level: LogEntryLevel
+	/** Rendered log message */
+	message: string
+	/** Dot-separated logger category (e.g., "my-plugin.scraper") */
+	logger: string
+	/** Structured properties (cid, durationMs, etc.) */
+	properties: Record<string, unknown>
+	/** Original JSON line */
+	raw: string
+}
+
+/**
+ * Filters applied when querying logs. All filters must match.
+ */
+export interface LogFilter {
+	/** Minimum level to include */
+	level?: LogLevel
+	/**
+	 * Subsystem names to include (e.g., ["scraper", "auth"]).
+	 * Matches `<plugin>.<subsystem>` loggers and their children.
+	 */
+	subsystems?: string[]
+	/** Correlation ID matched against `cid`, `parentCid`, and `sessionCid` */
+	cid?: string
+	/** Include entries at or after this time */
+	since?: Date | number
+	/** Include entries at or before this time */
+	until?: Date | number
+}
+
+/**
+ * Options for querying a plugin's logs.
+ */
+export interface LogQueryOptions extends LogFilter {
+	/** Plugin name, as passed to `createPluginLogger` */
+	name: string
+	/** Log directory. Defaults to ~/.claude/logs/ */
+	logDir?: string
+	/** Log file name (without extension). Defaults to plugin name. */
+	logFileName?: string
+	/** Return only the last N matching entries */
+	limit?: number
+}
+
+/** Output format for rendered log entries */
+export type LogOutputFormat = 'pretty' | 'jsonl'
+
+/**
+ * Options for rendering log entries.
+ */
+export interface FormatLogEntryOptions {
+	/** Output format (default: "pretty") */
+	format?: LogOutputFormat
+	/** Colorize pretty output (default: false) */
+	color?: boolean
+}
+
+/** Level severity order, lowest first */
+const LEVEL_ORDER: readonly LogEntryLevel[] = [
+	'trace',
+	'debug',
+	'info',
+	'warning',
+	'error',
+	'fatal',
+]
+
+/**
+ * Normalize a LogTape JSON Lines level ("INFO", "WARN", ...).
+ */
+function normalizeLevel(level: unknown): LogEntryLevel | undefined {
+	if (typeof level !== 'string') return undefined
+	const lower = level.toLowerCase()
+	const normalized = lower === 'warn' ? 'warning' : lower
+	return LEVEL_ORDER.find((l) => l === normalized)
+}
+
+/**
+ * Convert a Date or epoch milliseconds to epoch milliseconds.
+ */
+function toEpochMs(value: Date | number): number {
+	return value instanceof Date ? value.getTime() : value
+}
+
+/**
+ * List a log file and its rotated siblings, oldest first.
+ *
+ * Rotation renames `<file>` to `<file>.1`, `<file>.1` to `<file>.2`, and so
+ * on, so higher suffixes are older. Files that do not exist are skipped.
+ *
+ * @param logFile - Path to the active log file (e.g., ~/.claude/logs/my-plugin.jsonl)
+ * @returns Existing files in chronological order
+ *
+ * @example
+ * ```typescript
+ * await getLogFiles("/home/me/.claude/logs/my-plugin.jsonl");
+ * // [".../my-plugin.jsonl.2", ".../my-plugin.jsonl.1", ".../my-plugin.jsonl"]
+ * ```
+ */
+export async function getLogFiles(logFile: string): Promise<string[]> {
+	const dir = dirname(logFile)
+	if (!(await pathExists(dir))) {
+		return []
+	}
+
+	const prefix = `${basename(logFile)}.`
+	const rotated = (await readDirAsync(dir))
+		.filter(
+			(entry) =>
+				entry.startsWith(prefix) && /^\d+$/.test(entry.slice(prefix.length)),
+		)
+		.map((entry) => ({
+			path: join(dir, entry),
+			index: Number(entry.slice(prefix.length)),
+		}))
+		.sort((a, b) => b.index - a.index)
+		.map((file) => file.path)
+
+	if (await pathExists(logFile)) {
+		rotated.push(logFile)
+	}
+	return rotated
+}
+
+/**
+ * List the log file names (without extension) written for a plugin.
+ *
+ * Matches `<name>*.jsonl` and rotated `<name>*.jsonl.N` files, so files
+ * from a custom `logFileName` (e.g. a separate MCP server log) are found
+ * even when only rotated copies remain.
+ *
+ * @param name - Plugin name, as passed to `createPluginLogger`
+ * @param logDir - Log directory (default: ~/.claude/logs/)
+ * @returns Log file names, sorted
+ *
+ * @example
+ * ```typescript
+ * await findLogFileNames("my-plugin");
+ * // ["my-plugin", "my-plugin-mcp"]
+ * ```
+ */
+export async function findLogFileNames(
+	name: string,
+	logDir: string = DEFAULT_LOG_DIR,
+): Promise<string[]> {
+	if (!(await pathExists(logDir))) {
+		return []
+	}
+
+	const names = new Set<string>()
+	for (const entry of await readDirAsync(logDir)) {
+		const end = entry.indexOf(DEFAULT_LOG_EXTENSION, name.length)
+		if (!entry.startsWith(name) || end === -1) continue
+		const suffix = entry.slice(end + DEFAULT_LOG_EXTENSION.length)
+		if (suffix === '' || /^\.\d+$/.test(suffix)) {
+			names.add(entry.slice(0, end))
+		}
+	}
+	return [...names].sort()
+}
+
+/**
+ * Parse one LogTape JSON Lines record.
+ *
+ * @param line - A single line from a log file
+ * @returns Parsed entry, or undefined for blank or malformed lines
+ *
+ * @example
+ * ```typescript
+ * parseLogLine('{"@timestamp":"2024-01-01T00:00:00.000Z","level":"WARN","message":"Slow","logger":"my-plugin.api","properties":{"cid":"a1b2c3d4"}}');
+ * // { timestamp: "2024-01-01T00:00:00.000Z", level: "warning", message: "Slow", logger: "my-plugin.api", ... }
+ * ```
+ */
+export function parseLogLine(line: string): LogEntry | undefined {
+	const raw = line.trim()
+	if (!raw) return undefined
+
+	let record: Record<string, unknown>
+	try {
+		record = JSON.parse(raw)
+	} catch {
+		return undefined
+	}
+	if (typeof record !== 'object' || record === null) return undefined
+
+	const timestamp = record['@timestamp']
+	const level = normalizeLevel(record.level)
+	if (typeof timestamp !== 'string' || !level) return undefined
+
+	const properties =
+		typeof record.properties === 'object' && record.properties !== null
+			? (record.properties as Record<string, unknown>)
+			: {}
+
+	return {
+		timestamp,
+		level,
+		message: typeof record.message === 'string' ? record.message : '',
+		logger: typeof record.logger === 'string' ? record.logger : '',
+		properties,
+		raw,
+	}
+}
+
+/**
+ * Check whether an entry matches a filter.
+ *
+ * @param entry - Parsed log entry
+ * @param filter - Filter criteria (all must match)
+ * @param pluginName - Plugin name used to resolve subsystem categories
+ * @returns True when the entry passes every filter
+ */
+export function matchesLogFilter(
+	entry: LogEntry,
+	filter: LogFilter,
+	pluginName: string,
+): boolean {
+	if (
+		filter.level &&
+		LEVEL_ORDER.indexOf(entry.level) < LEVEL_ORDER.indexOf(filter.level)
+	) {
+		return false
+	}
+
+	if (filter.subsystems && filter.subsystems.length > 0) {
+		const matchesSubsystem = filter.subsystems.some((subsystem) => {
+			const category = `${pluginName}.${subsystem}`
+			return (
+				entry.logger === category || entry.logger.startsWith(`${category}.`)
+			)
+		})
+		if (!matchesSubsystem) return false
+	}
+
+	if (filter.cid) {
+		const { cid, parentCid, sessionCid } = entry.properties
+		if (
+			cid !== filter.cid &&
+			parentCid !== filter.cid &&
+			sessionCid !== filter.cid
+		) {
+			return false
+		}
+	}
+
+	if (filter.since !== undefined || filter.until !== undefined) {
+		const time = Date.parse(entry.timestamp)
+		if (filter.since !== undefined && time < toEpochMs(filter.since)) {
+			return false
+		}
+		if (filter.until !== undefined && time > toEpochMs(filter.until)) {
+			return false
+		}
+	}
+
+	return true
+}
+
+/**
+ * Query a plugin's logs across its rotated JSONL files.
+ *
+ * Entries are returned in file order (oldest file first). Malformed lines
+ * are skipped.
+ *
+ * @param options - Plugin name, log location, filters, and limit
+ * @returns Matching entries, oldest first
+ *
+ * @example
+ * ```typescript
+ * import { queryLogs } from "@side-quest/core/logging";
+ *
+ * const errors = await queryLogs({
+ *   name: "my-plugin",
+ *   level: "error",
+ *   subsystems: ["scraper"],
+ *   since: Date.now() - 60 * 60 * 1000,
+ * });
+ *
+ * // Everything logged for one request
+ * const trail = await queryLogs({ name: "my-plugin", cid: "a1b2c3d4" });
+ * ```
+ */
+export async function queryLogs(options: LogQueryOptions): Promise<LogEntry[]> {
+	const {
+		name,
+		logDir = DEFAULT_LOG_DIR,
+		logFileName = name,
+		limit,
+		...filter
+	} = options
+	const logFile = join(logDir, `${logFileName}${DEFAULT_LOG_EXTENSION}`)
+
+	const entries: LogEntry[] = []
+	for (const file of await getLogFiles(logFile)) {
+		const content = await readTextFile(file)
+		for (const line of content.split('\n')) {
+			const entry = parseLogLine(line)
+			if (entry && matchesLogFilter(entry, filter, name)) {
+				entries.push(entry)
+			}
+		}
+	}
+
+	if (limit !== undefined && entries.length > limit) {
+		return entries.slice(entries.length - Math.max(0, limit))
+	}
+	return entries
+}
+
+/**
+ * Colorize a level label for pretty output.
+ */
+function colorLevel(level: LogEntryLevel, label: string): string {
+	switch (level) {
+		case 'fatal':
+		case 'error':
+			return red(label)
+		case 'warning':
+			return yellow(label)
+		case 'info':
+			return cyan(label)
+		default:
+			return gray(label)
+	}
+}
+
+/**
+ * Render a property value for pretty output.
+ */
+function formatPropertyValue(value: unknown): string {
+	return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * Render a log entry for terminal display or as raw JSONL.
+ *
+ * Pretty format: `<timestamp> <LEVEL> <logger> <message> key=value ...`.
+ * JSONL format returns the original line unchanged.
+ *
+ * @param entry - Parsed log entry
+ * @param options - Output format and colorization
+ * @returns Single-line rendering (without trailing newline)
+ *
+ * @example
+ * ```typescript
+ * formatLogEntry(entry);
+ * // "2024-01-01T00:00:00.000Z WARN  my-plugin.api Slow response cid=a1b2c3d4 durationMs=1200"
+ *
+ * formatLogEntry(entry, { format: "jsonl" }); // original JSON line
+ * ```
+ */
+export function formatLogEntry(
+	entry: LogEntry,
+	options: FormatLogEntryOptions = {},
+): string {
+	const { format = 'pretty', color = false } = options
+	if (format === 'jsonl') {
+		return entry.raw
+	}
+
+	const label = (
+		entry.level === 'warning' ? 'WARN' : entry.level.toUpperCase()
+	).padEnd(5)
+	const properties = Object.entries(entry.properties)
+		.map(([key, value]) => `${key}=${formatPropertyValue(value)}`)
+		.join(' ')
+
+	const parts = [
+		color ? dim(entry.timestamp) : entry.timestamp,
+		color ? colorLevel(entry.level, label) : label,
+		color ? dim(entry.logger) : entry.logger,
+		entry.message,
+	]
+	if (properties) {
+		parts.push(color ? gray(properties) : properties)
+	}
+	return parts.join(' ')
+}
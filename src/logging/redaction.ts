@@ -0,0 +1,225 @@
+/**
+ * Log redaction for secrets and PII.
+ *
+ * Masks sensitive values before they reach a log sink:
+ * - By key name: `access_token`, `client_secret`, `authorization`, ...
+ *   (case-insensitive, ignoring `_`/`-`, so `accessToken` matches too)
+ * - By value pattern: JWTs, bearer tokens, and email addresses, anywhere
+ *   inside strings
+ *
+ * Used by `createPluginLogger` (file sink) and `mcp-response` `log()`.
+ */
+
+import type { LogRecord, Sink } from '@logtape/logtape'
+
+/** Replacement text for redacted values */
+export const REDACTED = '[REDACTED]'
+
+/**
+ * Key names whose values are always redacted.
+ *
+ * Covers OAuth token file fields (`oauth/token-file`), credentials, and
+ * HTTP auth headers.
+ */
+export const DEFAULT_REDACT_KEYS: readonly string[] = [
+	'access_token',
+	'refresh_token',
+	'id_token',
+	'client_secret',
+	'authorization',
+	'password',
+	'passwd',
+	'secret',
+	'api_key',
+	'cookie',
+	'set_cookie',
+	'token',
+]
+
+/**
+ * Value patterns that are redacted wherever they appear in a string.
+ */
+export const DEFAULT_REDACT_PATTERNS: readonly RegExp[] = [
+	// JSON Web Tokens (header.payload.signature)
+	/\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g,
+	// Bearer tokens in Authorization-style strings
+	/\bBearer\s+[\w\-.~+/]+=*/gi,
+	// Email addresses
+	/\b[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}\b/g,
+]
+
+/**
+ * Redaction configuration.
+ */
+export interface RedactionOptions {
+	/**
+	 * Key names whose values are replaced entirely.
+	 * Defaults to `DEFAULT_REDACT_KEYS`; spread it to extend.
+	 */
+	keys?: readonly string[]
+
+	/**
+	 * Patterns replaced inside string values.
+	 * Defaults to `DEFAULT_REDACT_PATTERNS`; spread it to extend.
+	 * Patterns must use the `g` flag to replace every occurrence.
+	 */
+	patterns?: readonly RegExp[]
+
+	/** Replacement text (default: "[REDACTED]") */
+	replacement?: string
+}
+
+/** Deep-redacting function produced by `createRedactor` */
+export type Redactor = <T>(value: T) => T
+
+/**
+ * Normalize a key name for comparison (`Access-Token` → `accesstoken`).
+ */
+function normalizeKey(key: string): string {
+	return key.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Create a function that deep-copies values with sensitive data masked.
+ *
+ * Plain objects and arrays are copied recursively; values under sensitive
+ * keys are replaced; strings have sensitive patterns replaced; `Error`
+ * objects become `{ name, message, stack }` with redacted text. Other
+ * values (numbers, dates, class instances) are returned as-is.
+ *
+ * @param options - Keys, patterns, and replacement text
+ * @returns Redactor function
+ *
+ * @example
+ * ```typescript
+ * const redact = createRedactor({
+ *   keys: [...DEFAULT_REDACT_KEYS, "session_id"],
+ * });
+ *
+ * redact({ user: "nathan@example.com", session_id: "abc", count: 3 });
+ * // { user: "[REDACTED]", session_id: "[REDACTED]", count: 3 }
+ * ```
+ */
+export function createRedactor(options: RedactionOptions = {}): Redactor {
+	const keys = new Set(
+		(options.keys ?? DEFAULT_REDACT_KEYS).map((key) => normalizeKey(key)),
+	)
+	const patterns = options.patterns ?? DEFAULT_REDACT_PATTERNS
+	const replacement = options.replacement ?? REDACTED
+
+	const redactString = (value: string): string =>
+		patterns.reduce(
+			(result, pattern) => result.replace(pattern, replacement),
+			value,
+		)
+
+	const redactValue = (value: unknown, seen: WeakSet<object>): unknown => {
+		if (typeof value === 'string') {
+			return redactString(value)
+		}
+		if (typeof value !== 'object' || value === null) {
+			return value
+		}
+		if (seen.has(value)) {
+			return '[Circular]'
+		}
+
+		if (value instanceof Error) {
+			return {
+				name: value.name,
+				message: redactString(value.message),
+				...(value.stack && { stack: redactString(value.stack) }),
+			}
+		}
+
+		if (Array.isArray(value)) {
+			seen.add(value)
+			return value.map((item) => redactValue(item, seen))
+		}
+
+		const prototype = Object.getPrototypeOf(value)
+		if (prototype !== Object.prototype && prototype !== null) {
+			return value
+		}
+
+		seen.add(value)
+		const result: Record<string, unknown> = {}
+		for (const [key, nested] of Object.entries(value)) {
+			result[key] = keys.has(normalizeKey(key))
+				? replacement
+				: redactValue(nested, seen)
+		}
+		return result
+	}
+
+	return <T>(value: T): T => redactValue(value, new WeakSet()) as T
+}
+
+/** Redactor with default keys and patterns */
+const defaultRedactor = createRedactor()
+
+/**
+ * Redact a value using the default keys and patterns.
+ *
+ * @param value - Value to redact (not modified)
+ * @returns Redacted copy
+ *
+ * @example
+ * ```typescript
+ * redact({ access_token: "ya29.a0...", note: "Bearer abc.def" });
+ * // { access_token: "[REDACTED]", note: "[REDACTED]" }
+ * ```
+ */
+export function redact<T>(value: T): T {
+	return defaultRedactor(value)
+}
+
+/**
+ * Wrap a LogTape sink so records are redacted before they are written.
+ *
+ * Redacts message values, the raw message template, and properties.
+ * Disposal is forwarded to the wrapped sink so buffered file sinks still
+ * flush on shutdown.
+ *
+ * @param sink - Sink to protect
+ * @param options - Redaction configuration
+ * @returns Redacting sink
+ *
+ * @example
+ * ```typescript
+ * await configure({
+ *   sinks: { file: redactSink(getFileSink("app.jsonl")) },
+ *   loggers: [{ category: ["app"], sinks: ["file"] }],
+ * });
+ * ```
+ */
+export function redactSink(
+	sink: Sink,
+	options: RedactionOptions = {},
+): Sink & Partial<Disposable & AsyncDisposable> {
+	const redactor = createRedactor(options)
+
+	const wrapped: Sink & Partial<Disposable & AsyncDisposable> = (
+		record: LogRecord,
+	) => {
+		sink({
+			...record,
+			message: redactor([...record.message]),
+			rawMessage:
+				typeof record.rawMessage === 'string'
+					? redactor(record.rawMessage)
+					: record.rawMessage,
+			properties: redactor(record.properties),
+		})
+	}
+
+	const disposable = sink as Sink & Partial<Disposable & AsyncDisposable>
+	if (disposable[Symbol.dispose]) {
+		wrapped[Symbol.dispose] = () => disposable[Symbol.dispose]?.()
+	}
+	if (disposable[Symbol.asyncDispose]) {
+		wrapped[Symbol.asyncDispose] = () =>
+			disposable[Symbol.asyncDispose]?.() ?? Promise.resolve()
+	}
+	return wrapped
+}
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import type { LogLevel, LogRecord } from '@logtape/logtape'
+import { sampleSink } from './sampling'
+
+function createRecord(
+	category: string,
+	message = 'visited file',
+	level: LogLevel = 'debug',
+): LogRecord {
+	return {
+		category: category.split('.'),
+		level,
+		message: [message],
+		rawMessage: message,
+		timestamp: 0,
+		properties: {},
+	}
+}
+
+describe('sampleSink', () => {
+	let disposers: Array<() => void> = []
+
+	afterEach(() => {
+		for (const dispose of disposers) dispose()
+		disposers = []
+	})
+
+	function setup(options: Parameters<typeof sampleSink>[1]) {
+		const written: LogRecord[] = []
+		const sink = sampleSink((record) => written.push(record), options)
+		disposers.push(() => sink[Symbol.dispose]())
+		return { sink, written }
+	}
+
+	test('samples by category ratio using the longest matching key', () => {
+		const values = [0.05, 0.5, 0.05, 0.5]
+		const { sink, written } = setup({
+			ratios: { 'my-plugin': 1, 'my-plugin.walker': 0.1 },
+			random: () => values.shift() ?? 0,
+		})
+
+		for (let i = 0; i < 4; i++) sink(createRecord('my-plugin.walker.fs'))
+		sink(createRecord('my-plugin.api'))
+
+		expect(written.map((r) => r.category.join('.'))).toEqual([
+			'my-plugin.walker.fs',
+			'my-plugin.walker.fs',
+			'my-plugin.api',
+		])
+	})
+
+	test('caps each category with a token bucket', () => {
+		let time = 0
+		const { sink, written } = setup({
+			rateLimit: { capacity: 2, refillPerSecond: 1 },
+			now: () => time,
+		})
+
+		for (let i = 0; i < 5; i++) sink(createRecord('my-plugin.glob', `match ${i}`))
+		sink(createRecord('my-plugin.api'))
+		time = 1000
+		sink(createRecord('my-plugin.glob', 'after refill'))
+
+		expect(written.map((r) => r.message[0])).toEqual([
+			'match 0',
+			'match 1',
+			'visited file',
+			'after refill',
+		])
+	})
+
+	test('keeps the first N identical messages then every Mth', () => {
+		const { sink, written } = setup({ dedupe: { first: 2, every: 3 } })
+
+		for (let i = 0; i < 9; i++) sink(createRecord('my-plugin.walker'))
+		sink(createRecord('my-plugin.walker', 'different'))
+
+		// Occurrences 1, 2, then 5 and 8
+		expect(written).toHaveLength(5)
+		expect(written.at(-1)?.message).toEqual(['different'])
+	})
+
+	test('never drops records at or above the exempt level', () => {
+		const { sink, written } = setup({
+			ratios: { 'my-plugin': 0 },
+			exemptLevel: 'warning',
+		})
+
+		sink(createRecord('my-plugin', 'dropped', 'info'))
+		sink(createRecord('my-plugin', 'kept', 'warning'))
+		sink(createRecord('my-plugin', 'kept', 'error'))
+
+		expect(written.map((r) => r.level)).toEqual(['warning', 'error'])
+	})
+
+	test('writes suppressed-count summaries per category on disposal', () => {
+		const written: LogRecord[] = []
+		const sink = sampleSink((record) => written.push(record), {
+			ratios: { 'my-plugin.walker': 0 },
+			dedupe: { first: 1, every: 1000 },
+		})
+
+		sink(createRecord('my-plugin.walker'))
+		sink(createRecord('my-plugin.api'))
+		sink(createRecord('my-plugin.api'))
+		sink[Symbol.dispose]()
+
+		const summaries = written.filter((r) => r.properties.suppressed)
+		expect(summaries).toHaveLength(2)
+		expect(summaries[0]).toMatchObject({
+			category: ['my-plugin', 'walker'],
+			level: 'info',
+			message: ['Suppressed 1 log records'],
+			properties: { suppressed: 1, sampled: 1, rateLimited: 0, deduplicated: 0 },
+		})
+		expect(summaries[1]?.properties).toMatchObject({ deduplicated: 1 })
+	})
+
+	test('writes summaries at the configured interval', async () => {
+		const { sink, written } = setup({
+			ratios: { 'my-plugin': 0 },
+			summaryIntervalMs: 20,
+		})
+
+		sink(createRecord('my-plugin'))
+		await Bun.sleep(60)
+
+		expect(written[0]?.message).toEqual(['Suppressed 1 log records'])
+		expect(written).toHaveLength(1)
+	})
+
+	test('forwards disposal to the wrapped sink', () => {
+		let disposed = false
+		const inner = Object.assign(() => {}, {
+			[Symbol.dispose]: () => {
+				disposed = true
+			},
+		})
+
+		sampleSink(inner)[Symbol.dispose]()
+
+		expect(disposed).toBe(true)
+	})
+})
@@ -0,0 +1,256 @@
+/**
+ * Sampling and rate limiting for high-volume logging.
+ *
+ * Hot loops (file walks, glob scans) can flood the rotating log file and
+ * push out useful history. A sampling sink sits in front of the file sink
+ * and drops records by:
+ * - Per-category sampling ratios
+ * - A token-bucket cap per category
+ * - "First N, then every Mth" deduplication of identical messages
+ *
+ * Dropped records are counted and reported as periodic summary records so
+ * the log still shows that (and where) volume was suppressed.
+ */
+
+import type { LogRecord, Sink } from '@logtape/logtape'
+import type { LogLevel } from './config.ts'
+
+/**
+ * Token-bucket cap applied to each category separately.
+ */
+export interface LogRateLimit {
+	/** Maximum burst of records */
+	capacity: number
+	/** Records added back to the bucket per second */
+	refillPerSecond: number
+}
+
+/**
+ * Deduplication of identical messages within a summary interval.
+ */
+export interface LogDedupe {
+	/** Identical messages always written (default: 5) */
+	first?: number
+	/** After `first`, write every Mth occurrence (default: 100) */
+	every?: number
+}
+
+/**
+ * Sampling configuration.
+ */
+export interface LogSamplingOptions {
+	/**
+	 * Fraction of records to keep (0–1), keyed by dot-separated category.
+	 * Keys match the category and its children; the longest key wins.
+	 *
+	 * @example { "my-plugin.walker": 0.1, "my-plugin.glob": 0.01 }
+	 */
+	ratios?: Record<string, number>
+
+	/** Token-bucket cap per category */
+	rateLimit?: LogRateLimit
+
+	/** Deduplicate identical messages (category, level, and text) */
+	dedupe?: LogDedupe
+
+	/**
+	 * Records at or above this level are never dropped (default: "error").
+	 */
+	exemptLevel?: LogLevel
+
+	/** How often suppressed-count summaries are written (default: 60000 ms) */
+	summaryIntervalMs?: number
+
+	/** Random source for sampling, for tests (default: Math.random) */
+	random?: () => number
+
+	/** Clock in milliseconds, for tests (default: Date.now) */
+	now?: () => number
+}
+
+/**
+ * Suppressed counts for one category within a summary interval.
+ */
+interface SuppressedCounts {
+	sampled: number
+	rateLimited: number
+	deduplicated: number
+}
+
+/**
+ * Token bucket state for one category.
+ */
+interface Bucket {
+	tokens: number
+	updatedAt: number
+}
+
+/** Severity order of LogTape levels, lowest first */
+const LEVEL_ORDER = ['trace', 'debug', 'info', 'warning', 'error', 'fatal']
+
+/**
+ * Find the sampling ratio for a category (longest matching key).
+ */
+function findRatio(
+	ratios: Record<string, number>,
+	category: string,
+): number | undefined {
+	let match: string | undefined
+	for (const key of Object.keys(ratios)) {
+		const matches = category === key || category.startsWith(`${key}.`)
+		if (matches && (match === undefined || key.length > match.length)) {
+			match = key
+		}
+	}
+	return match === undefined ? undefined : ratios[match]
+}
+
+/**
+ * Wrap a LogTape sink with sampling, rate limiting, and deduplication.
+ *
+ * Suppressed counts are written as an `info` record per category
+ * ("Suppressed N log records") every `summaryIntervalMs`, and once more on
+ * disposal. The summary timer does not keep the process alive. Disposal is
+ * forwarded to the wrapped sink.
+ *
+ * @param sink - Sink to protect
+ * @param options - Sampling, rate limit, and dedupe configuration
+ * @returns Sampling sink
+ *
+ * @example
+ * ```typescript
+ * const sink = sampleSink(getFileSink("app.jsonl"), {
+ *   ratios: { "app.walker": 0.1 },
+ *   rateLimit: { capacity: 50, refillPerSecond: 10 },
+ *   dedupe: { first: 5, every: 100 },
+ * });
+ * ```
+ */
+export function sampleSink(
+	sink: Sink,
+	options: LogSamplingOptions = {},
+): Sink & Disposable & Partial<AsyncDisposable> {
+	const {
+		ratios = {},
+		rateLimit,
+		dedupe,
+		exemptLevel = 'error',
+		summaryIntervalMs = 60_000,
+		random = Math.random,
+		now = Date.now,
+	} = options
+	const dedupeFirst = dedupe?.first ?? 5
+	const dedupeEvery = Math.max(1, dedupe?.every ?? 100)
+	const exemptIndex = LEVEL_ORDER.indexOf(exemptLevel)
+
+	const buckets = new Map<string, Bucket>()
+	const occurrences = new Map<string, number>()
+	const suppressed = new Map<string, SuppressedCounts>()
+	let intervalStart = now()
+
+	const countSuppressed = (
+		category: string,
+		reason: keyof SuppressedCounts,
+	): void => {
+		const counts = suppressed.get(category) ?? {
+			sampled: 0,
+			rateLimited: 0,
+			deduplicated: 0,
+		}
+		counts[reason]++
+		suppressed.set(category, counts)
+	}
+
+	const takeToken = (category: string, limit: LogRateLimit): boolean => {
+		const time = now()
+		const bucket = buckets.get(category) ?? {
+			tokens: limit.capacity,
+			updatedAt: time,
+		}
+		const elapsedSeconds = (time - bucket.updatedAt) / 1000
+		bucket.tokens = Math.min(
+			limit.capacity,
+			bucket.tokens + elapsedSeconds * limit.refillPerSecond,
+		)
+		bucket.updatedAt = time
+		buckets.set(category, bucket)
+
+		if (bucket.tokens < 1) {
+			return false
+		}
+		bucket.tokens--
+		return true
+	}
+
+	const flushSummaries = (): void => {
+		const time = now()
+		for (const [category, counts] of suppressed) {
+			const total = counts.sampled + counts.rateLimited + counts.deduplicated
+			const message = `Suppressed ${total} log records`
+			sink({
+				category: category ? category.split('.') : [],
+				level: 'info',
+				message: [message],
+				rawMessage: message,
+				timestamp: time,
+				properties: {
+					suppressed: total,
+					...counts,
+					intervalMs: time - intervalStart,
+				},
+			})
+		}
+		suppressed.clear()
+		occurrences.clear()
+		intervalStart = time
+	}
+
+	const timer = setInterval(flushSummaries, summaryIntervalMs)
+	timer.unref?.()
+
+	const sampling: Sink & Disposable & Partial<AsyncDisposable> = (
+		record: LogRecord,
+	) => {
+		if (LEVEL_ORDER.indexOf(record.level) >= exemptIndex) {
+			sink(record)
+			return
+		}
+
+		const category = record.category.join('.')
+
+		if (dedupe) {
+			const key = `${category}\u0000${record.level}\u0000${record.message.map(String).join('')}`
+			const count = (occurrences.get(key) ?? 0) + 1
+			occurrences.set(key, count)
+			if (count > dedupeFirst && (count - dedupeFirst) % dedupeEvery !== 0) {
+				countSuppressed(category, 'deduplicated')
+				return
+			}
+		}
+
+		const ratio = findRatio(ratios, category)
+		if (ratio !== undefined && random() >= ratio) {
+			countSuppressed(category, 'sampled')
+			return
+		}
+
+		if (rateLimit && !takeToken(category, rateLimit)) {
+			countSuppressed(category, 'rateLimited')
+			return
+		}
+
+		sink(record)
+	}
+
+	const disposable = sink as Sink & Partial<Disposable & AsyncDisposable>
+	sampling[Symbol.dispose] = () => {
+		clearInterval(timer)
+		flushSummaries()
+		disposable[Symbol.dispose]?.()
+	}
+	if (disposable[Symbol.asyncDispose]) {
+		sampling[Symbol.asyncDispose] = () =>
+			disposable[Symbol.asyncDispose]?.() ?? Promise.resolve()
+	}
+	return sampling
+}
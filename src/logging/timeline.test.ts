@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, renameSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { type LogEntry, parseLogLine } from './reader'
+import { buildTimeline, formatTimeline, reconstructTimeline } from './timeline'
+
+function record(
+	time: string,
+	level: string,
+	logger: string,
+	message: string,
+	properties: Record<string, unknown>,
+): string {
+	return JSON.stringify({
+		'@timestamp': `2024-01-01T10:00:${time}Z`,
+		level,
+		message,
+		logger,
+		properties,
+	})
+}
+
+// MCP request → observed operation → nested operation, plus an unrelated request
+const LINES = [
+	record('00.000', 'INFO', 'my-plugin.mcp', 'MCP tool request', {
+		cid: 'req1',
+		tool: 'search_notes',
+		event: 'request',
+	}),
+	record('00.010', 'DEBUG', 'my-plugin.index', 'Opening index', {
+		cid: 'op1',
+		parentCid: 'req1',
+	}),
+	record('00.050', 'DEBUG', 'my-plugin.index', 'Reading shard', {
+		cid: 'op2',
+		parentCid: 'op1',
+	}),
+	record('00.060', 'INFO', 'my-plugin.index', 'index:shard succeeded', {
+		cid: 'op2',
+		parentCid: 'op1',
+		operation: 'index:shard',
+		durationMs: 10,
+	}),
+	record('00.080', 'ERROR', 'my-plugin.index', 'index:query failed', {
+		cid: 'op1',
+		parentCid: 'req1',
+		operation: 'index:query',
+		durationMs: 70,
+		error: 'Index locked',
+	}),
+	record('00.100', 'INFO', 'my-plugin.mcp', 'MCP tool request', {
+		cid: 'other',
+		tool: 'list_notes',
+	}),
+	record('00.120', 'ERROR', 'my-plugin.mcp', 'MCP tool response', {
+		cid: 'req1',
+		tool: 'search_notes',
+		event: 'error',
+		success: false,
+		durationMs: 120,
+		error: 'Index locked',
+	}),
+]
+
+const ENTRIES = LINES.map((line) => parseLogLine(line) as LogEntry)
+
+describe('buildTimeline', () => {
+	test('nests operations under their parents', () => {
+		const timeline = buildTimeline(ENTRIES, 'req1')
+
+		expect(timeline.entryCount).toBe(6)
+		expect(timeline.errorCount).toBe(2)
+		expect(timeline.roots).toHaveLength(1)
+
+		const [request] = timeline.roots
+		expect(request).toMatchObject({
+			cid: 'req1',
+			name: 'search_notes',
+			durationMs: 120,
+			success: false,
+			error: 'Index locked',
+		})
+
+		const [query] = request?.children ?? []
+		expect(query).toMatchObject({
+			cid: 'op1',
+			parentCid: 'req1',
+			name: 'index:query',
+			logger: 'my-plugin.index',
+			durationMs: 70,
+			success: false,
+		})
+		expect(query?.children.map((c) => [c.name, c.success])).toEqual([['index:shard', true]])
+	})
+
+	test('starts from a nested correlation ID', () => {
+		const timeline = buildTimeline(ENTRIES, 'op1')
+		expect(timeline.roots.map((r) => r.cid)).toEqual(['op1'])
+		expect(timeline.entryCount).toBe(4)
+	})
+
+	test('sorts entries from several files by time', () => {
+		const timeline = buildTimeline([...ENTRIES].reverse(), 'req1')
+		expect(timeline.roots[0]?.entries.map((e) => e.message)).toEqual([
+			'MCP tool request',
+			'MCP tool response',
+		])
+	})
+
+	test('collects every request in a session', () => {
+		const session = ['a', 'b'].map(
+			(cid, i) =>
+				parseLogLine(
+					record(`0${i}.000`, 'INFO', 'my-plugin', `request ${cid}`, {
+						cid,
+						sessionCid: 'sess',
+					}),
+				) as LogEntry,
+		)
+
+		const timeline = buildTimeline(session, 'sess')
+		expect(timeline.roots.map((r) => r.cid)).toEqual(['a', 'b'])
+	})
+
+	test('returns an empty timeline for unknown IDs', () => {
+		const timeline = buildTimeline(ENTRIES, 'missing')
+		expect(timeline.roots).toEqual([])
+		expect(formatTimeline(timeline)).toBe('No log entries found for correlation ID missing')
+	})
+})
+
+describe('formatTimeline', () => {
+	test('renders an indented tree in time order', () => {
+		expect(formatTimeline(buildTimeline(ENTRIES, 'req1'))).toBe(
+			[
+				'search_notes 120ms FAILED: Index locked [my-plugin.mcp] cid=req1',
+				'  10:00:00.000 INFO  MCP tool request',
+				'  index:query 70ms FAILED: Index locked [my-plugin.index] cid=op1',
+				'    10:00:00.010 DEBUG Opening index',
+				'    index:shard 10ms ok [my-plugin.index] cid=op2',
+				'      10:00:00.050 DEBUG Reading shard',
+				'      10:00:00.060 INFO  index:shard succeeded',
+				'    10:00:00.080 ERROR index:query failed',
+				'  10:00:00.120 ERROR MCP tool response',
+			].join('\n'),
+		)
+	})
+})
+
+describe('reconstructTimeline', () => {
+	let logDir: string
+
+	beforeEach(() => {
+		logDir = mkdtempSync(join(tmpdir(), 'timeline-test-'))
+		writeFileSync(join(logDir, 'my-plugin.jsonl.1'), LINES.slice(0, 4).join('\n'))
+		writeFileSync(join(logDir, 'my-plugin.jsonl'), LINES.slice(4, 6).join('\n'))
+		writeFileSync(join(logDir, 'my-plugin-mcp.jsonl'), LINES[6] ?? '')
+	})
+
+	afterEach(() => {
+		rmSync(logDir, { recursive: true, force: true })
+	})
+
+	test('merges rotated files and additional log files', async () => {
+		const timeline = await reconstructTimeline({
+			name: 'my-plugin',
+			cid: 'req1',
+			logDir,
+			logFileNames: ['my-plugin', 'my-plugin-mcp'],
+		})
+
+		expect(timeline.entryCount).toBe(6)
+		expect(timeline.roots[0]?.success).toBe(false)
+	})
+
+	test('reads only the requested log files', async () => {
+		const timeline = await reconstructTimeline({
+			name: 'my-plugin',
+			cid: 'req1',
+			logDir,
+			logFileNames: ['my-plugin'],
+		})
+
+		expect(timeline.entryCount).toBe(5)
+		expect(timeline.roots[0]?.children[0]?.name).toBe('index:query')
+	})
+
+	test('defaults to every log file for the plugin', async () => {
+		renameSync(join(logDir, 'my-plugin-mcp.jsonl'), join(logDir, 'my-plugin-mcp.jsonl.1'))
+		writeFileSync(join(logDir, 'other-plugin.jsonl'), LINES[0] ?? '')
+
+		const timeline = await reconstructTimeline({
+			name: 'my-plugin',
+			cid: 'req1',
+			logDir,
+		})
+
+		expect(timeline.entryCount).toBe(6)
+	})
+})
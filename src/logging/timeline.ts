@@ -0,0 +1,339 @@
+/**
+ * Correlation-ID timeline reconstruction.
+ *
+ * Rebuilds everything that happened for one correlation ID from plugin log
+ * files: the MCP request (`wrapToolHandler`, `log()`), the operations it
+ * started (`observeWithContext` stamps `cid`/`parentCid`), subsystem log
+ * lines, errors, and durations, as a tree ordered by time.
+ */
+
+import { cyan, dim, green, red } from '../terminal/index.ts'
+import {
+	findLogFileNames,
+	type LogEntry,
+	type LogQueryOptions,
+	queryLogs,
+} from './reader.ts'
+
+/**
+ * All log entries sharing one correlation ID, with nested operations.
+ */
+export interface TimelineNode {
+	/** Correlation ID of this operation */
+	cid: string
+	/** Parent correlation ID, when logged */
+	parentCid?: string
+	/** Operation name (`tool`, `operation`, or first message) */
+	name: string
+	/** Logger category of the first entry */
+	logger: string
+	/** Timestamp of the first entry */
+	startTime: string
+	/** Timestamp of the last entry */
+	endTime: string
+	/** Logged `durationMs`, falling back to the span between entries */
+	durationMs: number
+	/** False when any entry failed or logged at error level */
+	success: boolean
+	/** First logged error message */
+	error?: string
+	/** Entries for this correlation ID, oldest first */
+	entries: LogEntry[]
+	/** Operations started under this one, oldest first */
+	children: TimelineNode[]
+}
+
+/**
+ * Reconstructed timeline for a correlation ID.
+ */
+export interface Timeline {
+	/** Requested correlation ID */
+	cid: string
+	/** Top-level operations (usually one; several for a session ID) */
+	roots: TimelineNode[]
+	/** Number of entries in the timeline */
+	entryCount: number
+	/** Number of failed operations */
+	errorCount: number
+}
+
+/**
+ * Options for reconstructing a timeline from plugin logs.
+ */
+export interface TimelineOptions
+	extends Pick<LogQueryOptions, 'name' | 'logDir' | 'since' | 'until'> {
+	/** Correlation ID (request `cid` or `sessionCid`) */
+	cid: string
+	/**
+	 * Log file names (without extension) to search.
+	 * Defaults to every `<name>*` log file in the log directory.
+	 */
+	logFileNames?: string[]
+}
+
+/**
+ * Options for rendering a timeline.
+ */
+export interface FormatTimelineOptions {
+	/** Colorize output (default: false) */
+	color?: boolean
+}
+
+/**
+ * Read a string property from an entry.
+ */
+function stringProperty(entry: LogEntry, key: string): string | undefined {
+	const value = entry.properties[key]
+	return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Select entries belonging to a correlation ID or any descendant of it.
+ *
+ * Descendants are found by following `parentCid` links until no new
+ * correlation IDs are discovered.
+ */
+function collectRelated(entries: readonly LogEntry[], cid: string): LogEntry[] {
+	const cids = new Set([cid])
+	let grew = true
+	while (grew) {
+		grew = false
+		for (const entry of entries) {
+			const entryCid = stringProperty(entry, 'cid')
+			if (!entryCid || cids.has(entryCid)) continue
+			const parentCid = stringProperty(entry, 'parentCid')
+			const sessionCid = stringProperty(entry, 'sessionCid')
+			if (
+				(parentCid && cids.has(parentCid)) ||
+				(sessionCid && sessionCid === cid)
+			) {
+				cids.add(entryCid)
+				grew = true
+			}
+		}
+	}
+
+	return entries.filter((entry) => {
+		const entryCid = stringProperty(entry, 'cid')
+		return entryCid !== undefined && cids.has(entryCid)
+	})
+}
+
+/**
+ * Build a node from the entries of one correlation ID.
+ */
+function createNode(cid: string, entries: LogEntry[]): TimelineNode {
+	const first = entries[0]!
+	const last = entries[entries.length - 1]!
+
+	let durationMs: number | undefined
+	let success = true
+	let error: string | undefined
+	let parentCid: string | undefined
+	for (const entry of entries) {
+		const { properties } = entry
+		if (typeof properties.durationMs === 'number') {
+			durationMs = properties.durationMs
+		}
+		if (properties.success === false || entry.level === 'error') {
+			success = false
+			error ??= stringProperty(entry, 'error') ?? entry.message
+		}
+		parentCid ??= stringProperty(entry, 'parentCid')
+	}
+
+	const name =
+		entries
+			.map(
+				(entry) =>
+					stringProperty(entry, 'tool') ?? stringProperty(entry, 'operation'),
+			)
+			.find((value) => value !== undefined) ?? first.message
+
+	return {
+		cid,
+		...(parentCid && { parentCid }),
+		name,
+		logger: first.logger,
+		startTime: first.timestamp,
+		endTime: last.timestamp,
+		durationMs:
+			durationMs ?? Date.parse(last.timestamp) - Date.parse(first.timestamp),
+		success,
+		...(error !== undefined && { error }),
+		entries,
+		children: [],
+	}
+}
+
+/**
+ * Build a timeline tree for a correlation ID from parsed log entries.
+ *
+ * Includes entries whose `cid` is the requested ID, whose `parentCid`
+ * chain leads to it, or whose `sessionCid` is it. Entries from several
+ * files may be passed in any order; they are sorted by timestamp.
+ *
+ * @param entries - Parsed log entries
+ * @param cid - Correlation ID to reconstruct
+ * @returns Timeline with operations nested under their parents
+ *
+ * @example
+ * ```typescript
+ * const entries = await queryLogs({ name: "my-plugin" });
+ * const timeline = buildTimeline(entries, "a1b2c3d4");
+ * console.log(timeline.roots[0]?.name); // "search_notes"
+ * ```
+ */
+export function buildTimeline(
+	entries: readonly LogEntry[],
+	cid: string,
+): Timeline {
+	const related = collectRelated(entries, cid).sort(
+		(a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp),
+	)
+
+	const grouped = new Map<string, LogEntry[]>()
+	for (const entry of related) {
+		const entryCid = stringProperty(entry, 'cid')!
+		const group = grouped.get(entryCid) ?? []
+		group.push(entry)
+		grouped.set(entryCid, group)
+	}
+
+	const nodes = new Map<string, TimelineNode>()
+	for (const [nodeCid, group] of grouped) {
+		nodes.set(nodeCid, createNode(nodeCid, group))
+	}
+
+	const roots: TimelineNode[] = []
+	for (const node of nodes.values()) {
+		const parent =
+			node.cid !== cid && node.parentCid ? nodes.get(node.parentCid) : undefined
+		if (parent) {
+			parent.children.push(node)
+		} else {
+			roots.push(node)
+		}
+	}
+
+	return {
+		cid,
+		roots,
+		entryCount: related.length,
+		errorCount: [...nodes.values()].filter((node) => !node.success).length,
+	}
+}
+
+/**
+ * Reconstruct the timeline for a correlation ID from a plugin's log files.
+ *
+ * Reads every log file for the plugin (or the requested ones) and their
+ * rotated siblings, then builds the tree with {@link buildTimeline}.
+ *
+ * @param options - Plugin name, correlation ID, and log location
+ * @returns Timeline for the correlation ID (empty when nothing matched)
+ *
+ * @example
+ * ```typescript
+ * import { formatTimeline, reconstructTimeline } from "@side-quest/core/logging";
+ *
+ * const timeline = await reconstructTimeline({ name: "my-plugin", cid: "a1b2c3d4" });
+ * console.log(formatTimeline(timeline));
+ * ```
+ */
+export async function reconstructTimeline(
+	options: TimelineOptions,
+): Promise<Timeline> {
+	const { cid, logFileNames: requested, ...query } = options
+	const logFileNames =
+		requested ?? (await findLogFileNames(query.name, query.logDir))
+
+	const entries: LogEntry[] = []
+	for (const logFileName of logFileNames) {
+		entries.push(...(await queryLogs({ ...query, logFileName })))
+	}
+	return buildTimeline(entries, cid)
+}
+
+/**
+ * Extract the `HH:MM:SS.mmm` part of an ISO timestamp.
+ */
+function formatTime(timestamp: string): string {
+	return timestamp.slice(11, 23)
+}
+
+/**
+ * Render a node and its descendants as indented lines.
+ */
+function formatNode(
+	node: TimelineNode,
+	depth: number,
+	color: boolean,
+	lines: string[],
+): void {
+	const indent = '  '.repeat(depth)
+	const statusText = node.success ? 'ok' : `FAILED: ${node.error}`
+	const paint = node.success ? green : red
+	const status = color ? paint(statusText) : statusText
+	const name = color ? cyan(node.name) : node.name
+	const details = `[${node.logger}] cid=${node.cid}`
+
+	lines.push(
+		`${indent}${name} ${node.durationMs}ms ${status} ${color ? dim(details) : details}`,
+	)
+
+	// Interleave this node's entries and child operations by time
+	const items = [
+		...node.entries.map((entry) => ({ time: entry.timestamp, entry })),
+		...node.children.map((child) => ({ time: child.startTime, child })),
+	].sort((a, b) => Date.parse(a.time) - Date.parse(b.time))
+
+	for (const item of items) {
+		if ('child' in item) {
+			formatNode(item.child, depth + 1, color, lines)
+			continue
+		}
+		const { entry } = item
+		const level = (
+			entry.level === 'warning' ? 'WARN' : entry.level.toUpperCase()
+		).padEnd(5)
+		const text = `${formatTime(entry.timestamp)} ${level} ${entry.message}`
+		const isError = entry.level === 'error' || entry.level === 'fatal'
+		lines.push(`${indent}  ${color ? (isError ? red(text) : dim(text)) : text}`)
+	}
+}
+
+/**
+ * Render a timeline as an indented tree.
+ *
+ * Each operation shows its name, duration, status, logger, and correlation
+ * ID, followed by its log lines and nested operations in time order.
+ *
+ * @param timeline - Reconstructed timeline
+ * @param options - Colorization
+ * @returns Multi-line tree
+ *
+ * @example
+ * ```typescript
+ * console.log(formatTimeline(timeline));
+ * // search_notes 120ms FAILED: Index locked [my-plugin.mcp] cid=a1b2c3d4
+ * //   10:00:00.000 INFO  MCP tool request
+ * //   index:query 80ms FAILED: Index locked [my-plugin.index] cid=e5f6a7b8
+ * //     10:00:00.080 ERROR index:query failed
+ * //   10:00:00.120 ERROR MCP tool response
+ * ```
+ */
+export function formatTimeline(
+	timeline: Timeline,
+	options: FormatTimelineOptions = {},
+): string {
+	if (timeline.roots.length === 0) {
+		return `No log entries found for correlation ID ${timeline.cid}`
+	}
+
+	const lines: string[] = []
+	for (const root of timeline.roots) {
+		formatNode(root, 0, options.color ?? false, lines)
+	}
+	return lines.join('\n')
+}
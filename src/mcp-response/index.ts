@@ -12,6 +12,7 @@
  * - **formatError** - Format errors consistently
  * - **respondText** - Create success responses
  * - **respondError** - Create error responses with isError flag
+ * - **respondStructured** - Create responses with structuredContent and a text fallback
  *
  * ### Logging
  * - **log()** - Log MCP tool events with correlation IDs
@@ -128,6 +129,7 @@ export {
 	log,
 	type McpLogger,
 	setLogFile,
+	setLogRedaction,
 	setMcpLogger,
 	withLogFile,
 } from './logging'
@@ -135,9 +137,11 @@ export {
 	formatError,
 	type McpErrorResponse,
 	type McpResponse,
+	type McpStructuredResponse,
 	type McpTextContent,
 	parseResponseFormat,
 	ResponseFormat,
 	respondError,
+	respondStructured,
 	respondText,
 } from './response'
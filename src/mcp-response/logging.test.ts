@@ -5,6 +5,7 @@
  * - log() function with success and error cases
  * - withLogFile() function for JSON and Markdown formats
  * - Logger and log file configuration
+ * - Redaction of secrets and PII in log() entries
  */
 
 import { describe, expect, test } from 'bun:test'
@@ -14,12 +15,73 @@ import {
 	log,
 	type McpLogger,
 	setLogFile,
+	setLogRedaction,
 	setMcpLogger,
 	withLogFile,
 } from './logging'
 import { ResponseFormat } from './response'
 
 describe('MCP logging utilities', () => {
+	describe('setLogRedaction', () => {
+		const capture = () => {
+			const logged: Array<Record<string, unknown>> = []
+			setMcpLogger({
+				info: (_message, properties) => logged.push(properties),
+				error: (_message, properties) => logged.push(properties),
+			})
+			return logged
+		}
+
+		test('redacts secrets and PII by default', () => {
+			const logged = capture()
+
+			log({
+				cid: 'test-cid',
+				tool: 'auth_tool',
+				refresh_token: '1//0gAbCdEf',
+				headers: { Authorization: 'Bearer abc123' },
+				user: 'nathan@example.com',
+			})
+
+			expect(logged[0]).toMatchObject({
+				cid: 'test-cid',
+				tool: 'auth_tool',
+				refresh_token: '[REDACTED]',
+				headers: { Authorization: '[REDACTED]' },
+				user: '[REDACTED]',
+			})
+		})
+
+		test('redacts tokens in error messages and stacks', () => {
+			const logged = capture()
+
+			log({
+				cid: 'test-cid',
+				tool: 'auth_tool',
+				success: false,
+				error: new Error('Rejected header Bearer abc123'),
+			})
+
+			expect(logged[0]?.error).toBe('Rejected header [REDACTED]')
+			expect(String(logged[0]?.stack)).not.toContain('abc123')
+		})
+
+		test('can be customized and disabled', () => {
+			const logged = capture()
+
+			setLogRedaction({ keys: ['query'], replacement: '***' })
+			log({ cid: 'a', tool: 't', query: 'private', access_token: 'x' })
+
+			setLogRedaction(false)
+			log({ cid: 'b', tool: 't', access_token: 'x' })
+
+			setLogRedaction({})
+
+			expect(logged[0]).toMatchObject({ query: '***', access_token: 'x' })
+			expect(logged[1]).toMatchObject({ access_token: 'x' })
+		})
+	})
+
 	describe('setMcpLogger and log', () => {
 		test('logs success case to info', () => {
 			const logged: Array<{
@@ -9,6 +9,7 @@
  *
  * - **log()** - Log MCP tool events with correlation IDs
  * - **withLogFile()** - Inject log file path into responses
+ * - **setLogRedaction()** - Configure secret/PII masking for log() entries
  * - **LogEntry** - Structured log entry type for tool invocations
  *
  * ## Usage Example
@@ -70,6 +71,11 @@
  */
 
 import { categorizeError } from '../instrumentation/error-category.js'
+import {
+	createRedactor,
+	type RedactionOptions,
+	type Redactor,
+} from '../logging/redaction.js'
 import type { ResponseFormat } from './response'
 
 /**
@@ -126,6 +132,12 @@ let currentLogger: McpLogger | undefined
  */
 let currentLogFile: string | undefined
 
+/**
+ * Redactor applied to log() properties.
+ * Masks tokens, secrets, and emails by default; undefined when disabled.
+ */
+let currentRedactor: Redactor | undefined = createRedactor()
+
 /**
  * Set the MCP logger instance.
  *
@@ -164,6 +176,28 @@ export function setLogFile(logFile: string): void {
 	currentLogFile = logFile
 }
 
+/**
+ * Configure redaction for log() entries.
+ *
+ * Redaction is on by default, masking values under keys such as
+ * `access_token`, `client_secret`, and `authorization`, plus JWTs, bearer
+ * tokens, and email addresses inside strings (including error messages
+ * and stack traces).
+ *
+ * @param options - Redaction options, or `false` to disable redaction
+ *
+ * @example
+ * ```typescript
+ * import { DEFAULT_REDACT_KEYS } from "@side-quest/core/logging";
+ * import { setLogRedaction } from "@side-quest/core/mcp-response/logging";
+ *
+ * setLogRedaction({ keys: [...DEFAULT_REDACT_KEYS, "vault_key"] });
+ * ```
+ */
+export function setLogRedaction(options: RedactionOptions | false): void {
+	currentRedactor = options === false ? undefined : createRedactor(options)
+}
+
 /**
  * Get the current log file path.
  *
@@ -190,6 +224,8 @@ export function getLogFile(): string | undefined {
  * - errorCode: Specific error code for filtering/alerting
  * - stack: Stack trace (if Error object)
  *
+ * Properties are redacted before logging (see setLogRedaction).
+ *
  * @param entry - Log entry with tool invocation details
  *
  * @example
@@ -221,10 +257,13 @@ export function log(entry: LogEntry): void {
 
 	// Successful operation - log as info
 	if (success !== false) {
-		currentLogger.info('MCP tool response', {
-			...rest,
-			timestamp,
-		})
+		currentLogger.info(
+			'MCP tool response',
+			redactProperties({
+				...rest,
+				timestamp,
+			}),
+		)
 		return
 	}
 
@@ -246,7 +285,16 @@ export function log(entry: LogEntry): void {
 		properties.stack = error.stack
 	}
 
-	currentLogger.error('MCP tool response', properties)
+	currentLogger.error('MCP tool response', redactProperties(properties))
+}
+
+/**
+ * Apply the current redactor to log properties.
+ */
+function redactProperties(
+	properties: Record<string, unknown>,
+): Record<string, unknown> {
+	return currentRedactor ? currentRedactor(properties) : properties
 }
 
 /**
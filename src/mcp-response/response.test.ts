@@ -5,6 +5,7 @@ import {
 	parseResponseFormat,
 	ResponseFormat,
 	respondError,
+	respondStructured,
 	respondText,
 } from './response'
 
@@ -189,6 +190,28 @@ describe('respondError', () => {
 	})
 })
 
+describe('respondStructured', () => {
+	test('sets structuredContent with a JSON text fallback', () => {
+		const result = respondStructured(ResponseFormat.JSON, { count: 2 })
+
+		expect(result.structuredContent).toEqual({ count: 2 })
+		expect(result.content).toEqual([{ type: 'text', text: '{\n  "count": 2\n}' }])
+	})
+
+	test('fences the fallback as a JSON code block for markdown', () => {
+		const result = respondStructured(ResponseFormat.MARKDOWN, { count: 2 })
+
+		expect(result.content[0]?.text).toBe('```json\n{\n  "count": 2\n}\n```')
+	})
+
+	test('uses custom fallback text when provided', () => {
+		const result = respondStructured(ResponseFormat.MARKDOWN, { count: 2 }, '2 notes')
+
+		expect(result.content[0]?.text).toBe('2 notes')
+		expect(result.structuredContent).toEqual({ count: 2 })
+	})
+})
+
 describe('Integration scenarios', () => {
 	test('typical tool success flow', () => {
 		const format = parseResponseFormat('json')
@@ -108,6 +108,17 @@ export type McpErrorResponse = McpResponse & {
 	readonly isError: true
 }
 
+/**
+ * MCP structured response type.
+ *
+ * Response for tools with an output schema: the typed object as
+ * `structuredContent` plus a text rendering for clients that only read text.
+ */
+export type McpStructuredResponse<T extends Record<string, unknown>> =
+	McpResponse & {
+		readonly structuredContent: T
+	}
+
 /**
  * Create a successful text response.
  *
@@ -181,3 +192,39 @@ export function respondError(
 		],
 	}
 }
+
+/**
+ * Create a structured response for a tool with an output schema.
+ *
+ * Sets `structuredContent` to the data and adds a text fallback. Without
+ * explicit text, the data is rendered as pretty-printed JSON (fenced as a
+ * code block for Markdown).
+ *
+ * @param format - Output format for the text fallback (JSON or Markdown)
+ * @param data - Structured result matching the tool's output schema
+ * @param text - Optional custom text fallback
+ * @returns MCP structured response object
+ *
+ * @example
+ * ```typescript
+ * respondStructured(ResponseFormat.JSON, { count: 2 });
+ * // {
+ * //   content: [{ type: "text", text: '{\n  "count": 2\n}' }],
+ * //   structuredContent: { count: 2 }
+ * // }
+ * ```
+ */
+export function respondStructured<T extends Record<string, unknown>>(
+	format: ResponseFormat,
+	data: T,
+	text?: string,
+): McpStructuredResponse<T> {
+	const json = JSON.stringify(data, null, 2)
+	const fallback =
+		text ??
+		(format === ResponseFormat.JSON ? json : `\`\`\`json\n${json}\n\`\`\``)
+	return {
+		content: [{ type: 'text' as const, text: fallback }],
+		structuredContent: data,
+	}
+}
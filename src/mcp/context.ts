@@ -0,0 +1,239 @@
+/**
+ * Handler context for MCP tool calls.
+ *
+ * Extends the SDK's request extra with helpers for long-running tools:
+ * - `reportProgress` sends `notifications/progress` for the request's
+ *   progress token (a no-op when the client did not ask for progress)
+ * - `signal` (from the SDK) aborts when the client cancels the request;
+ *   pass it to `processInParallelChunks`, `walkDirectory`, and
+ *   `spawnWithTimeout` so the work actually stops
+ * - `elicit` asks the user to fill in a form described by a Zod shape
+ * - `sample` requests an LLM completion from the client
+ *
+ * `elicit` and `sample` check the client's capabilities first and resolve
+ * to an `unsupported` outcome instead of throwing when the client cannot
+ * handle the request, so tools can fall back to defaults.
+ *
+ * @module mcp/context
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { toJsonSchemaCompat } from '@modelcontextprotocol/sdk/server/zod-json-schema-compat.js'
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import type {
+	CreateMessageRequestParamsBase,
+	CreateMessageResult,
+	ElicitRequestFormParams,
+	ServerNotification,
+	ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js'
+import { type ZodRawShape, z } from 'zod'
+
+/** Request extra provided by the SDK to tool handlers */
+export type SdkToolExtra = RequestHandlerExtra<
+	ServerRequest,
+	ServerNotification
+>
+
+/**
+ * Result of `elicit`.
+ *
+ * - `accept`: the user submitted the form; `content` is parsed by the shape
+ * - `decline` / `cancel`: the user refused or dismissed the form
+ * - `unsupported`: the client does not support form elicitation
+ */
+export type ElicitOutcome<T> =
+	| { action: 'accept'; content: T }
+	| { action: 'decline' | 'cancel' | 'unsupported' }
+
+/**
+ * Sampling request: a single user prompt, or full `sampling/createMessage`
+ * params. `maxTokens` defaults to 1024.
+ */
+export type SampleRequest =
+	| string
+	| (Omit<CreateMessageRequestParamsBase, 'maxTokens'> & { maxTokens?: number })
+
+/**
+ * Result of `sample`.
+ *
+ * `text` is the completion's text content (empty for non-text content).
+ * `unsupported` means the client does not support sampling.
+ */
+export type SampleOutcome =
+	| { status: 'ok'; text: string; model: string; result: CreateMessageResult }
+	| { status: 'unsupported' }
+
+/**
+ * Context passed as the second argument to tool handlers.
+ *
+ * @example
+ * ```ts
+ * tool("index_notes", { inputSchema: { files: z.array(z.string()) } }, async ({ files }, ctx) => {
+ *   const paths = files as string[];
+ *   let done = 0;
+ *   await processInParallelChunks({
+ *     items: paths,
+ *     signal: ctx.signal,
+ *     processor: async (file) => {
+ *       await indexFile(file);
+ *       await ctx.reportProgress(++done, paths.length, file);
+ *     },
+ *   });
+ *   return { content: [{ type: "text", text: `Indexed ${done} files` }] };
+ * });
+ * ```
+ */
+export type ToolExtra = SdkToolExtra & {
+	/**
+	 * Report progress for this request.
+	 * Does nothing when the client did not send a progress token.
+	 *
+	 * @param done - Work completed so far (should increase on each call)
+	 * @param total - Total work, if known
+	 * @param message - Human-readable status
+	 */
+	reportProgress: (
+		done: number,
+		total?: number,
+		message?: string,
+	) => Promise<void>
+	/**
+	 * Ask the user to fill in a form.
+	 *
+	 * Fields are described by a Zod shape of primitives (strings, numbers,
+	 * booleans, enums); `.describe()` text is shown to the user. Accepted
+	 * content is parsed with the shape.
+	 *
+	 * @param message - Question shown to the user
+	 * @param shape - Form fields
+	 * @throws Error if accepted content does not match the shape
+	 *
+	 * @example
+	 * ```ts
+	 * const answer = await ctx.elicit("Which folder should I archive?", {
+	 *   folder: z.string().describe("Folder path"),
+	 *   dryRun: z.boolean().default(true),
+	 * });
+	 * if (answer.action !== "accept") return { content: [{ type: "text", text: "Skipped" }] };
+	 * ```
+	 */
+	elicit: <S extends ZodRawShape>(
+		message: string,
+		shape: S,
+	) => Promise<ElicitOutcome<z.infer<z.ZodObject<S>>>>
+	/**
+	 * Request an LLM completion from the client.
+	 *
+	 * @param request - Prompt text or full sampling params
+	 *
+	 * @example
+	 * ```ts
+	 * const summary = await ctx.sample(`Summarize:\n${note}`);
+	 * const text = summary.status === "ok" ? summary.text : note.slice(0, 200);
+	 * ```
+	 */
+	sample: (request: SampleRequest) => Promise<SampleOutcome>
+}
+
+/**
+ * Convert a Zod shape to an elicitation form schema.
+ */
+function toRequestedSchema(
+	shape: ZodRawShape,
+): ElicitRequestFormParams['requestedSchema'] {
+	const jsonSchema = toJsonSchemaCompat(z.object(shape)) as {
+		properties?: ElicitRequestFormParams['requestedSchema']['properties']
+		required?: string[]
+	}
+	return {
+		type: 'object',
+		properties: jsonSchema.properties ?? {},
+		...(jsonSchema.required?.length && { required: jsonSchema.required }),
+	}
+}
+
+/**
+ * Build the tool handler context from the SDK request extra.
+ *
+ * @param extra - Request extra from the SDK
+ * @param server - Server handling the request, used for client capabilities
+ *   and client requests (elicitation and sampling report `unsupported`
+ *   without it)
+ * @returns Extra with `reportProgress`, `elicit`, and `sample` added
+ */
+export function createToolExtra(
+	extra: SdkToolExtra,
+	server?: Server,
+): ToolExtra {
+	const progressToken = extra._meta?.progressToken
+	// Tie client requests to this call so they share its stream and cancellation
+	const requestOptions = {
+		relatedRequestId: extra.requestId,
+		signal: extra.signal,
+	}
+
+	return {
+		...extra,
+		reportProgress: async (done, total, message) => {
+			if (progressToken === undefined) {
+				return
+			}
+			await extra.sendNotification({
+				method: 'notifications/progress',
+				params: {
+					progressToken,
+					progress: done,
+					...(total !== undefined && { total }),
+					...(message !== undefined && { message }),
+				},
+			})
+		},
+		elicit: async (message, shape) => {
+			if (!server?.getClientCapabilities()?.elicitation?.form) {
+				return { action: 'unsupported' }
+			}
+			const result = await server.elicitInput(
+				{ mode: 'form', message, requestedSchema: toRequestedSchema(shape) },
+				requestOptions,
+			)
+			if (result.action !== 'accept') {
+				return { action: result.action }
+			}
+			const parsed = z.object(shape).safeParse(result.content ?? {})
+			if (!parsed.success) {
+				const issue = parsed.error.issues[0]
+				throw new Error(
+					`Invalid elicitation response: ${issue?.path.join('.')}: ${issue?.message}`,
+				)
+			}
+			return { action: 'accept', content: parsed.data }
+		},
+		sample: async (request) => {
+			if (!server?.getClientCapabilities()?.sampling) {
+				return { status: 'unsupported' }
+			}
+			const params =
+				typeof request === 'string'
+					? {
+							messages: [
+								{
+									role: 'user' as const,
+									content: { type: 'text' as const, text: request },
+								},
+							],
+						}
+					: request
+			const result = await server.createMessage(
+				{ ...params, maxTokens: params.maxTokens ?? 1024 },
+				requestOptions,
+			)
+			return {
+				status: 'ok',
+				text: result.content.type === 'text' ? result.content.text : '',
+				model: result.model,
+				result,
+			}
+		},
+	}
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { symlinkSync } from 'node:fs'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type {
+	ReadResourceCallback,
+	ReadResourceTemplateCallback,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js'
+import { createTempDir, ensureDirSync, removeDirSync, writeTextFileSync } from '../fs/index.ts'
+import { createFileResource, createGlobResource, getMimeType } from './file-resource'
+
+const extra = {} as Parameters<ReadResourceCallback>[1]
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+	const deadline = Date.now() + timeoutMs
+	while (!check()) {
+		if (Date.now() > deadline) throw new Error('Timed out waiting for condition')
+		await Bun.sleep(10)
+	}
+}
+
+describe('getMimeType', () => {
+	test('maps extensions through the syntax language table', () => {
+		expect(getMimeType('notes/today.md')).toBe('text/markdown')
+		expect(getMimeType('config.json')).toBe('application/json')
+		expect(getMimeType('main.rs')).toBe('text/x-rust')
+		expect(getMimeType('README')).toBe('text/plain')
+	})
+})
+
+describe('file resources', () => {
+	let dir: string
+	let stops: Array<() => void> = []
+
+	beforeEach(() => {
+		dir = createTempDir('file-resource-test')
+	})
+
+	afterEach(() => {
+		for (const stop of stops) stop()
+		stops = []
+		removeDirSync(dir, { recursive: true })
+	})
+
+	test('createFileResource reads the file with a derived MIME type', async () => {
+		const file = path.join(dir, 'todo.md')
+		writeTextFileSync(file, '- [ ] ship')
+
+		const resource = createFileResource(file, { description: 'Tasks' })
+		const uri = pathToFileURL(file)
+		const result = await (resource.readCallback as ReadResourceCallback)(uri, extra)
+
+		expect(resource.uriOrTemplate).toBe(uri.href)
+		expect(resource.metadata).toEqual({ description: 'Tasks', mimeType: 'text/markdown' })
+		expect(result.contents).toEqual([
+			{ uri: uri.href, mimeType: 'text/markdown', text: '- [ ] ship' },
+		])
+	})
+
+	test('createFileResource reports changes to the watched file only', async () => {
+		const file = path.join(dir, 'todo.md')
+		writeTextFileSync(file, 'v1')
+		const updated: string[] = []
+
+		const resource = createFileResource(file, { debounceMs: 10 })
+		stops.push(
+			resource.watch?.({ onUpdated: (uri) => updated.push(uri), onListChanged: () => {} }) ??
+				(() => {}),
+		)
+		// Bun's watcher can merge events that land in the same batch
+		writeTextFileSync(path.join(dir, 'other.md'), 'ignored')
+		await Bun.sleep(50)
+		writeTextFileSync(file, 'v2')
+
+		await waitFor(() => updated.length > 0)
+		expect(new Set(updated)).toEqual(new Set([pathToFileURL(file).href]))
+	})
+
+	test('createGlobResource lists matches and rejects reads outside the pattern', async () => {
+		ensureDirSync(path.join(dir, 'daily'))
+		writeTextFileSync(path.join(dir, 'daily', 'today.md'), 'today')
+		writeTextFileSync(path.join(dir, 'index.md'), 'index')
+		writeTextFileSync(path.join(dir, 'image.png'), 'binary')
+
+		const resource = createGlobResource('**/*.md', { cwd: dir, watch: false })
+		const template = resource.uriOrTemplate as ResourceTemplate
+		const read = resource.readCallback as ReadResourceTemplateCallback
+		const listed = await template.listCallback?.(extra)
+
+		expect(resource.watch).toBeUndefined()
+		expect(listed?.resources).toEqual([
+			{
+				uri: pathToFileURL(path.join(dir, 'daily', 'today.md')).href,
+				name: path.join('daily', 'today.md'),
+				mimeType: 'text/markdown',
+			},
+			{
+				uri: pathToFileURL(path.join(dir, 'index.md')).href,
+				name: 'index.md',
+				mimeType: 'text/markdown',
+			},
+		])
+
+		const uri = pathToFileURL(path.join(dir, 'index.md'))
+		const result = await read(uri, { path: 'index.md' }, extra)
+		expect(result.contents[0]).toMatchObject({ text: 'index' })
+
+		const png = pathToFileURL(path.join(dir, 'image.png'))
+		await expect(read(png, { path: 'image.png' }, extra)).rejects.toThrow('Resource not found')
+		const outside = pathToFileURL(path.join(dir, '..', 'secret.md'))
+		await expect(read(outside, { path: '../secret.md' }, extra)).rejects.toThrow(
+			'Resource not found',
+		)
+	})
+
+	test('createGlobResource rejects dot files and symlinks leaving the root', async () => {
+		const root = path.join(dir, 'vault')
+		ensureDirSync(root)
+		writeTextFileSync(path.join(root, '.env'), 'SECRET=1')
+		writeTextFileSync(path.join(root, 'note.txt'), 'note')
+		writeTextFileSync(path.join(dir, 'outside.txt'), 'outside')
+		symlinkSync(path.join(dir, 'outside.txt'), path.join(root, 'link.txt'))
+
+		const resource = createGlobResource('**/*', { cwd: root, watch: false })
+		const read = resource.readCallback as ReadResourceTemplateCallback
+		const readFile = (name: string) =>
+			read(pathToFileURL(path.join(root, name)), { path: name }, extra)
+
+		expect((await readFile('note.txt')).contents[0]).toMatchObject({ text: 'note' })
+		await expect(readFile('.env')).rejects.toThrow('Resource not found')
+		await expect(readFile('link.txt')).rejects.toThrow('Resource not found')
+
+		const withDot = createGlobResource('**/*', { cwd: root, dot: true, watch: false })
+		const readDot = withDot.readCallback as ReadResourceTemplateCallback
+		const env = pathToFileURL(path.join(root, '.env'))
+		expect((await readDot(env, { path: '.env' }, extra)).contents[0]).toMatchObject({
+			text: 'SECRET=1',
+		})
+	})
+
+	test('createGlobResource reports new and changed matching files', async () => {
+		const updated: string[] = []
+		let listChanges = 0
+
+		const resource = createGlobResource('**/*.md', { cwd: dir, debounceMs: 10 })
+		stops.push(
+			resource.watch?.({
+				onUpdated: (uri) => updated.push(uri),
+				onListChanged: () => listChanges++,
+			}) ?? (() => {}),
+		)
+		writeTextFileSync(path.join(dir, 'ignored.txt'), 'ignored')
+		await Bun.sleep(50)
+		writeTextFileSync(path.join(dir, 'new.md'), 'new')
+
+		await waitFor(() => listChanges > 0 && updated.length > 0)
+		expect(new Set(updated)).toEqual(new Set([pathToFileURL(path.join(dir, 'new.md')).href]))
+	})
+})
@@ -0,0 +1,288 @@
+/**
+ * File-backed MCP resources with change watching.
+ *
+ * A file resource serves one file at its `file://` URI; a glob resource
+ * serves every file under a root that matches a pattern (listed through a
+ * resource template). Both watch the filesystem so the server can send
+ * `notifications/resources/updated` to subscribed clients, and
+ * `notifications/resources/list_changed` when glob matches come and go.
+ *
+ * Files are served as text with a MIME type derived from the extension.
+ *
+ * @module mcp/file-resource
+ */
+
+import { type FSWatcher, watch } from 'node:fs'
+import { realpath } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import {
+	type ReadResourceCallback,
+	type ReadResourceTemplateCallback,
+	type ResourceMetadata,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js'
+import { getLanguageForExtension } from '../formatters/syntax.ts'
+import { readTextFile } from '../fs/index.ts'
+import { matchGlob, scanGlob } from '../glob/index.ts'
+
+/** MIME types for languages that have a registered one */
+const LANGUAGE_MIME_TYPES: Record<string, string> = {
+	text: 'text/plain',
+	markdown: 'text/markdown',
+	html: 'text/html',
+	css: 'text/css',
+	javascript: 'text/javascript',
+	typescript: 'text/typescript',
+	json: 'application/json',
+	yaml: 'application/yaml',
+	toml: 'application/toml',
+	xml: 'application/xml',
+	sql: 'application/sql',
+	graphql: 'application/graphql',
+}
+
+/**
+ * Get the MIME type for a file from its extension.
+ *
+ * Languages without a registered MIME type map to `text/x-<language>`;
+ * unknown extensions map to `text/plain`.
+ *
+ * @param filePath - File path or name
+ * @returns MIME type
+ *
+ * @example
+ * ```ts
+ * getMimeType("notes/today.md"); // "text/markdown"
+ * getMimeType("main.rs"); // "text/x-rust"
+ * getMimeType("README"); // "text/plain"
+ * ```
+ */
+export function getMimeType(filePath: string): string {
+	const language = getLanguageForExtension(path.extname(filePath))
+	return LANGUAGE_MIME_TYPES[language] ?? `text/x-${language}`
+}
+
+/**
+ * Options shared by file and glob resources.
+ */
+export interface WatchOptions {
+	/** Watch the filesystem for changes (default: true) */
+	watch?: boolean
+	/** Quiet period before a burst of file events is reported (default: 100) */
+	debounceMs?: number
+}
+
+/**
+ * Options for `fileResource`. `mimeType` defaults to one derived from the
+ * file extension.
+ */
+export type FileResourceOptions = ResourceMetadata & WatchOptions
+
+/**
+ * Options for `globResource`. Each listed file gets a MIME type derived from
+ * its extension.
+ */
+export type GlobResourceOptions = ResourceMetadata &
+	WatchOptions & {
+		/** Directory the pattern is matched against (default: cwd) */
+		cwd?: string
+		/** Include dot files (default: false) */
+		dot?: boolean
+	}
+
+/**
+ * Callbacks invoked by a resource watcher.
+ */
+export interface ResourceChangeHandlers {
+	/** A served file changed */
+	onUpdated: (uri: string) => void
+	/** A file was added to or removed from the served set */
+	onListChanged: () => void
+}
+
+/**
+ * Resource registration plus a function that starts watching it.
+ */
+export interface WatchedResource {
+	uriOrTemplate: string | ResourceTemplate
+	metadata: ResourceMetadata
+	readCallback: ReadResourceCallback | ReadResourceTemplateCallback
+	/** Start watching; returns a function that stops watching */
+	watch?: (handlers: ResourceChangeHandlers) => () => void
+}
+
+/**
+ * Watch a directory and report changed paths after a quiet period.
+ * Directories that cannot be watched (e.g. missing) are skipped.
+ */
+function watchDirectory(
+	dir: string,
+	recursive: boolean,
+	debounceMs: number,
+	onChange: (relativePath: string, event: string) => void,
+): () => void {
+	const timers = new Map<string, ReturnType<typeof setTimeout>>()
+
+	let watcher: FSWatcher
+	try {
+		watcher = watch(dir, { recursive }, (event, filename) => {
+			if (!filename) return
+			const relativePath = filename.toString()
+			const key = `${event}:${relativePath}`
+			clearTimeout(timers.get(key))
+			timers.set(
+				key,
+				setTimeout(() => {
+					timers.delete(key)
+					onChange(relativePath, event)
+				}, debounceMs),
+			)
+		})
+	} catch {
+		return () => {}
+	}
+	// A removed directory emits an error; stop quietly instead of crashing
+	watcher.on('error', () => watcher.close())
+
+	return () => {
+		watcher.close()
+		for (const timer of timers.values()) clearTimeout(timer)
+		timers.clear()
+	}
+}
+
+/** True if any segment of a relative path is a dot file or directory */
+function hasDotSegment(relativePath: string): boolean {
+	return relativePath.split(path.sep).some((part) => part.startsWith('.'))
+}
+
+/** True if a relative path stays inside its root */
+function isInside(relativePath: string): boolean {
+	return !relativePath.startsWith('..') && !path.isAbsolute(relativePath)
+}
+
+/**
+ * Build a resource that serves a single file.
+ *
+ * @param filePath - File to serve (resolved against cwd)
+ * @param options - Resource metadata and watch options
+ * @returns Resource registration
+ */
+export function createFileResource(
+	filePath: string,
+	options: FileResourceOptions = {},
+): WatchedResource {
+	const { watch: shouldWatch = true, debounceMs = 100, ...metadata } = options
+	const absolutePath = path.resolve(filePath)
+	const uri = pathToFileURL(absolutePath).href
+	const mimeType = metadata.mimeType ?? getMimeType(absolutePath)
+
+	return {
+		uriOrTemplate: uri,
+		metadata: { ...metadata, mimeType },
+		readCallback: async () => ({
+			contents: [{ uri, mimeType, text: await readTextFile(absolutePath) }],
+		}),
+		// Watch the parent directory so editors that replace the file keep working
+		watch: shouldWatch
+			? ({ onUpdated }) =>
+					watchDirectory(
+						path.dirname(absolutePath),
+						false,
+						debounceMs,
+						(name) => {
+							if (name === path.basename(absolutePath)) onUpdated(uri)
+						},
+					)
+			: undefined,
+	}
+}
+
+/**
+ * Build a resource template that serves every file matching a glob.
+ *
+ * Files are listed with `scanGlob` under `cwd` and addressed by their
+ * `file://` URIs. Reads outside `cwd` (including through symlinks), not
+ * matching the pattern, or of dot files when `dot` is false fail.
+ *
+ * @param pattern - Glob pattern relative to `cwd` (e.g. "**\/*.md")
+ * @param options - Resource metadata, root, and watch options
+ * @returns Resource registration
+ */
+export function createGlobResource(
+	pattern: string,
+	options: GlobResourceOptions = {},
+): WatchedResource {
+	const {
+		watch: shouldWatch = true,
+		debounceMs = 100,
+		cwd,
+		dot = false,
+		...metadata
+	} = options
+	const root = path.resolve(cwd ?? process.cwd())
+	const toUri = (file: string) => pathToFileURL(file).href
+
+	const template = new ResourceTemplate(`${toUri(root)}/{+path}`, {
+		list: async () => {
+			const files: string[] = []
+			for await (const file of scanGlob(pattern, { cwd: root, dot })) {
+				files.push(file)
+			}
+			return {
+				resources: files.sort().map((file) => ({
+					uri: toUri(file),
+					name: path.relative(root, file),
+					mimeType: getMimeType(file),
+				})),
+			}
+		},
+	})
+
+	return {
+		uriOrTemplate: template,
+		metadata,
+		readCallback: (async (uri) => {
+			const filePath = fileURLToPath(uri)
+			const relativePath = path.relative(root, filePath)
+			const notFound = new Error(`Resource not found: ${uri.href}`)
+			if (
+				!isInside(relativePath) ||
+				!matchGlob(pattern, relativePath) ||
+				(!dot && hasDotSegment(relativePath))
+			) {
+				throw notFound
+			}
+			// Symlinks must not lead outside the root
+			const [realRoot, realFile] = await Promise.all([
+				realpath(root),
+				realpath(filePath),
+			]).catch(() => {
+				throw notFound
+			})
+			if (!isInside(path.relative(realRoot, realFile))) {
+				throw notFound
+			}
+			return {
+				contents: [
+					{
+						uri: uri.href,
+						mimeType: getMimeType(filePath),
+						text: await readTextFile(filePath),
+					},
+				],
+			}
+		}) satisfies ReadResourceTemplateCallback,
+		watch: shouldWatch
+			? ({ onUpdated, onListChanged }) =>
+					watchDirectory(root, true, debounceMs, (relativePath, event) => {
+						if (!matchGlob(pattern, relativePath)) return
+						if (!dot && hasDotSegment(relativePath)) return
+						// "rename" covers creation, deletion, and atomic replacement
+						if (event === 'rename') onListChanged()
+						onUpdated(toUri(path.join(root, relativePath)))
+					})
+			: undefined,
+	}
+}
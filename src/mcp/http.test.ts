@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { z } from 'zod'
+import { type HttpSession, type StreamableHttpHost, serveStreamableHttp } from './http'
+
+function createSessionServer(): McpServer {
+	const server = new McpServer({ name: 'http-test', version: '1.0.0' })
+	server.registerTool(
+		'echo',
+		{ description: 'Echo text', inputSchema: { text: z.string() } },
+		async ({ text }) => ({ content: [{ type: 'text', text }] }),
+	)
+	return server
+}
+
+describe('serveStreamableHttp', () => {
+	let host: StreamableHttpHost
+	let clients: Client[] = []
+
+	afterEach(async () => {
+		await Promise.all(clients.map((client) => client.close()))
+		clients = []
+		await host.close()
+	})
+
+	function start(
+		onSessionInitialized?: (session: HttpSession) => void,
+		sessionIdleTimeoutMs?: number,
+	) {
+		host = serveStreamableHttp(
+			{ type: 'http', port: 0, sessionIdleTimeoutMs },
+			{ createSessionServer, onSessionInitialized },
+		)
+		return new URL('/mcp', host.server.url)
+	}
+
+	async function connect(url: URL) {
+		const client = new Client({ name: 'test-client', version: '1.0.0' })
+		const transport = new StreamableHTTPClientTransport(url)
+		await client.connect(transport)
+		clients.push(client)
+		return { client, transport }
+	}
+
+	test('serves a separate session to each client', async () => {
+		const initialized: HttpSession[] = []
+		const url = start((session) => initialized.push(session))
+
+		const first = await connect(url)
+		const second = await connect(url)
+
+		expect(first.transport.sessionId).toBeString()
+		expect(first.transport.sessionId).not.toBe(second.transport.sessionId)
+		expect(host.sessions.size).toBe(2)
+		expect(initialized).toHaveLength(2)
+
+		const { tools } = await second.client.listTools()
+		expect(tools.map((t) => t.name)).toEqual(['echo'])
+		const result = await first.client.callTool({
+			name: 'echo',
+			arguments: { text: 'hello' },
+		})
+		expect(result.content).toEqual([{ type: 'text', text: 'hello' }])
+	})
+
+	test('removes sessions terminated by the client', async () => {
+		const url = start()
+		const { transport } = await connect(url)
+
+		await transport.terminateSession()
+
+		expect(host.sessions.size).toBe(0)
+	})
+
+	test('closes sessions that stay idle', async () => {
+		const url = start(undefined, 100)
+		const { client } = await connect(url)
+
+		await Bun.sleep(60)
+		await client.ping()
+		await Bun.sleep(60)
+		expect(host.sessions.size).toBe(1)
+
+		await Bun.sleep(100)
+		expect(host.sessions.size).toBe(0)
+	})
+
+	test('rejects unknown sessions, missing session IDs and other paths', async () => {
+		const url = start()
+		const ping = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })
+		const headers = {
+			'Content-Type': 'application/json',
+			Accept: 'application/json, text/event-stream',
+		}
+
+		const unknown = await fetch(url, {
+			method: 'POST',
+			headers: { ...headers, 'Mcp-Session-Id': 'missing' },
+			body: ping,
+		})
+		expect(unknown.status).toBe(404)
+		expect(await unknown.json()).toMatchObject({ error: { message: 'Session not found' } })
+
+		const missing = await fetch(url, { method: 'POST', headers, body: ping })
+		expect(missing.status).toBe(400)
+
+		const malformed = await fetch(url, { method: 'POST', headers, body: '{' })
+		expect(malformed.status).toBe(400)
+
+		const otherPath = await fetch(new URL('/other', url), { method: 'POST', headers, body: ping })
+		expect(otherPath.status).toBe(404)
+	})
+})
@@ -0,0 +1,221 @@
+/**
+ * Streamable HTTP transport host for MCP servers.
+ *
+ * Serves the MCP Streamable HTTP protocol (JSON or SSE responses) on a local
+ * port so one long-lived daemon can be shared by several clients. Each client
+ * session gets its own `McpServer` and transport, created on the session's
+ * `initialize` request and routed by the `Mcp-Session-Id` header afterwards.
+ * Sessions end on DELETE, when the transport closes, or after sitting idle
+ * for `sessionIdleTimeoutMs`.
+ *
+ * @module mcp/http
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import type { Server } from 'bun'
+
+/**
+ * HTTP transport configuration for `startServer`.
+ *
+ * @example
+ * ```ts
+ * await startServer("my-daemon", {
+ *   transport: { type: "http", port: 3333 },
+ * });
+ * // Clients connect to http://127.0.0.1:3333/mcp
+ * ```
+ */
+export interface HttpTransportConfig {
+	type: 'http'
+	/** Port to listen on (default: 3000, use 0 for a random free port) */
+	port?: number
+	/** Hostname to bind (default: "127.0.0.1", local only) */
+	hostname?: string
+	/** Path that serves the MCP endpoint (default: "/mcp") */
+	path?: string
+	/** Respond with plain JSON instead of SSE streams (default: false) */
+	enableJsonResponse?: boolean
+	/**
+	 * Close sessions that send no request for this long, so clients that
+	 * disconnect without DELETE don't leak a server. Clients re-initialize
+	 * when they get 404 for a closed session. 0 disables (default: 30 minutes)
+	 */
+	sessionIdleTimeoutMs?: number
+}
+
+/**
+ * A connected client session.
+ */
+export interface HttpSession {
+	/** Server instance dedicated to this session */
+	server: McpServer
+	/** Transport bound to this session */
+	transport: WebStandardStreamableHTTPServerTransport
+}
+
+/**
+ * Running Streamable HTTP host.
+ */
+export interface StreamableHttpHost {
+	/** Underlying Bun server (port, hostname) */
+	server: Server<undefined>
+	/** Initialized sessions keyed by session ID */
+	sessions: Map<string, HttpSession>
+	/** Close every session and stop listening */
+	close: () => Promise<void>
+}
+
+/**
+ * Options for `serveStreamableHttp`.
+ */
+export interface StreamableHttpOptions {
+	/** Create a server for a new session, with registrations applied */
+	createSessionServer: () => McpServer
+	/** Called once the client of a session has finished initialization */
+	onSessionInitialized?: (session: HttpSession) => void
+}
+
+/** Default idle time before a session is closed (30 minutes) */
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000
+
+/**
+ * Build a JSON-RPC error response for requests rejected before reaching a
+ * session transport.
+ */
+function jsonRpcError(status: number, code: number, message: string): Response {
+	return Response.json(
+		{ jsonrpc: '2.0', error: { code, message }, id: null },
+		{ status },
+	)
+}
+
+/**
+ * Serve MCP over Streamable HTTP.
+ *
+ * Binds to localhost by default. Requests to any other path return 404.
+ * Requests with an unknown session ID return 404 so clients re-initialize;
+ * non-initialize requests without a session ID return 400. Sessions are
+ * removed when the client sends DELETE, the transport closes, or no request
+ * arrives for `sessionIdleTimeoutMs`.
+ *
+ * @param config - Port, hostname, path, and response mode
+ * @param options - Session server factory and lifecycle hooks
+ * @returns Running host
+ *
+ * @example
+ * ```ts
+ * const host = serveStreamableHttp(
+ *   { type: "http", port: 0 },
+ *   { createSessionServer: () => createMyServer() },
+ * );
+ * console.log(host.server.port);
+ * await host.close();
+ * ```
+ */
+export function serveStreamableHttp(
+	config: HttpTransportConfig,
+	options: StreamableHttpOptions,
+): StreamableHttpHost {
+	const path = config.path ?? '/mcp'
+	const idleTimeoutMs =
+		config.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS
+	const sessions = new Map<string, HttpSession>()
+	const idleTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+	/** Restart a session's idle timer */
+	const touch = (sessionId: string): void => {
+		if (idleTimeoutMs <= 0) {
+			return
+		}
+		clearTimeout(idleTimers.get(sessionId))
+		const timer = setTimeout(() => {
+			void sessions.get(sessionId)?.server.close()
+		}, idleTimeoutMs)
+		timer.unref?.()
+		idleTimers.set(sessionId, timer)
+	}
+
+	const startSession = async (
+		request: Request,
+		body: unknown,
+	): Promise<Response> => {
+		const server = options.createSessionServer()
+		const transport = new WebStandardStreamableHTTPServerTransport({
+			sessionIdGenerator: () => randomUUID(),
+			enableJsonResponse: config.enableJsonResponse,
+			onsessioninitialized: (sessionId) => {
+				sessions.set(sessionId, session)
+				touch(sessionId)
+			},
+		})
+		const session: HttpSession = { server, transport }
+
+		transport.onclose = () => {
+			if (transport.sessionId) {
+				sessions.delete(transport.sessionId)
+				clearTimeout(idleTimers.get(transport.sessionId))
+				idleTimers.delete(transport.sessionId)
+			}
+		}
+		server.server.oninitialized = () => options.onSessionInitialized?.(session)
+
+		await server.connect(transport)
+		return transport.handleRequest(request, { parsedBody: body })
+	}
+
+	const server = Bun.serve({
+		port: config.port ?? 3000,
+		hostname: config.hostname ?? '127.0.0.1',
+		// SSE streams stay open between server-sent messages
+		idleTimeout: 0,
+		async fetch(request) {
+			const url = new URL(request.url)
+			if (url.pathname !== path) {
+				return new Response('Not Found', { status: 404 })
+			}
+
+			const sessionId = request.headers.get('mcp-session-id')
+			if (sessionId) {
+				const session = sessions.get(sessionId)
+				if (!session) {
+					return jsonRpcError(404, -32001, 'Session not found')
+				}
+				touch(sessionId)
+				return session.transport.handleRequest(request)
+			}
+
+			if (request.method !== 'POST') {
+				return jsonRpcError(400, -32000, 'Mcp-Session-Id header is required')
+			}
+
+			let body: unknown
+			try {
+				body = await request.json()
+			} catch {
+				return jsonRpcError(400, -32700, 'Parse error')
+			}
+			if (!isInitializeRequest(body)) {
+				return jsonRpcError(400, -32000, 'Mcp-Session-Id header is required')
+			}
+			return startSession(request, body)
+		},
+	})
+
+	return {
+		server,
+		sessions,
+		close: async () => {
+			const open = [...sessions.values()]
+			sessions.clear()
+			for (const timer of idleTimers.values()) {
+				clearTimeout(timer)
+			}
+			idleTimers.clear()
+			await Promise.all(open.map((session) => session.server.close()))
+			await server.stop(true)
+		},
+	}
+}
@@ -8,6 +8,15 @@
  * - Auto-start behavior
  * - Error handling
  * - Notification queueing
+ * - In-process test harness and server reset
+ * - Independent server instances
+ * - Tool middleware
+ * - Structured tool output
+ * - Progress notifications and cancellation
+ * - File-backed resources and subscriptions
+ * - Elicitation and sampling helpers
+ * - Manifest and --describe
+ * - Graceful shutdown and lifecycle events
  *
  * NOTE: Due to module-level singleton state, tests are organized to run
  * sequentially in a specific order. State persists across tests in the same
@@ -15,20 +24,34 @@
  * operations.
  */
 
-import { describe, expect, test } from 'bun:test'
+import { afterEach, describe, expect, test } from 'bun:test'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
 import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
 import type { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import {
+	CreateMessageRequestSchema,
+	ElicitRequestSchema,
+	ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js'
+import { createTempDir, removeDirSync, writeTextFileSync } from '../fs/index.ts'
+import { getCurrentContext } from '../instrumentation/index.ts'
 import {
 	createCorrelationId,
+	createServer,
+	createTestHarness,
 	getServer,
 	log,
+	type McpTestHarness,
 	notifyPromptListChanged,
 	notifyResourceListChanged,
 	notifyToolListChanged,
 	prompt,
+	resetServer,
 	resource,
 	resourceTemplate,
 	startServer,
+	type ToolMiddleware,
 	tool,
 	z,
 } from './index.ts'
@@ -460,9 +483,7 @@ describe('Error Handling', () => {
 				},
 				async (args) => {
 					const x = args.x as number
-					return {
-						content: [{ type: 'text', text: JSON.stringify({ result: x * 2 }) }],
-					}
+					return { result: x * 2 }
 				},
 			)
 		}).not.toThrow()
@@ -587,3 +608,777 @@ describe('Integration Scenarios', () => {
 		expect(cid1).not.toBe(cid2)
 	})
 })
+
+// ============================================================================
+// Test Harness (resets the server started above)
+// ============================================================================
+
+describe('Test Harness', () => {
+	let harness: McpTestHarness | undefined
+
+	afterEach(async () => {
+		await harness?.close()
+		harness = undefined
+	})
+
+	test('resetServer() clears the running server', async () => {
+		await resetServer()
+		expect(getServer()).toBeNull()
+	})
+
+	test('flushes deferred registrations and calls tools', async () => {
+		tool(
+			'greet',
+			{ description: 'Greet someone', inputSchema: { name: z.string() } },
+			async ({ name }) => ({ content: [{ type: 'text', text: `Hello ${name}!` }] }),
+		)
+		harness = await createTestHarness()
+
+		const tools = await harness.listTools()
+		expect(tools.map((t) => t.name)).toEqual(['greet'])
+
+		const result = await harness.callTool('greet', { name: 'Ada' })
+		expect(result.content).toEqual([{ type: 'text', text: 'Hello Ada!' }])
+	})
+
+	test('starts each harness with a clean registry', async () => {
+		tool('other', { description: 'Another tool' }, async () => ({ content: [] }))
+		harness = await createTestHarness()
+
+		const tools = await harness.listTools()
+		expect(tools.map((t) => t.name)).toEqual(['other'])
+	})
+
+	test('reads resources and gets prompts', async () => {
+		resource('config', 'config://app', { mimeType: 'application/json' }, async (uri) => ({
+			contents: [{ uri: uri.href, text: '{"debug":true}' }],
+		}))
+		prompt(
+			'review',
+			{ description: 'Review code', argsSchema: { file: z.string() } },
+			({ file }: { file: string }) => ({
+				messages: [{ role: 'user', content: { type: 'text', text: `Review ${file}` } }],
+			}),
+		)
+		harness = await createTestHarness()
+
+		const read = await harness.readResource('config://app')
+		expect(read.contents).toEqual([{ uri: 'config://app', text: '{"debug":true}' }])
+
+		const review = await harness.getPrompt('review', { file: 'index.ts' })
+		expect(review.messages[0]?.content).toEqual({ type: 'text', text: 'Review index.ts' })
+	})
+
+	test('captures queued and live log notifications', async () => {
+		log.info({ phase: 'startup' })
+		tool('work', { description: 'Do work' }, async () => {
+			log.warning({ phase: 'working' }, 'worker')
+			return { content: [{ type: 'text', text: 'done' }] }
+		})
+		harness = await createTestHarness()
+
+		await harness.callTool('work')
+
+		expect(harness.logs).toEqual([
+			{ level: 'info', data: { phase: 'startup' } },
+			{ level: 'warning', data: { phase: 'working' }, logger: 'worker' },
+		])
+	})
+})
+
+// ============================================================================
+// Independent Instances
+// ============================================================================
+
+describe('createServer', () => {
+	function echoTool(text: string) {
+		return async () => ({ content: [{ type: 'text' as const, text }] })
+	}
+
+	test('instances keep separate registrations and logs', async () => {
+		const notes = createServer()
+		const mail = createServer()
+		notes.tool('search_notes', { description: 'Search notes' }, echoTool('notes'))
+		mail.tool('send_mail', { description: 'Send mail' }, echoTool('mail'))
+		notes.log.info({ from: 'notes' })
+
+		const [notesHarness, mailHarness] = await Promise.all([
+			notes.createTestHarness('notes'),
+			mail.createTestHarness('mail'),
+		])
+
+		try {
+			expect((await notesHarness.listTools()).map((t) => t.name)).toEqual(['search_notes'])
+			expect((await mailHarness.listTools()).map((t) => t.name)).toEqual(['send_mail'])
+			expect(notesHarness.logs).toEqual([{ level: 'info', data: { from: 'notes' } }])
+			expect(mailHarness.logs).toEqual([])
+			expect(notes.getServer()).not.toBe(mail.getServer())
+		} finally {
+			await Promise.all([notesHarness.close(), mailHarness.close()])
+		}
+	})
+
+	test('instances do not touch the default server', async () => {
+		const instance = createServer()
+		instance.tool('isolated', { description: 'Isolated tool' }, echoTool('x'))
+		const harness = await instance.createTestHarness()
+
+		try {
+			expect(getServer()).toBeNull()
+			expect(instance.getServer()).toBe(harness.server)
+		} finally {
+			await harness.close()
+		}
+		expect(instance.getServer()).toBeNull()
+	})
+
+	test('instances do not auto-start', async () => {
+		const instance = createServer()
+		instance.tool('idle', { description: 'Never started' }, echoTool('idle'))
+
+		await Bun.sleep(10)
+
+		expect(instance.getServer()).toBeNull()
+	})
+})
+
+// ============================================================================
+// Tool Middleware
+// ============================================================================
+
+describe('Tool middleware', () => {
+	test('runs global then per-tool middlewares around the handler', async () => {
+		const server = createServer()
+		const calls: string[] = []
+		const track =
+			(name: string): ToolMiddleware =>
+			async (ctx, next) => {
+				calls.push(`${name}:${ctx.toolName}`)
+				return next()
+			}
+
+		server.useMiddleware(track('global'))
+		server.tool(
+			'search',
+			{ inputSchema: { query: z.string() }, middleware: [track('local')] },
+			async ({ query }) => {
+				calls.push(`handler:${query}`)
+				return { content: [{ type: 'text', text: String(query) }] }
+			},
+		)
+		server.useMiddleware(track('late'))
+		const harness = await server.createTestHarness()
+
+		try {
+			await harness.callTool('search', { query: 'notes' })
+			expect(calls).toEqual(['global:search', 'late:search', 'local:search', 'handler:notes'])
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('short-circuits and exposes the trace context', async () => {
+		const server = createServer()
+		const traces: Array<string | undefined> = []
+		let handlerCalled = false
+
+		server.useMiddleware(async (ctx, next) => {
+			traces.push(ctx.trace.cid)
+			if (ctx.args.denied) {
+				return { content: [{ type: 'text', text: 'Unauthorized' }], isError: true }
+			}
+			return next()
+		})
+		server.tool('secure', { inputSchema: { denied: z.boolean() } }, async () => {
+			handlerCalled = true
+			traces.push(getCurrentContext()?.cid)
+			return { content: [{ type: 'text', text: 'ok' }] }
+		})
+		const harness = await server.createTestHarness()
+
+		try {
+			const denied = await harness.callTool('secure', { denied: true })
+			expect(denied).toMatchObject({ isError: true, content: [{ text: 'Unauthorized' }] })
+			expect(handlerCalled).toBe(false)
+
+			await harness.callTool('secure', { denied: false })
+			expect(traces[1]).toMatch(/^[a-f0-9]{8}$/)
+			expect(traces[2]).toBe(traces[1])
+		} finally {
+			await harness.close()
+		}
+	})
+})
+
+// ============================================================================
+// Structured Output
+// ============================================================================
+
+describe('Structured tool output', () => {
+	test('validates typed results and emits structuredContent with text fallback', async () => {
+		const server = createServer()
+		server.tool(
+			'count_notes',
+			{
+				inputSchema: { folder: z.string() },
+				outputSchema: { folder: z.string(), count: z.number() },
+			},
+			async ({ folder }) => ({ folder: String(folder), count: 2 }),
+		)
+		const harness = await server.createTestHarness()
+
+		try {
+			const result = await harness.callTool('count_notes', { folder: 'inbox' })
+			expect(result.structuredContent).toEqual({ folder: 'inbox', count: 2 })
+			expect(result.content).toEqual([
+				{ type: 'text', text: JSON.stringify({ folder: 'inbox', count: 2 }, null, 2) },
+			])
+
+			const { tools } = await harness.client.listTools()
+			expect(tools[0]?.outputSchema?.properties).toHaveProperty('count')
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('returns a tool error when the result does not match the schema', async () => {
+		const server = createServer()
+		server.tool('broken', { outputSchema: z.object({ count: z.number() }) }, async () => {
+			return { count: 'two' } as unknown as { count: number }
+		})
+		const harness = await server.createTestHarness()
+
+		try {
+			const result = await harness.callTool('broken')
+			expect(result.isError).toBe(true)
+			expect(result.content).toEqual([
+				{
+					type: 'text',
+					text: expect.stringContaining('Invalid output from tool broken: count:'),
+				},
+			])
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('rejects plain content results from typed tools', async () => {
+		const server = createServer()
+		server.tool(
+			'plain',
+			{ outputSchema: { count: z.number() } },
+			// @ts-expect-error - typed tools return their output object, not { content }
+			async () => ({ content: [{ type: 'text', text: '2' }] }),
+		)
+		const harness = await server.createTestHarness()
+
+		try {
+			const result = await harness.callTool('plain')
+			expect(result.isError).toBe(true)
+			expect(JSON.stringify(result.content)).toContain('Invalid output from tool plain')
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('passes error results through unchanged', async () => {
+		const server = createServer()
+		server.tool('failing', { outputSchema: { count: z.number() } }, async () => ({
+			content: [{ type: 'text', text: 'Index locked' }],
+			isError: true,
+		}))
+		const harness = await server.createTestHarness()
+
+		try {
+			const result = await harness.callTool('failing')
+			expect(result).toMatchObject({
+				isError: true,
+				content: [{ type: 'text', text: 'Index locked' }],
+			})
+		} finally {
+			await harness.close()
+		}
+	})
+})
+
+// ============================================================================
+// Progress and Cancellation
+// ============================================================================
+
+describe('Tool progress and cancellation', () => {
+	test('sends progress notifications for the request progress token', async () => {
+		const server = createServer()
+		server.tool('index_notes', { inputSchema: { count: z.number() } }, async ({ count }, ctx) => {
+			const total = Number(count)
+			for (let done = 1; done <= total; done++) {
+				await ctx.reportProgress(done, total, `note ${done}`)
+			}
+			return { content: [{ type: 'text', text: `Indexed ${total}` }] }
+		})
+		const harness = await server.createTestHarness()
+
+		try {
+			const progress: Array<{ progress: number; total?: number; message?: string }> = []
+			const result = await harness.client.callTool(
+				{ name: 'index_notes', arguments: { count: 2 } },
+				undefined,
+				{ onprogress: (update) => progress.push(update) },
+			)
+
+			expect(result.content).toEqual([{ type: 'text', text: 'Indexed 2' }])
+			expect(progress).toEqual([
+				{ progress: 1, total: 2, message: 'note 1' },
+				{ progress: 2, total: 2, message: 'note 2' },
+			])
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('ignores progress when the client did not ask for it', async () => {
+		const server = createServer()
+		server.tool('quiet', {}, async (ctx) => {
+			await ctx.reportProgress(1, 1)
+			return { content: [{ type: 'text', text: 'done' }] }
+		})
+		const harness = await server.createTestHarness()
+
+		try {
+			const result = await harness.callTool('quiet')
+			expect(result.content).toEqual([{ type: 'text', text: 'done' }])
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('aborts the handler signal when the client cancels', async () => {
+		const server = createServer()
+		let resolveAborted: (reason: unknown) => void = () => {}
+		const aborted = new Promise((resolve) => {
+			resolveAborted = resolve
+		})
+		let resolveStarted: () => void = () => {}
+		const started = new Promise<void>((resolve) => {
+			resolveStarted = resolve
+		})
+		server.tool('slow', {}, async (ctx) => {
+			ctx.signal.addEventListener('abort', () => resolveAborted(ctx.signal.reason))
+			resolveStarted()
+			await aborted
+			return { content: [{ type: 'text', text: 'stopped' }] }
+		})
+		const harness = await server.createTestHarness()
+
+		try {
+			const controller = new AbortController()
+			const call = harness.client.callTool({ name: 'slow' }, undefined, {
+				signal: controller.signal,
+			})
+			await started
+			controller.abort('user cancelled')
+
+			await expect(call).rejects.toThrow()
+			expect(await aborted).toBe('user cancelled')
+		} finally {
+			await harness.close()
+		}
+	})
+})
+
+// ============================================================================
+// File Resources
+// ============================================================================
+
+describe('File-backed resources', () => {
+	test('sends resources/updated to clients subscribed to a changed file', async () => {
+		const dir = createTempDir('mcp-file-resource')
+		const file = path.join(dir, 'todo.md')
+		writeTextFileSync(file, 'v1')
+		const uri = pathToFileURL(file).href
+
+		const server = createServer()
+		server.fileResource('todo', file, { debounceMs: 10 })
+		const harness = await server.createTestHarness()
+		const updates: string[] = []
+		harness.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => {
+			updates.push(n.params.uri)
+		})
+
+		try {
+			expect(harness.client.getServerCapabilities()?.resources?.subscribe).toBe(true)
+			const { contents } = await harness.readResource(uri)
+			expect(contents).toEqual([{ uri, mimeType: 'text/markdown', text: 'v1' }])
+
+			await harness.client.subscribeResource({ uri })
+			writeTextFileSync(file, 'v2')
+
+			const deadline = Date.now() + 2000
+			while (updates.length === 0 && Date.now() < deadline) await Bun.sleep(10)
+			expect(updates).toContain(uri)
+
+			updates.length = 0
+			await harness.client.unsubscribeResource({ uri })
+			writeTextFileSync(file, 'v3')
+			await Bun.sleep(100)
+			expect(updates).toEqual([])
+		} finally {
+			await harness.close()
+			removeDirSync(dir, { recursive: true })
+		}
+	})
+
+	test('lists glob matches through the resource template', async () => {
+		const dir = createTempDir('mcp-glob-resource')
+		writeTextFileSync(path.join(dir, 'a.md'), 'a')
+		writeTextFileSync(path.join(dir, 'b.txt'), 'b')
+
+		const server = createServer()
+		server.globResource('notes', '*.md', { cwd: dir, watch: false })
+		const harness = await server.createTestHarness()
+
+		try {
+			const { resources } = await harness.client.listResources()
+			expect(resources).toEqual([
+				{
+					uri: pathToFileURL(path.join(dir, 'a.md')).href,
+					name: 'a.md',
+					mimeType: 'text/markdown',
+				},
+			])
+			// No watched resources, so subscriptions are not advertised
+			expect(harness.client.getServerCapabilities()?.resources?.subscribe).toBeUndefined()
+		} finally {
+			await harness.close()
+			removeDirSync(dir, { recursive: true })
+		}
+	})
+})
+
+// ============================================================================
+// Elicitation and Sampling
+// ============================================================================
+
+describe('Elicitation and sampling', () => {
+	function registerArchiveTool(server: ReturnType<typeof createServer>) {
+		server.tool('archive', {}, async (ctx) => {
+			const answer = await ctx.elicit('Which folder?', {
+				folder: z.string().describe('Folder path'),
+				dryRun: z.boolean().default(true),
+			})
+			const text =
+				answer.action === 'accept'
+					? `${answer.content.folder} dryRun=${answer.content.dryRun}`
+					: answer.action
+			return { content: [{ type: 'text', text }] }
+		})
+	}
+
+	test('elicits a form described by a Zod shape', async () => {
+		const server = createServer()
+		registerArchiveTool(server)
+		const harness = await server.createTestHarness('test-server', undefined, {
+			elicitation: {},
+		})
+		const requests: unknown[] = []
+		harness.client.setRequestHandler(ElicitRequestSchema, (request) => {
+			requests.push(request.params)
+			return { action: 'accept', content: { folder: 'inbox' } }
+		})
+
+		try {
+			const result = await harness.callTool('archive')
+			expect(result.content).toEqual([{ type: 'text', text: 'inbox dryRun=true' }])
+			expect(requests[0]).toMatchObject({
+				mode: 'form',
+				message: 'Which folder?',
+				requestedSchema: {
+					type: 'object',
+					properties: {
+						folder: { type: 'string', description: 'Folder path' },
+						dryRun: { type: 'boolean', default: true },
+					},
+					required: ['folder'],
+				},
+			})
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('reports declined and unsupported elicitation', async () => {
+		const declining = createServer()
+		registerArchiveTool(declining)
+		const harness = await declining.createTestHarness('test-server', undefined, {
+			elicitation: {},
+		})
+		harness.client.setRequestHandler(ElicitRequestSchema, () => ({ action: 'decline' }))
+
+		const plain = createServer()
+		registerArchiveTool(plain)
+		const plainHarness = await plain.createTestHarness()
+
+		try {
+			const declined = await harness.callTool('archive')
+			expect(declined.content).toEqual([{ type: 'text', text: 'decline' }])
+			const unsupported = await plainHarness.callTool('archive')
+			expect(unsupported.content).toEqual([{ type: 'text', text: 'unsupported' }])
+		} finally {
+			await harness.close()
+			await plainHarness.close()
+		}
+	})
+
+	test('samples a completion from the client, or reports unsupported', async () => {
+		const server = createServer()
+		server.tool('summarize', {}, async (ctx) => {
+			const summary = await ctx.sample('Summarize the inbox')
+			const text = summary.status === 'ok' ? `${summary.model}: ${summary.text}` : 'fallback'
+			return { content: [{ type: 'text', text }] }
+		})
+		const harness = await server.createTestHarness('test-server', undefined, { sampling: {} })
+		let maxTokens: number | undefined
+		harness.client.setRequestHandler(CreateMessageRequestSchema, (request) => {
+			maxTokens = request.params.maxTokens
+			return {
+				role: 'assistant',
+				model: 'test-model',
+				content: { type: 'text', text: '3 unread notes' },
+			}
+		})
+
+		try {
+			const result = await harness.callTool('summarize')
+			expect(result.content).toEqual([{ type: 'text', text: 'test-model: 3 unread notes' }])
+			expect(maxTokens).toBe(1024)
+		} finally {
+			await harness.close()
+		}
+
+		const plain = createServer()
+		plain.tool('summarize', {}, async (ctx) => {
+			const summary = await ctx.sample('Summarize the inbox')
+			return { content: [{ type: 'text', text: summary.status }] }
+		})
+		const plainHarness = await plain.createTestHarness()
+		try {
+			const result = await plainHarness.callTool('summarize')
+			expect(result.content).toEqual([{ type: 'text', text: 'unsupported' }])
+		} finally {
+			await plainHarness.close()
+		}
+	})
+})
+
+// ============================================================================
+// Manifest
+// ============================================================================
+
+describe('Manifest', () => {
+	test('describes queued and applied registrations without a transport', async () => {
+		const server = createServer()
+		server.tool(
+			'search',
+			{ description: 'Search notes', inputSchema: { query: z.string() } },
+			async () => ({ content: [] }),
+		)
+
+		const queued = server.getManifest({ name: 'notes', version: '2.0.0' })
+		expect(queued).toMatchObject({
+			name: 'notes',
+			version: '2.0.0',
+			tools: [{ name: 'search', inputSchema: { required: ['query'] } }],
+			prompts: [],
+			resources: [],
+		})
+
+		const harness = await server.createTestHarness()
+		try {
+			server.tool('archive', { description: 'Archive notes' }, async () => ({ content: [] }))
+			const applied = server.getManifest()
+			expect(applied.tools.map((t) => t.name)).toEqual(['archive', 'search'])
+			// Same schemas the client sees in tools/list
+			const listed = await harness.listTools()
+			expect(applied.tools.map((t) => t.inputSchema)).toEqual(
+				listed
+					.sort((a, b) => a.name.localeCompare(b.name))
+					.map((t) => t.inputSchema as Record<string, unknown>),
+			)
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('--describe prints the manifest and exits without connecting', async () => {
+		const dir = createTempDir('mcp-describe')
+		const script = path.join(dir, 'server.ts')
+		writeTextFileSync(
+			script,
+			[
+				`import { tool, z } from ${JSON.stringify(path.join(import.meta.dir, 'index.ts'))}`,
+				`tool('greet', { description: 'Greet someone', inputSchema: { name: z.string() } },`,
+				`  async () => ({ content: [] }))`,
+			].join('\n'),
+		)
+
+		try {
+			const proc = Bun.spawn(['bun', script, '--describe', 'markdown'], {
+				stdout: 'pipe',
+				stderr: 'pipe',
+				stdin: 'ignore',
+			})
+			const [stdout, exitCode] = await Promise.all([new Response(proc.stdout).text(), proc.exited])
+
+			expect(exitCode).toBe(0)
+			expect(stdout).toContain('# mcpez `1.0.0`')
+			expect(stdout).toContain('| greet | Greet someone | name |  |')
+		} finally {
+			removeDirSync(dir, { recursive: true })
+		}
+	})
+})
+
+// ============================================================================
+// Graceful Shutdown
+// ============================================================================
+
+describe('Graceful shutdown', () => {
+	test('emits lifecycle events and drains tool calls before shutdown hooks', async () => {
+		const server = createServer()
+		const events: string[] = []
+		server.onLifecycle('starting', ({ name }) => events.push(`starting:${name}`))
+		server.onLifecycle('connected', () => events.push('connected'))
+		server.onLifecycle('clientInitialized', ({ clientInfo }) =>
+			events.push(`clientInitialized:${clientInfo?.name}`),
+		)
+		server.onLifecycle('shuttingDown', ({ reason }) => events.push(`shuttingDown:${reason}`))
+		server.onShutdown(async () => {
+			events.push('hook')
+		})
+
+		let started = false
+		server.tool('slow', { description: 'Slow tool' }, async () => {
+			started = true
+			await Bun.sleep(50)
+			events.push('slow done')
+			return { content: [{ type: 'text', text: 'finished' }] }
+		})
+		server.tool('fast', { description: 'Fast tool' }, async () => ({ content: [] }))
+
+		const harness = await server.createTestHarness('lifecycle')
+		try {
+			const slow = harness.callTool('slow')
+			while (!started) await Bun.sleep(5)
+
+			const stopping = server.shutdown()
+			const refused = await harness.callTool('fast')
+			expect(refused.isError).toBe(true)
+			expect(JSON.stringify(refused.content)).toContain('shutting down')
+
+			await stopping
+			expect((await slow).content).toEqual([{ type: 'text', text: 'finished' }])
+			expect(events).toEqual([
+				'starting:lifecycle',
+				'connected',
+				'clientInitialized:lifecycle-test-client',
+				'shuttingDown:shutdown',
+				'slow done',
+				'hook',
+			])
+			// Later calls share the first shutdown
+			expect(server.shutdown('SIGTERM')).toBe(stopping)
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('flushes configured targets after shutdown hooks', async () => {
+		const server = createServer()
+		const events: string[] = []
+		server.onShutdown(() => {
+			events.push('hook')
+		})
+		const flush = [
+			{
+				flush: async () => {
+					throw new Error('disk full')
+				},
+			},
+			{
+				flush: async () => {
+					events.push('slo flushed')
+				},
+			},
+		]
+
+		const harness = await server.createTestHarness('flush', { shutdown: { flush } })
+		try {
+			await server.shutdown()
+			expect(events).toEqual(['hook', 'slo flushed'])
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('stops waiting for tool calls after the drain timeout', async () => {
+		const server = createServer()
+		let hookRan = false
+		server.onShutdown(() => {
+			hookRan = true
+		})
+		let started = false
+		server.tool('stuck', { description: 'Never finishes in time' }, async () => {
+			started = true
+			await Bun.sleep(1000)
+			return { content: [] }
+		})
+
+		const harness = await server.createTestHarness('drain', { shutdown: { drainTimeoutMs: 20 } })
+		try {
+			void harness.callTool('stuck').catch(() => {})
+			while (!started) await Bun.sleep(5)
+
+			const start = performance.now()
+			await server.shutdown()
+			expect(performance.now() - start).toBeLessThan(500)
+			expect(hookRan).toBe(true)
+		} finally {
+			await harness.close()
+		}
+	})
+
+	test('SIGTERM runs shutdown hooks and exits cleanly', async () => {
+		const dir = createTempDir('mcp-shutdown')
+		const script = path.join(dir, 'server.ts')
+		const marker = path.join(dir, 'flushed.txt')
+		writeTextFileSync(
+			script,
+			[
+				`import { onLifecycle, onShutdown, tool } from ${JSON.stringify(path.join(import.meta.dir, 'index.ts'))}`,
+				`onLifecycle('connected', () => console.error('ready'))`,
+				`onShutdown(() => Bun.write(${JSON.stringify(marker)}, 'flushed'))`,
+				`tool('noop', { description: 'Does nothing' }, async () => ({ content: [] }))`,
+			].join('\n'),
+		)
+
+		try {
+			const proc = Bun.spawn(['bun', script], {
+				stdout: 'pipe',
+				stderr: 'pipe',
+				stdin: 'pipe',
+			})
+			const reader = proc.stderr.getReader()
+			let stderr = ''
+			while (!stderr.includes('ready')) {
+				const { value, done } = await reader.read()
+				if (done) break
+				stderr += new TextDecoder().decode(value)
+			}
+
+			proc.kill('SIGTERM')
+			expect(await proc.exited).toBe(0)
+			expect(await Bun.file(marker).text()).toBe('flushed')
+		} finally {
+			removeDirSync(dir, { recursive: true })
+		}
+	})
+})
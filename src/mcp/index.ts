@@ -110,6 +110,86 @@
  * - Subsystem-based hierarchical logging
  * - Works even when MCP inspector disconnects
  *
+ * ### 8. Streamable HTTP Transport
+ *
+ * Run as a long-lived local daemon shared by several clients instead of one
+ * stdio process per client:
+ * ```ts
+ * await startServer("my-daemon", {
+ *   transport: { type: "http", port: 3333 },
+ * });
+ * // Clients connect to http://127.0.0.1:3333/mcp
+ * ```
+ *
+ * Each client session gets its own server with every registration, so
+ * deferred and later registrations work the same as with stdio. Logs and
+ * list-changed notifications are sent to every connected session.
+ *
+ * ### 9. In-Process Test Harness
+ *
+ * Test registrations without spawning a process:
+ * ```ts
+ * const harness = await createTestHarness();
+ * const result = await harness.callTool("greet", { name: "Ada" });
+ * expect(harness.logs).toHaveLength(1);
+ * await harness.close(); // resets the server for the next test
+ * ```
+ *
+ * ### 10. Multiple Server Instances
+ *
+ * The top-level functions use a default instance. `createServer()` returns
+ * an independent instance with the same API, so one process can host
+ * several servers and tests can run in parallel:
+ * ```ts
+ * const notes = createServer();
+ * notes.tool("search_notes", { ... }, handler);
+ * await notes.startServer("notes", { transport: { type: "http", port: 3333 } });
+ * ```
+ *
+ * ### 11. Tool Middleware
+ *
+ * Cross-cutting behavior (timing, auth, truncation) as composable middleware,
+ * applied globally with `useMiddleware` or per tool via `options.middleware`:
+ * ```ts
+ * useMiddleware(async (ctx, next) => {
+ *   const start = performance.now();
+ *   const result = await next();
+ *   log.debug({ tool: ctx.toolName, cid: ctx.trace.cid, ms: performance.now() - start });
+ *   return result;
+ * });
+ * ```
+ *
+ * ### 12. Live File Resources
+ *
+ * Serve a file or every file matching a glob; clients that subscribe get
+ * `resources/updated` when the files change on disk:
+ * ```ts
+ * fileResource("todo", "./TODO.md");
+ * globResource("notes", "**\/*.md", { cwd: vaultPath });
+ * ```
+ *
+ * ### 13. Manifest and `--describe`
+ *
+ * `getManifest()` lists every registration (input schemas as JSON Schema)
+ * without connecting a transport. Running a server with `--describe`
+ * (optionally `markdown` or `terminal`) prints it and exits:
+ * ```bash
+ * bun run server.ts --describe markdown > TOOLS.md
+ * ```
+ *
+ * ### 14. Graceful Shutdown
+ *
+ * On SIGINT/SIGTERM or when the client closes stdio, in-flight tool calls
+ * drain (up to `shutdown.drainTimeoutMs`), `onShutdown` hooks run, then
+ * everything in `shutdown.flush` (e.g. SLO trackers) and the file logger
+ * flush before the process exits. SLO event writes are not flushed unless
+ * the tracker is listed there (or flushed from an `onShutdown` hook):
+ * ```ts
+ * const slo = createSLOTracker({ definitions });
+ * startServer("notes", { shutdown: { flush: [slo] } });
+ * onLifecycle("clientInitialized", ({ clientInfo }) => log.info({ clientInfo }));
+ * ```
+ *
  * ## When to Use This vs. Raw SDK
  *
  * **Use this abstraction when:**
@@ -126,6 +206,8 @@
  */
 
 import type { Logger } from '@logtape/logtape'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
 import type { ServerOptions } from '@modelcontextprotocol/sdk/server/index.js'
 import type {
 	ReadResourceCallback,
@@ -135,16 +217,65 @@ import type {
 } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
-import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import {
+	type CallToolResult,
+	type ClientCapabilities,
+	type GetPromptResult,
+	type Implementation,
+	type LoggingMessageNotification,
+	LoggingMessageNotificationSchema,
+	type ReadResourceResult,
+	SubscribeRequestSchema,
+	type Tool,
+	type ToolAnnotations,
+	UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
+import type { Server } from 'bun'
+import { type ZodRawShape, type ZodTypeAny, z } from 'zod'
+import { TimeoutError, withTimeout } from '../concurrency/timeout.ts'
+import {
+	createTraceContext,
+	runWithContextAsync,
+} from '../instrumentation/index.ts'
 import {
 	createCorrelationId,
 	createPluginLogger,
 	type LogLevel,
 	type PluginLogger,
 } from '../logging/index.ts'
+import { ResponseFormat, respondStructured } from '../mcp-response/index.ts'
+import {
+	createToolExtra,
+	type SdkToolExtra,
+	type ToolExtra,
+} from './context.ts'
+import {
+	createFileResource,
+	createGlobResource,
+	type FileResourceOptions,
+	type GlobResourceOptions,
+	type WatchedResource,
+} from './file-resource.ts'
+import {
+	type HttpTransportConfig,
+	type StreamableHttpHost,
+	serveStreamableHttp,
+} from './http.ts'
+import {
+	buildManifest,
+	formatManifest,
+	getDescribeFormat,
+	type ServerManifest,
+} from './manifest.ts'
+import {
+	runToolMiddleware,
+	type ToolCallContext,
+	type ToolMiddleware,
+} from './middleware.ts'
 
 // ============================================================================
-// Internal State Management
+// Deferred Registrations
 // ============================================================================
 
 type DeferredPrompt = {
@@ -167,6 +298,7 @@ type DeferredResource = {
 	uriOrTemplate: string | ResourceTemplateType
 	metadata: ResourceOptions
 	readCallback: ResourceReadCallback | ResourceTemplateReadCallback
+	watch?: WatchedResource['watch']
 }
 
 type DeferredLog = {
@@ -182,158 +314,79 @@ type DeferredNotification =
 	| { kind: 'toolListChanged' }
 	| { kind: 'promptListChanged' }
 
+type DeferredDefinition = DeferredPrompt | DeferredTool | DeferredResource
+
 type DeferredRegistration =
-	| DeferredPrompt
-	| DeferredTool
-	| DeferredResource
+	| DeferredDefinition
 	| DeferredLog
 	| DeferredNotification
 
-let serverSingleton: McpServer | null = null
-const deferredRegistrations: DeferredRegistration[] = []
-let deferredRegistrationCallback: (() => void) | null = null
-
-// File logging state (optional observability layer)
-let fileLogger: PluginLogger | null = null
-let fileLoggerRoot: Logger | null = null
-
-function hasServerStarted(): boolean {
-	return serverSingleton !== null
-}
-
-function setServerInstance(server: McpServer): void {
-	serverSingleton = server
-}
-
-function getServerInstance(): McpServer | null {
-	return serverSingleton
-}
-
-function setDeferredRegistrationCallback(callback: (() => void) | null): void {
-	deferredRegistrationCallback = callback
-}
-
-function enqueueRegistration(reg: DeferredRegistration): void {
-	deferredRegistrations.push(reg)
-	deferredRegistrationCallback?.()
-}
-
-function flushRegistrations(target: McpServer): void {
-	const remaining: DeferredRegistration[] = []
-	const queued = deferredRegistrations.splice(0)
-	for (const reg of queued) {
-		switch (reg.kind) {
-			case 'prompt': {
-				target.registerPrompt(
+function registerDefinition(target: McpServer, reg: DeferredDefinition): void {
+	switch (reg.kind) {
+		case 'prompt': {
+			target.registerPrompt(
+				reg.name,
+				reg.options as unknown as Parameters<McpServer['registerPrompt']>[1],
+				reg.handler,
+			)
+			break
+		}
+		case 'tool':
+			// Using 'any' because McpServer.registerTool has complex overloads
+			// that TypeScript can't resolve when extracting parameter types
+			target.registerTool(
+				reg.name,
+				// biome-ignore lint/suspicious/noExplicitAny: SDK overloads prevent proper typing
+				reg.options as any,
+				// biome-ignore lint/suspicious/noExplicitAny: SDK overloads prevent proper typing
+				reg.handler as any,
+			)
+			break
+		case 'resource':
+			if (typeof reg.uriOrTemplate === 'string') {
+				target.registerResource(
 					reg.name,
-					reg.options as unknown as Parameters<McpServer['registerPrompt']>[1],
-					reg.handler,
+					reg.uriOrTemplate,
+					reg.metadata,
+					reg.readCallback as ResourceReadCallback,
 				)
-				break
-			}
-			case 'tool':
-				// Using 'any' because McpServer.registerTool has complex overloads
-				// that TypeScript can't resolve when extracting parameter types
-				target.registerTool(
+			} else {
+				target.registerResource(
 					reg.name,
-					// biome-ignore lint/suspicious/noExplicitAny: SDK overloads prevent proper typing
-					reg.options as any,
-					// biome-ignore lint/suspicious/noExplicitAny: SDK overloads prevent proper typing
-					reg.handler as any,
+					reg.uriOrTemplate,
+					reg.metadata,
+					reg.readCallback as ResourceTemplateReadCallback,
 				)
-				break
-			case 'resource':
-				if (typeof reg.uriOrTemplate === 'string') {
-					target.registerResource(
-						reg.name,
-						reg.uriOrTemplate,
-						reg.metadata,
-						reg.readCallback as ResourceReadCallback,
-					)
-				} else {
-					target.registerResource(
-						reg.name,
-						reg.uriOrTemplate,
-						reg.metadata,
-						reg.readCallback as ResourceTemplateReadCallback,
-					)
-				}
-				break
-			case 'log': {
-				if (target.isConnected()) {
-					void target.sendLoggingMessage({
-						level: reg.level as Parameters<
-							typeof target.sendLoggingMessage
-						>[0]['level'],
-						logger: reg.logger,
-						data: reg.data,
-					})
-				} else {
-					remaining.push(reg)
-				}
-				break
 			}
-			case 'resourceListChanged':
-				target.sendResourceListChanged()
-				break
-			case 'toolListChanged':
-				target.sendToolListChanged()
-				break
-			case 'promptListChanged':
-				target.sendPromptListChanged()
-				break
-		}
-	}
-	if (remaining.length > 0) {
-		deferredRegistrations.push(...remaining)
-	}
-}
-
-// ============================================================================
-// Auto-start scheduling
-// ============================================================================
-
-let autoStartTimer: ReturnType<typeof setTimeout> | null = null
-
-function cancelPendingAutoStart(): void {
-	if (autoStartTimer !== null && typeof clearTimeout === 'function') {
-		clearTimeout(autoStartTimer)
-	}
-	autoStartTimer = null
-}
-
-function scheduleAutomaticStart(): void {
-	if (hasServerStarted() || autoStartTimer !== null) {
-		return
-	}
-
-	if (typeof setTimeout !== 'function') {
-		return
+			break
 	}
-
-	autoStartTimer = setTimeout(() => {
-		autoStartTimer = null
-		if (!hasServerStarted()) {
-			void startServer().catch((error) => {
-				const consoleLike = globalThis.console as
-					| {
-							error?: (message?: unknown, ...optionalParams: unknown[]) => void
-					  }
-					| undefined
-				consoleLike?.error?.('Failed to automatically start MCP server:', error)
-			})
-		}
-	}, 0)
 }
 
-setDeferredRegistrationCallback(scheduleAutomaticStart)
-
 // ============================================================================
 // Type Exports
 // ============================================================================
 
 export type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 export type { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+export type {
+	ElicitOutcome,
+	SampleOutcome,
+	SampleRequest,
+	ToolExtra,
+} from './context.ts'
+export type {
+	FileResourceOptions,
+	GlobResourceOptions,
+} from './file-resource.ts'
+export type { HttpTransportConfig } from './http.ts'
+export type {
+	ManifestFormat,
+	PromptManifestEntry,
+	ResourceManifestEntry,
+	ServerManifest,
+	ToolManifestEntry,
+} from './manifest.ts'
+export type { ToolCallContext, ToolMiddleware } from './middleware.ts'
 
 /** LoggingLevel is a union of valid log severity levels per MCP specification */
 export type LoggingLevel =
@@ -348,9 +401,9 @@ export type LoggingLevel =
 
 // Re-export Zod so users don't need to install it separately
 export { z } from 'zod'
-
 // Re-export correlation ID helper for request tracing
-export { createCorrelationId }
+// Re-export manifest formatting for docs generation scripts
+export { createCorrelationId, formatManifest }
 
 // ============================================================================
 // Option Types (with fixed ToolOptions including annotations)
@@ -403,7 +456,16 @@ export type ToolOptions = {
 	 * ```
 	 */
 	inputSchema?: Record<string, unknown> | unknown
-	/** Output schema (Zod or JSON Schema) */
+	/**
+	 * Output schema (Zod or JSON Schema).
+	 *
+	 * With a Zod object (or a plain object of Zod validators) the handler
+	 * returns the typed object itself; it is validated and sent as
+	 * `structuredContent` with a JSON text fallback. Besides the typed object,
+	 * the handler may only return an `isError` result or a result that
+	 * already carries `structuredContent`; a plain `{ content }` result is
+	 * rejected, since the client expects structured output.
+	 */
 	outputSchema?: Record<string, unknown> | unknown
 	/**
 	 * Tool annotations providing hints about behavior.
@@ -412,14 +474,66 @@ export type ToolOptions = {
 	annotations?: ToolAnnotations
 	/** Extra metadata */
 	_meta?: Record<string, unknown>
+	/**
+	 * Middlewares for this tool only, run after the global ones registered
+	 * with `useMiddleware` (first is outermost).
+	 */
+	middleware?: ToolMiddleware[]
 }
 
-/** Tool callback function type */
+/**
+ * Tool callback function type.
+ *
+ * `extra` carries the client's cancellation `signal` and `reportProgress`
+ * for long-running tools. Tools without an `inputSchema` receive `extra`
+ * as their only argument.
+ */
 export type ToolHandler = (
 	args: Record<string, unknown>,
-	extra: unknown,
+	extra: ToolExtra,
 ) => unknown | Promise<unknown>
 
+/** Zod output schema: a Zod object or a plain object of Zod validators */
+export type ToolOutputSchema = ZodTypeAny | ZodRawShape
+
+/** Structured result type inferred from a Zod output schema */
+export type InferToolOutput<S extends ToolOutputSchema> = S extends ZodTypeAny
+	? z.infer<S>
+	: S extends ZodRawShape
+		? z.infer<z.ZodObject<S>>
+		: never
+
+/**
+ * Results a typed tool may return instead of its output object: an error,
+ * or a result that already carries `structuredContent`
+ */
+export type TypedToolPassthroughResult =
+	| (CallToolResult & { isError: true })
+	| (CallToolResult & { structuredContent: Record<string, unknown> })
+
+/**
+ * Tool callback for tools with a Zod output schema. Returns the typed
+ * output object (or a `TypedToolPassthroughResult`), never a plain
+ * `{ content }` result.
+ */
+export type TypedToolHandler<S extends ToolOutputSchema> = (
+	args: Record<string, unknown>,
+	extra: ToolExtra,
+) =>
+	| InferToolOutput<S>
+	| TypedToolPassthroughResult
+	| Promise<InferToolOutput<S> | TypedToolPassthroughResult>
+
+/**
+ * Handler type for the given tool options: typed when `outputSchema` is a
+ * Zod schema, otherwise a plain `ToolHandler`.
+ */
+export type ToolHandlerFor<O extends ToolOptions> = O extends {
+	outputSchema: infer S extends ToolOutputSchema
+}
+	? TypedToolHandler<S>
+	: ToolHandler
+
 export type ResourceOptions = ResourceMetadata
 export type ResourceReadCallback = ReadResourceCallback
 export type ResourceTemplateReadCallback = ReadResourceTemplateCallback
@@ -470,266 +584,136 @@ export interface ServerConfig extends Record<string, unknown> {
 	instructions?: string
 	/** Optional file logging configuration */
 	fileLogging?: FileLoggingConfig
+	/**
+	 * Transport to serve (default: "stdio").
+	 * Use `{ type: "http" }` to run a local Streamable HTTP daemon shared by
+	 * multiple clients.
+	 */
+	transport?: 'stdio' | HttpTransportConfig
+	/** Graceful shutdown options */
+	shutdown?: ShutdownConfig
 }
 
-// ============================================================================
-// Server Functions
-// ============================================================================
-
 /**
- * Start the MCP server with optional configuration.
- * Must only be called once per process.
- *
- * @param name - Server name (used for identification and file logging)
- * @param serverOptions - Configuration including capabilities, instructions, and file logging
- * @param transport - Optional custom transport (defaults to StdioServerTransport)
- *
- * @example
- * ```ts
- * // Basic usage - auto-starts with defaults
- * tool("greet", { ... }, handler);
- *
- * // With file logging for debugging
- * await startServer("my-plugin", {
- *   version: "1.0.0",
- *   fileLogging: {
- *     enabled: true,
- *     subsystems: ["api", "cache"],
- *     level: "debug",
- *   },
- * });
- * ```
+ * Graceful shutdown options.
  */
-export async function startServer(
-	name = 'mcpez',
-	serverOptions?: ServerConfig,
-	transport?: StdioServerTransport,
-): Promise<void> {
-	cancelPendingAutoStart()
-
-	if (hasServerStarted()) {
-		throw new Error(
-			'MCP server already started. startServer must be called only once.',
-		)
-	}
-
-	const {
-		version,
-		capabilities,
-		instructions,
-		fileLogging,
-		...implementationDetails
-	} = serverOptions ?? {}
-
-	// Initialize file logging if configured
-	if (fileLogging?.enabled) {
-		fileLogger = createPluginLogger({
-			name,
-			subsystems: fileLogging.subsystems,
-			lowestLevel: fileLogging.level,
-			maxSize: fileLogging.maxSize,
-			maxFiles: fileLogging.maxFiles,
-		})
-		await fileLogger.initLogger()
-		fileLoggerRoot = fileLogger.rootLogger
-		fileLoggerRoot.info('MCP server starting with file logging enabled', {
-			name,
-		})
-	}
+export interface ShutdownConfig {
+	/**
+	 * Shut down and exit on SIGINT and SIGTERM (default: true for the stdio
+	 * and HTTP transports, false for custom transports). A second signal
+	 * during shutdown exits immediately.
+	 */
+	signals?: boolean
+	/** Max time to wait for in-flight tool calls in ms (default: 5000) */
+	drainTimeoutMs?: number
+	/**
+	 * Flushed after `onShutdown` hooks, e.g. an `SLOTracker` or
+	 * `SLOPersistence` whose event writes must reach disk before exit
+	 */
+	flush?: readonly Flushable[]
+}
 
-	const baseCapabilities =
-		capabilities && typeof capabilities === 'object'
-			? (capabilities as Record<string, unknown>)
-			: undefined
+/** Anything with pending writes to finish on shutdown */
+export interface Flushable {
+	flush(): Promise<void>
+}
 
-	const normalizedCapabilities: Record<string, unknown> = {
-		...(baseCapabilities ?? {}),
-	}
-	const loggingCapability =
-		baseCapabilities &&
-		typeof baseCapabilities.logging === 'object' &&
-		baseCapabilities.logging !== null
-			? (baseCapabilities.logging as Record<string, unknown>)
-			: {}
-	normalizedCapabilities.logging = loggingCapability
+/** Why a server is shutting down */
+export type ShutdownReason =
+	| 'SIGINT'
+	| 'SIGTERM'
+	| 'transportClosed'
+	| 'shutdown'
 
-	const server = new McpServer(
-		{
-			name,
-			version: typeof version === 'string' ? version : '1.0.0',
-			...implementationDetails,
-		},
-		{
-			capabilities: normalizedCapabilities as ServerOptions['capabilities'],
-			instructions: typeof instructions === 'string' ? instructions : undefined,
-		},
-	)
+/**
+ * Server lifecycle events and their payloads.
+ */
+export interface ServerLifecycleEvents {
+	/** `startServer` was called */
+	starting: { name: string }
+	/** Transport connected, or the HTTP host is listening */
+	connected: { name: string }
+	/** A client finished initialization (`sessionId` set over HTTP) */
+	clientInitialized: { clientInfo?: Implementation; sessionId?: string }
+	/** Shutdown began; in-flight tool calls are draining */
+	shuttingDown: { reason: ShutdownReason }
+}
 
-	setServerInstance(server)
+export type ServerLifecycleEvent = keyof ServerLifecycleEvents
 
-	// Ensure any registrations done before start are attached now
-	flushRegistrations(server)
+/** Runs during shutdown, after tool calls drain and transports close */
+export type ShutdownHook = () => void | Promise<void>
 
-	const chosenTransport = transport ?? new StdioServerTransport()
-	await server.connect(chosenTransport)
-	flushRegistrations(server)
+const DEFAULT_DRAIN_TIMEOUT_MS = 5000
 
-	// Ensure the process stays alive for stdio transports, mirroring SDK behavior in Node
-	if (
-		typeof process !== 'undefined' &&
-		(process as unknown as { stdin?: unknown }).stdin
-	) {
-		const stdin = (process as unknown as { stdin?: { resume?: () => void } })
-			.stdin
-		stdin?.resume?.()
-	}
+// ============================================================================
+// Structured Output
+// ============================================================================
 
-	// Exit the process when the transport closes (e.g., inspector disconnects)
-	const t = chosenTransport as StdioServerTransport & { onclose?: () => void }
-	t.onclose = () => {
-		if (
-			typeof process !== 'undefined' &&
-			(process as unknown as { exit?: (code?: number) => never }).exit
-		) {
-			try {
-				;(process as unknown as { exit: (code?: number) => never }).exit(0)
-			} catch {
-				// Ignore exit errors
-			}
-		}
-	}
+function isZodSchema(value: unknown): value is ZodTypeAny {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as { safeParse?: unknown }).safeParse === 'function'
+	)
 }
 
 /**
- * Register a prompt with the MCP server.
- * Can be called before startServer() - registration will be queued.
+ * Build a Zod parser from an output schema, or undefined for JSON Schema.
  */
-export function prompt(
-	name: string,
-	options: RegisterPromptOptions,
-	handler: PromptHandler,
-): void {
-	const server = getServerInstance()
-	if (server) {
-		server.registerPrompt(
-			name,
-			options as unknown as SDKRegisterPromptOptions,
-			handler,
-		)
-		return
+function toOutputParser(outputSchema: unknown): ZodTypeAny | undefined {
+	if (isZodSchema(outputSchema)) {
+		return outputSchema
 	}
-	enqueueRegistration({ kind: 'prompt', name, options, handler })
-}
-
-/**
- * Register a tool with the MCP server.
- * Can be called before startServer() - registration will be queued.
- */
-export function tool(
-	name: string,
-	options: ToolOptions,
-	handler: ToolHandler,
-): void {
-	const server = getServerInstance()
-	if (server) {
-		// Using 'any' because McpServer.registerTool has complex overloads
-		// that TypeScript can't resolve when extracting parameter types
-		server.registerTool(
-			name,
-			// biome-ignore lint/suspicious/noExplicitAny: SDK overloads prevent proper typing
-			options as any,
-			// biome-ignore lint/suspicious/noExplicitAny: SDK overloads prevent proper typing
-			handler as any,
-		)
-		return
+	if (
+		typeof outputSchema === 'object' &&
+		outputSchema !== null &&
+		Object.values(outputSchema).length > 0 &&
+		Object.values(outputSchema).every(isZodSchema)
+	) {
+		return z.object(outputSchema as ZodRawShape)
 	}
-	enqueueRegistration({ kind: 'tool', name, options, handler })
+	return undefined
 }
 
 /**
- * Register a resource with the MCP server.
- * Can be called before startServer() - registration will be queued.
+ * Wrap a handler that returns a typed object so the tool responds with
+ * validated `structuredContent` and a JSON text fallback. Results that are
+ * already errors or carry `structuredContent` pass through unchanged; any
+ * other result is validated as the output object (see `TypedToolHandler`).
  */
-export function resource(
-	name: string,
-	uri: string,
-	metadata: ResourceOptions,
-	readCallback: ResourceReadCallback,
-): void
-export function resource(
-	name: string,
-	template: ResourceTemplateType,
-	metadata: ResourceOptions,
-	readCallback: ResourceTemplateReadCallback,
-): void
-export function resource(
-	name: string,
-	uriOrTemplate: string | ResourceTemplateType,
-	metadata: ResourceOptions,
-	readCallback: ResourceReadCallback | ResourceTemplateReadCallback,
-): void {
-	const server = getServerInstance()
-	if (server) {
-		if (typeof uriOrTemplate === 'string') {
-			server.registerResource(
-				name,
-				uriOrTemplate,
-				metadata,
-				readCallback as ReadResourceCallback,
-			)
-		} else {
-			server.registerResource(
-				name,
-				uriOrTemplate,
-				metadata,
-				readCallback as ReadResourceTemplateCallback,
-			)
+function withStructuredOutput(
+	toolName: string,
+	parser: ZodTypeAny,
+	handler: ToolHandler,
+): ToolHandler {
+	return async (...params: unknown[]) => {
+		const result = await (handler as (...args: unknown[]) => unknown)(...params)
+		if (
+			typeof result === 'object' &&
+			result !== null &&
+			((result as CallToolResult).isError === true ||
+				'structuredContent' in result)
+		) {
+			return result
 		}
-		return
-	}
-	enqueueRegistration({
-		kind: 'resource',
-		name,
-		uriOrTemplate,
-		metadata,
-		readCallback,
-	})
-}
 
-/**
- * Register a resource template with the MCP server.
- * Can be called before startServer() - registration will be queued.
- */
-export function resourceTemplate(
-	name: string,
-	template: ResourceTemplateType,
-	metadata: ResourceOptions,
-	readCallback: ResourceTemplateReadCallback,
-): void {
-	const server = getServerInstance()
-	if (server) {
-		server.registerResource(name, template, metadata, readCallback)
-		return
+		const parsed = parser.safeParse(result)
+		if (!parsed.success) {
+			const issues = parsed.error.issues
+				.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+				.join('; ')
+			throw new Error(`Invalid output from tool ${toolName}: ${issues}`)
+		}
+		return respondStructured(
+			ResponseFormat.JSON,
+			parsed.data as Record<string, unknown>,
+		)
 	}
-	enqueueRegistration({
-		kind: 'resource',
-		name,
-		uriOrTemplate: template,
-		metadata,
-		readCallback,
-	})
-}
-
-/**
- * Returns the MCP server instance, if it has been started.
- * Useful for advanced operations like sending notifications or accessing the underlying server.
- */
-export function getServer(): McpServer | null {
-	return getServerInstance()
 }
 
 // ============================================================================
-// Logging API
+// Server Instances
 // ============================================================================
 
 type LogMethod = (data: unknown, logger?: string) => void
@@ -756,67 +740,1278 @@ const mcpToLogTapeLevel: Record<
 	emergency: 'fatal',
 }
 
-function emitLog(level: LoggingLevel, data: unknown, logger?: string): void {
-	// Dual-log to file if enabled (always, regardless of MCP connection)
-	if (fileLoggerRoot) {
-		const logTapeLevel = mcpToLogTapeLevel[level]
-		// LogTape expects (message, properties) - convert data appropriately
-		const props =
-			typeof data === 'object' && data !== null
-				? (data as Record<string, unknown>)
-				: { value: data }
-		const loggerInstance = logger
-			? (fileLogger?.subsystemLoggers?.[logger] ?? fileLoggerRoot)
-			: fileLoggerRoot
-
-		switch (logTapeLevel) {
-			case 'debug':
-				loggerInstance.debug('mcp-log', { level, logger, ...props })
-				break
-			case 'info':
-				loggerInstance.info('mcp-log', { level, logger, ...props })
-				break
-			case 'warning':
-				loggerInstance.warn('mcp-log', { level, logger, ...props })
-				break
-			case 'error':
-				loggerInstance.error('mcp-log', { level, logger, ...props })
-				break
-			case 'fatal':
-				loggerInstance.fatal('mcp-log', { level, logger, ...props })
-				break
-		}
-	}
-
-	// Send to MCP protocol
-	const server = getServerInstance()
-	if (server) {
-		void server.sendLoggingMessage({ level, data, logger })
-		return
-	}
-	enqueueRegistration({ kind: 'log', level, data, logger })
-}
-
-const logObject: LogApi = {
-	emit: emitLog,
-	debug: (data, logger) => emitLog('debug', data, logger),
-	info: (data, logger) => emitLog('info', data, logger),
-	notice: (data, logger) => emitLog('notice', data, logger),
-	warning: (data, logger) => emitLog('warning', data, logger),
-	error: (data, logger) => emitLog('error', data, logger),
-	critical: (data, logger) => emitLog('critical', data, logger),
-	alert: (data, logger) => emitLog('alert', data, logger),
-	emergency: (data, logger) => emitLog('emergency', data, logger),
+/**
+ * Options for `createServer`.
+ */
+export interface CreateServerOptions {
+	/**
+	 * Start on stdio on the next tick after the first registration
+	 * (default: false). Only the default instance behind the top-level
+	 * functions enables this.
+	 */
+	autoStart?: boolean
+	/**
+	 * Handle a `--describe [json|markdown|terminal]` process argument in
+	 * `startServer` by printing the manifest and exiting instead of
+	 * connecting (default: false). Only the default instance enables this.
+	 */
+	describeFlag?: boolean
 }
 
 /**
- * Logging helpers for sending MCP logging notifications.
- * Use `log.info(data)` or other severity helpers for convenience,
- * or `log.emit(level, data)` for dynamic levels.
+ * An independent MCP server with its own registrations, log queue, file
+ * logger, and transport. The top-level functions (`tool`, `log`,
+ * `startServer`, ...) are bound to a default instance.
  */
-export const log: LogApi = Object.freeze(logObject) as LogApi
+export interface McpServerInstance {
+	/** Start the server (see top-level `startServer`) */
+	startServer: (
+		name?: string,
+		serverOptions?: ServerConfig,
+		transport?: Transport,
+	) => Promise<void>
+	/** Stop the server and clear all state (see top-level `resetServer`) */
+	resetServer: () => Promise<void>
+	/** Register a prompt; queued until start */
+	prompt: (
+		name: string,
+		options: RegisterPromptOptions,
+		handler: PromptHandler,
+	) => void
+	/** Register a tool; queued until start */
+	tool: <O extends ToolOptions>(
+		name: string,
+		options: O,
+		handler: ToolHandlerFor<O>,
+	) => void
+	/** Add middlewares that run for every tool of this instance */
+	useMiddleware: (...middlewares: ToolMiddleware[]) => void
+	/** Register a resource (URI or template); queued until start */
+	resource: {
+		(
+			name: string,
+			uri: string,
+			metadata: ResourceOptions,
+			readCallback: ResourceReadCallback,
+		): void
+		(
+			name: string,
+			template: ResourceTemplateType,
+			metadata: ResourceOptions,
+			readCallback: ResourceTemplateReadCallback,
+		): void
+	}
+	/** Register a resource template; queued until start */
+	resourceTemplate: (
+		name: string,
+		template: ResourceTemplateType,
+		metadata: ResourceOptions,
+		readCallback: ResourceTemplateReadCallback,
+	) => void
+	/** Serve a watched file (see top-level `fileResource`) */
+	fileResource: (
+		name: string,
+		filePath: string,
+		options?: FileResourceOptions,
+	) => void
+	/** Serve watched files matching a glob (see top-level `globResource`) */
+	globResource: (
+		name: string,
+		pattern: string,
+		options?: GlobResourceOptions,
+	) => void
+	/** The started SDK server, or null */
+	getServer: () => McpServer | null
+	/** The running HTTP server when started with the HTTP transport, or null */
+	getHttpServer: () => Server<undefined> | null
+	/** Logging helpers scoped to this instance */
+	log: LogApi
+	/** Notify clients that the resource list changed; queued until start */
+	notifyResourceListChanged: () => void
+	/** Notify clients that the tool list changed; queued until start */
+	notifyToolListChanged: () => void
+	/** Notify clients that the prompt list changed; queued until start */
+	notifyPromptListChanged: () => void
+	/** Listen for a lifecycle event; returns an unsubscribe function */
+	onLifecycle: <E extends ServerLifecycleEvent>(
+		event: E,
+		listener: (payload: ServerLifecycleEvents[E]) => void,
+	) => () => void
+	/** Run a hook during shutdown; returns a function that removes it */
+	onShutdown: (hook: ShutdownHook) => () => void
+	/** Drain tool calls, run shutdown hooks, and close (see top-level `shutdown`) */
+	shutdown: (reason?: ShutdownReason) => Promise<void>
+	/** Manifest of every registration, queued or applied (see top-level `getManifest`) */
+	getManifest: (info?: { name?: string; version?: string }) => ServerManifest
+	/** Start on an in-memory transport with a connected client */
+	createTestHarness: (
+		name?: string,
+		serverOptions?: ServerConfig,
+		clientCapabilities?: ClientCapabilities,
+	) => Promise<McpTestHarness>
+}
 
-// ============================================================================
+/**
+ * Create an independent MCP server instance.
+ *
+ * Each instance has the same API as the top-level functions but its own
+ * state, so one process can host several servers (e.g. two plugins bundled
+ * into one binary, each on its own transport) and tests can run in parallel.
+ *
+ * @param options - Instance options
+ * @returns Server instance
+ *
+ * @example
+ * ```ts
+ * const notes = createServer();
+ * notes.tool("search_notes", { ... }, handler);
+ *
+ * const mail = createServer();
+ * mail.tool("send_mail", { ... }, handler);
+ *
+ * await notes.startServer("notes", { transport: { type: "http", port: 3333 } });
+ * await mail.startServer("mail", { transport: { type: "http", port: 3334 } });
+ * ```
+ */
+export function createServer(
+	options: CreateServerOptions = {},
+): McpServerInstance {
+	let serverInstance: McpServer | null = null
+	const deferredRegistrations: DeferredRegistration[] = []
+
+	// Definitions applied so far, replayed onto each new HTTP session server
+	const registeredDefinitions: DeferredDefinition[] = []
+
+	// HTTP transport state (one McpServer per client session)
+	let httpHost: StreamableHttpHost | null = null
+
+	// File logging state (optional observability layer)
+	let fileLogger: PluginLogger | null = null
+	let fileLoggerRoot: Logger | null = null
+
+	let autoStartTimer: ReturnType<typeof setTimeout> | null = null
+
+	// Global tool middlewares, outermost first
+	const toolMiddlewares: ToolMiddleware[] = []
+
+	// Resource URIs each server's client subscribed to, and active file watchers
+	const subscriptions = new WeakMap<McpServer, Set<string>>()
+	const stopWatchers: Array<() => void> = []
+
+	// Lifecycle listeners, shutdown hooks, and tool calls still running
+	const lifecycleListeners = new Map<
+		ServerLifecycleEvent,
+		Set<(payload: never) => void>
+	>()
+	const shutdownHooks: ShutdownHook[] = []
+	const inFlightCalls = new Set<Promise<unknown>>()
+	const removeSignalHandlers: Array<() => void> = []
+	let drainTimeoutMs = DEFAULT_DRAIN_TIMEOUT_MS
+	let flushOnShutdown: readonly Flushable[] = []
+	let shutdownPromise: Promise<void> | null = null
+
+	function hasServerStarted(): boolean {
+		return serverInstance !== null
+	}
+
+	function enqueueRegistration(reg: DeferredRegistration): void {
+		deferredRegistrations.push(reg)
+		if (options.autoStart) {
+			scheduleAutomaticStart()
+		}
+	}
+
+	/**
+	 * Servers that receive registrations, logs, and notifications once started.
+	 * In HTTP mode the primary server holds registrations only, and each
+	 * client session has its own connected server.
+	 */
+	function getTargetServers(): McpServer[] {
+		if (!serverInstance) {
+			return []
+		}
+		if (!httpHost) {
+			return [serverInstance]
+		}
+		return [
+			serverInstance,
+			...[...httpHost.sessions.values()].map((session) => session.server),
+		]
+	}
+
+	/**
+	 * Server connected to the client that sent a request: the session's own
+	 * server in HTTP mode, the single started server otherwise.
+	 */
+	function getRequestServer(sessionId?: string): McpServer | null {
+		const session = sessionId ? httpHost?.sessions.get(sessionId) : undefined
+		return session?.server ?? serverInstance
+	}
+
+	/**
+	 * Register a definition on every started server, or queue it until start.
+	 */
+	function addDefinition(reg: DeferredDefinition): void {
+		if (!hasServerStarted()) {
+			enqueueRegistration(reg)
+			return
+		}
+		trackDefinition(reg)
+		for (const target of getTargetServers()) {
+			registerDefinition(target, reg)
+		}
+	}
+
+	/**
+	 * Remember an applied definition for new HTTP sessions and start watching
+	 * it if it is a file-backed resource.
+	 */
+	function trackDefinition(reg: DeferredDefinition): void {
+		registeredDefinitions.push(reg)
+		if (reg.kind === 'resource' && reg.watch) {
+			stopWatchers.push(
+				reg.watch({
+					onUpdated: sendResourceUpdated,
+					onListChanged: () => notify('resourceListChanged'),
+				}),
+			)
+		}
+	}
+
+	function getManifest(
+		info: { name?: string; version?: string } = {},
+	): ServerManifest {
+		const queued = deferredRegistrations.filter(
+			(reg): reg is DeferredDefinition =>
+				reg.kind === 'tool' || reg.kind === 'prompt' || reg.kind === 'resource',
+		)
+		return buildManifest(
+			{ name: info.name ?? 'mcpez', version: info.version ?? '1.0.0' },
+			[...registeredDefinitions, ...queued],
+		)
+	}
+
+	function hasWatchedResources(): boolean {
+		return [...deferredRegistrations, ...registeredDefinitions].some(
+			(reg) => reg.kind === 'resource' && reg.watch !== undefined,
+		)
+	}
+
+	/**
+	 * Accept resources/subscribe and resources/unsubscribe on a server.
+	 * Capabilities are fixed once connected, so this runs before connecting.
+	 */
+	function enableSubscriptions(target: McpServer): void {
+		const subscribed = new Set<string>()
+		subscriptions.set(target, subscribed)
+		target.server.registerCapabilities({ resources: { subscribe: true } })
+		target.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+			subscribed.add(request.params.uri)
+			return {}
+		})
+		target.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+			subscribed.delete(request.params.uri)
+			return {}
+		})
+	}
+
+	function sendResourceUpdated(uri: string): void {
+		for (const server of getTargetServers()) {
+			if (server.isConnected() && subscriptions.get(server)?.has(uri)) {
+				// The transport can close before the send (e.g. an HTTP session
+				// ending); there is no one left to notify then
+				server.server.sendResourceUpdated({ uri }).catch(() => {})
+			}
+		}
+	}
+
+	/**
+	 * Wrap a tool handler so each call runs in a child trace context through
+	 * the global middlewares (read at call time, so later `useMiddleware`
+	 * calls apply to every tool) and then the tool's own middlewares.
+	 */
+	function withMiddleware(
+		toolName: string,
+		middleware: readonly ToolMiddleware[],
+		handler: ToolHandler,
+	): ToolHandler {
+		// The SDK passes (args, extra) to tools with an input schema, (extra) otherwise
+		return (...params: unknown[]) => {
+			if (shutdownPromise) {
+				throw new Error(`Server is shutting down; "${toolName}" was not run`)
+			}
+			const hasArgs = params.length > 1
+			const sdkExtra = params[params.length - 1] as SdkToolExtra
+			const context: ToolCallContext = {
+				toolName,
+				args: hasArgs ? (params[0] as Record<string, unknown>) : {},
+				extra: createToolExtra(
+					sdkExtra,
+					getRequestServer(sdkExtra.sessionId)?.server,
+				),
+				trace: createTraceContext(),
+			}
+			const call = runWithContextAsync(context.trace, () =>
+				runToolMiddleware(
+					[...toolMiddlewares, ...middleware],
+					context,
+					(ctx) =>
+						hasArgs
+							? handler(ctx.args, ctx.extra)
+							: (handler as unknown as (extra: ToolExtra) => unknown)(
+									ctx.extra,
+								),
+				),
+			)
+			// Tracked so shutdown can wait for the call to finish
+			inFlightCalls.add(call)
+			const untrack = () => {
+				inFlightCalls.delete(call)
+			}
+			call.then(untrack, untrack)
+			return call
+		}
+	}
+
+	function flushRegistrations(target: McpServer): void {
+		const remaining: DeferredRegistration[] = []
+		const queued = deferredRegistrations.splice(0)
+		for (const reg of queued) {
+			switch (reg.kind) {
+				case 'prompt':
+				case 'tool':
+				case 'resource':
+					registerDefinition(target, reg)
+					trackDefinition(reg)
+					break
+				case 'log': {
+					if (target.isConnected()) {
+						void target.sendLoggingMessage({
+							level: reg.level as Parameters<
+								typeof target.sendLoggingMessage
+							>[0]['level'],
+							logger: reg.logger,
+							data: reg.data,
+						})
+					} else {
+						remaining.push(reg)
+					}
+					break
+				}
+				case 'resourceListChanged':
+					target.sendResourceListChanged()
+					break
+				case 'toolListChanged':
+					target.sendToolListChanged()
+					break
+				case 'promptListChanged':
+					target.sendPromptListChanged()
+					break
+			}
+		}
+		if (remaining.length > 0) {
+			deferredRegistrations.push(...remaining)
+		}
+	}
+
+	// --------------------------------------------------------------------------
+	// Auto-start scheduling
+	// --------------------------------------------------------------------------
+
+	function cancelPendingAutoStart(): void {
+		if (autoStartTimer !== null && typeof clearTimeout === 'function') {
+			clearTimeout(autoStartTimer)
+		}
+		autoStartTimer = null
+	}
+
+	function scheduleAutomaticStart(): void {
+		if (hasServerStarted() || autoStartTimer !== null) {
+			return
+		}
+
+		if (typeof setTimeout !== 'function') {
+			return
+		}
+
+		autoStartTimer = setTimeout(() => {
+			autoStartTimer = null
+			if (!hasServerStarted()) {
+				void startServer().catch((error) => {
+					const consoleLike = globalThis.console as
+						| {
+								error?: (
+									message?: unknown,
+									...optionalParams: unknown[]
+								) => void
+						  }
+						| undefined
+					consoleLike?.error?.(
+						'Failed to automatically start MCP server:',
+						error,
+					)
+				})
+			}
+		}, 0)
+	}
+
+	// --------------------------------------------------------------------------
+	// Lifecycle
+	// --------------------------------------------------------------------------
+
+	function onLifecycle<E extends ServerLifecycleEvent>(
+		event: E,
+		listener: (payload: ServerLifecycleEvents[E]) => void,
+	): () => void {
+		const listeners = lifecycleListeners.get(event) ?? new Set()
+		lifecycleListeners.set(event, listeners)
+		listeners.add(listener)
+		return () => {
+			listeners.delete(listener)
+		}
+	}
+
+	function emitLifecycle<E extends ServerLifecycleEvent>(
+		event: E,
+		payload: ServerLifecycleEvents[E],
+	): void {
+		for (const listener of lifecycleListeners.get(event) ?? []) {
+			try {
+				;(listener as (payload: ServerLifecycleEvents[E]) => void)(payload)
+			} catch (error) {
+				// A failing listener must not break startup or shutdown
+				fileLoggerRoot?.error('Lifecycle listener failed', { event, error })
+			}
+		}
+	}
+
+	function onShutdown(hook: ShutdownHook): () => void {
+		shutdownHooks.push(hook)
+		return () => {
+			const index = shutdownHooks.indexOf(hook)
+			if (index !== -1) shutdownHooks.splice(index, 1)
+		}
+	}
+
+	/**
+	 * Shut down once; later calls (e.g. the transport closing during
+	 * shutdown) share the first call's promise.
+	 */
+	function shutdown(reason: ShutdownReason = 'shutdown'): Promise<void> {
+		shutdownPromise ??= runShutdown(reason)
+		return shutdownPromise
+	}
+
+	async function runShutdown(reason: ShutdownReason): Promise<void> {
+		emitLifecycle('shuttingDown', { reason })
+		fileLoggerRoot?.info('MCP server shutting down', {
+			reason,
+			inFlight: inFlightCalls.size,
+		})
+
+		// Let running tool calls reply before the transport closes
+		try {
+			await withTimeout(Promise.allSettled([...inFlightCalls]), drainTimeoutMs)
+		} catch (error) {
+			if (!(error instanceof TimeoutError)) throw error
+			fileLoggerRoot?.warn('Tool calls still running after drain timeout', {
+				inFlight: inFlightCalls.size,
+				drainTimeoutMs,
+			})
+		}
+
+		// Handlers settle a few microtasks before the SDK sends their replies
+		await new Promise((resolve) => setTimeout(resolve, 0))
+
+		for (const remove of removeSignalHandlers.splice(0)) remove()
+		for (const stop of stopWatchers.splice(0)) stop()
+		await httpHost?.close()
+		await serverInstance?.close()
+
+		for (const hook of shutdownHooks) {
+			try {
+				await hook()
+			} catch (error) {
+				fileLoggerRoot?.error('Shutdown hook failed', { error })
+			}
+		}
+
+		for (const target of flushOnShutdown) {
+			try {
+				await target.flush()
+			} catch (error) {
+				fileLoggerRoot?.error('Shutdown flush failed', { error })
+			}
+		}
+
+		fileLoggerRoot?.info('MCP server shut down', { reason })
+		await fileLogger?.flush()
+	}
+
+	/**
+	 * Shut down on SIGINT/SIGTERM and exit. A second signal while draining
+	 * exits immediately.
+	 */
+	function installSignalHandlers(): void {
+		for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+			const handler = () => {
+				if (shutdownPromise) {
+					process.exit(1)
+				}
+				void shutdown(signal).finally(() => process.exit(0))
+			}
+			process.on(signal, handler)
+			removeSignalHandlers.push(() => process.off(signal, handler))
+		}
+	}
+
+	async function startServer(
+		name = 'mcpez',
+		serverOptions?: ServerConfig,
+		transport?: Transport,
+	): Promise<void> {
+		cancelPendingAutoStart()
+
+		if (hasServerStarted()) {
+			throw new Error(
+				'MCP server already started. startServer must be called only once.',
+			)
+		}
+
+		const {
+			version,
+			capabilities,
+			instructions,
+			fileLogging,
+			transport: transportConfig,
+			shutdown: shutdownConfig,
+			...implementationDetails
+		} = serverOptions ?? {}
+
+		const describeFormat = options.describeFlag
+			? getDescribeFormat(process.argv.slice(2))
+			: undefined
+		if (describeFormat) {
+			const manifest = getManifest({
+				name,
+				version: typeof version === 'string' ? version : undefined,
+			})
+			process.stdout.write(`${formatManifest(manifest, describeFormat)}\n`)
+			process.exit(0)
+		}
+
+		emitLifecycle('starting', { name })
+		drainTimeoutMs = shutdownConfig?.drainTimeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS
+		flushOnShutdown = shutdownConfig?.flush ?? []
+
+		const httpConfig =
+			typeof transportConfig === 'object' && transportConfig.type === 'http'
+				? transportConfig
+				: undefined
+		if (httpConfig && transport) {
+			throw new Error(
+				'A custom transport cannot be combined with the HTTP transport option.',
+			)
+		}
+
+		// Initialize file logging if configured
+		if (fileLogging?.enabled) {
+			fileLogger = createPluginLogger({
+				name,
+				subsystems: fileLogging.subsystems,
+				lowestLevel: fileLogging.level,
+				maxSize: fileLogging.maxSize,
+				maxFiles: fileLogging.maxFiles,
+			})
+			await fileLogger.initLogger()
+			fileLoggerRoot = fileLogger.rootLogger
+			fileLoggerRoot.info('MCP server starting with file logging enabled', {
+				name,
+			})
+		}
+
+		const baseCapabilities =
+			capabilities && typeof capabilities === 'object'
+				? (capabilities as Record<string, unknown>)
+				: undefined
+
+		const normalizedCapabilities: Record<string, unknown> = {
+			...(baseCapabilities ?? {}),
+		}
+		const loggingCapability =
+			baseCapabilities &&
+			typeof baseCapabilities.logging === 'object' &&
+			baseCapabilities.logging !== null
+				? (baseCapabilities.logging as Record<string, unknown>)
+				: {}
+		normalizedCapabilities.logging = loggingCapability
+
+		const createMcpServer = () => {
+			const created = new McpServer(
+				{
+					name,
+					version: typeof version === 'string' ? version : '1.0.0',
+					...implementationDetails,
+				},
+				{
+					capabilities: normalizedCapabilities as ServerOptions['capabilities'],
+					instructions:
+						typeof instructions === 'string' ? instructions : undefined,
+				},
+			)
+			if (hasWatchedResources()) {
+				enableSubscriptions(created)
+			}
+			return created
+		}
+
+		const server = createMcpServer()
+
+		serverInstance = server
+
+		// Ensure any registrations done before start are attached now
+		flushRegistrations(server)
+
+		if (httpConfig) {
+			// Each client session gets its own server with every registration so far.
+			// Logs queued before start go to the first session that initializes.
+			httpHost = serveStreamableHttp(httpConfig, {
+				createSessionServer: () => {
+					const sessionServer = createMcpServer()
+					for (const reg of registeredDefinitions) {
+						registerDefinition(sessionServer, reg)
+					}
+					return sessionServer
+				},
+				onSessionInitialized: (session) => {
+					flushRegistrations(session.server)
+					emitLifecycle('clientInitialized', {
+						clientInfo: session.server.server.getClientVersion(),
+						sessionId: session.transport.sessionId,
+					})
+				},
+			})
+			fileLoggerRoot?.info('MCP server listening over HTTP', {
+				name,
+				url: httpHost.server.url.href,
+			})
+			if (shutdownConfig?.signals ?? true) {
+				installSignalHandlers()
+			}
+			emitLifecycle('connected', { name })
+			return
+		}
+
+		server.server.oninitialized = () =>
+			emitLifecycle('clientInitialized', {
+				clientInfo: server.server.getClientVersion(),
+			})
+
+		const chosenTransport = transport ?? new StdioServerTransport()
+		await server.connect(chosenTransport)
+		flushRegistrations(server)
+
+		const isStdio = chosenTransport instanceof StdioServerTransport
+		if (shutdownConfig?.signals ?? isStdio) {
+			installSignalHandlers()
+		}
+		emitLifecycle('connected', { name })
+
+		if (!isStdio) {
+			return
+		}
+
+		// Ensure the process stays alive for stdio transports, mirroring SDK behavior in Node
+		if (
+			typeof process !== 'undefined' &&
+			(process as unknown as { stdin?: unknown }).stdin
+		) {
+			const stdin = (process as unknown as { stdin?: { resume?: () => void } })
+				.stdin
+			stdin?.resume?.()
+		}
+
+		// Shut down and exit when the transport closes (e.g., inspector disconnects)
+		chosenTransport.onclose = () => {
+			void shutdown('transportClosed').finally(() => {
+				if (
+					typeof process !== 'undefined' &&
+					(process as unknown as { exit?: (code?: number) => never }).exit
+				) {
+					try {
+						;(process as unknown as { exit: (code?: number) => never }).exit(0)
+					} catch {
+						// Ignore exit errors
+					}
+				}
+			})
+		}
+	}
+
+	async function resetServer(): Promise<void> {
+		cancelPendingAutoStart()
+		const server = serverInstance
+		const host = httpHost
+		serverInstance = null
+		httpHost = null
+		deferredRegistrations.length = 0
+		registeredDefinitions.length = 0
+		toolMiddlewares.length = 0
+		for (const stop of stopWatchers.splice(0)) stop()
+		for (const remove of removeSignalHandlers.splice(0)) remove()
+		lifecycleListeners.clear()
+		shutdownHooks.length = 0
+		inFlightCalls.clear()
+		shutdownPromise = null
+		flushOnShutdown = []
+		// Release LogTape so a later startServer() configures file logging anew
+		const logger = fileLogger
+		fileLogger = null
+		fileLoggerRoot = null
+		await logger?.flush()
+		await host?.close()
+		await server?.close()
+	}
+
+	// --------------------------------------------------------------------------
+	// Logging
+	// --------------------------------------------------------------------------
+
+	function emitLog(level: LoggingLevel, data: unknown, logger?: string): void {
+		// Dual-log to file if enabled (always, regardless of MCP connection)
+		if (fileLoggerRoot) {
+			const logTapeLevel = mcpToLogTapeLevel[level]
+			// LogTape expects (message, properties) - convert data appropriately
+			const props =
+				typeof data === 'object' && data !== null
+					? (data as Record<string, unknown>)
+					: { value: data }
+			const loggerInstance = logger
+				? (fileLogger?.subsystemLoggers?.[logger] ?? fileLoggerRoot)
+				: fileLoggerRoot
+
+			switch (logTapeLevel) {
+				case 'debug':
+					loggerInstance.debug('mcp-log', { level, logger, ...props })
+					break
+				case 'info':
+					loggerInstance.info('mcp-log', { level, logger, ...props })
+					break
+				case 'warning':
+					loggerInstance.warn('mcp-log', { level, logger, ...props })
+					break
+				case 'error':
+					loggerInstance.error('mcp-log', { level, logger, ...props })
+					break
+				case 'fatal':
+					loggerInstance.fatal('mcp-log', { level, logger, ...props })
+					break
+			}
+		}
+
+		// Send to MCP protocol (every connected session in HTTP mode)
+		if (hasServerStarted()) {
+			for (const server of getTargetServers()) {
+				if (server.isConnected()) {
+					void server.sendLoggingMessage({ level, data, logger })
+				}
+			}
+			return
+		}
+		enqueueRegistration({ kind: 'log', level, data, logger })
+	}
+
+	const log: LogApi = Object.freeze({
+		emit: emitLog,
+		debug: (data, logger) => emitLog('debug', data, logger),
+		info: (data, logger) => emitLog('info', data, logger),
+		notice: (data, logger) => emitLog('notice', data, logger),
+		warning: (data, logger) => emitLog('warning', data, logger),
+		error: (data, logger) => emitLog('error', data, logger),
+		critical: (data, logger) => emitLog('critical', data, logger),
+		alert: (data, logger) => emitLog('alert', data, logger),
+		emergency: (data, logger) => emitLog('emergency', data, logger),
+	} satisfies LogApi)
+
+	// --------------------------------------------------------------------------
+	// Notifications
+	// --------------------------------------------------------------------------
+
+	function notify(kind: DeferredNotification['kind']): void {
+		if (!hasServerStarted()) {
+			enqueueRegistration({ kind })
+			return
+		}
+		for (const server of getTargetServers()) {
+			switch (kind) {
+				case 'resourceListChanged':
+					server.sendResourceListChanged()
+					break
+				case 'toolListChanged':
+					server.sendToolListChanged()
+					break
+				case 'promptListChanged':
+					server.sendPromptListChanged()
+					break
+			}
+		}
+	}
+
+	// --------------------------------------------------------------------------
+	// Test harness
+	// --------------------------------------------------------------------------
+
+	async function createTestHarness(
+		name = 'test-server',
+		serverOptions?: ServerConfig,
+		clientCapabilities?: ClientCapabilities,
+	): Promise<McpTestHarness> {
+		const [clientTransport, serverTransport] =
+			InMemoryTransport.createLinkedPair()
+		const logs: CapturedLog[] = []
+
+		const client = new Client(
+			{ name: `${name}-test-client`, version: '1.0.0' },
+			{ capabilities: clientCapabilities },
+		)
+		client.setNotificationHandler(LoggingMessageNotificationSchema, (n) => {
+			logs.push(n.params)
+		})
+
+		await startServer(
+			name,
+			{ ...serverOptions, transport: 'stdio' },
+			serverTransport,
+		)
+		const server = serverInstance as McpServer
+		await client.connect(clientTransport)
+
+		return {
+			client,
+			server,
+			logs,
+			listTools: async () => (await client.listTools()).tools,
+			callTool: async (toolName, args) =>
+				(await client.callTool({
+					name: toolName,
+					arguments: args,
+				})) as CallToolResult,
+			readResource: (uri) => client.readResource({ uri }),
+			getPrompt: (promptName, args) =>
+				client.getPrompt({ name: promptName, arguments: args }),
+			close: async () => {
+				await client.close()
+				await resetServer()
+			},
+		}
+	}
+
+	return {
+		startServer,
+		resetServer,
+		prompt: (name, promptOptions, handler) =>
+			addDefinition({ kind: 'prompt', name, options: promptOptions, handler }),
+		tool: (name, toolOptions, handler) => {
+			const { middleware = [], ...sdkOptions } = toolOptions
+			const parser = toOutputParser(sdkOptions.outputSchema)
+			const baseHandler = handler as ToolHandler
+			addDefinition({
+				kind: 'tool',
+				name,
+				options: sdkOptions,
+				handler: withMiddleware(
+					name,
+					middleware,
+					parser
+						? withStructuredOutput(name, parser, baseHandler)
+						: baseHandler,
+				),
+			})
+		},
+		useMiddleware: (...middlewares) => {
+			toolMiddlewares.push(...middlewares)
+		},
+		resource: (
+			name: string,
+			uriOrTemplate: string | ResourceTemplateType,
+			metadata: ResourceOptions,
+			readCallback: ResourceReadCallback | ResourceTemplateReadCallback,
+		) =>
+			addDefinition({
+				kind: 'resource',
+				name,
+				uriOrTemplate,
+				metadata,
+				readCallback,
+			}),
+		resourceTemplate: (name, template, metadata, readCallback) =>
+			addDefinition({
+				kind: 'resource',
+				name,
+				uriOrTemplate: template,
+				metadata,
+				readCallback,
+			}),
+		fileResource: (name, filePath, resourceOptions) =>
+			addDefinition({
+				kind: 'resource',
+				name,
+				...createFileResource(filePath, resourceOptions),
+			}),
+		globResource: (name, pattern, resourceOptions) =>
+			addDefinition({
+				kind: 'resource',
+				name,
+				...createGlobResource(pattern, resourceOptions),
+			}),
+		getServer: () => serverInstance,
+		getHttpServer: () => httpHost?.server ?? null,
+		log,
+		notifyResourceListChanged: () => notify('resourceListChanged'),
+		notifyToolListChanged: () => notify('toolListChanged'),
+		notifyPromptListChanged: () => notify('promptListChanged'),
+		onLifecycle,
+		onShutdown,
+		shutdown,
+		getManifest,
+		createTestHarness,
+	}
+}
+
+// ============================================================================
+// Default Instance
+// ============================================================================
+
+/** Instance behind the top-level functions; auto-starts on stdio */
+const defaultServer = createServer({ autoStart: true, describeFlag: true })
+
+/**
+ * Start the MCP server with optional configuration.
+ * Must only be called once per process.
+ *
+ * @param name - Server name (used for identification and file logging)
+ * @param serverOptions - Configuration including capabilities, instructions, file logging, and transport
+ * @param transport - Optional custom transport (defaults to StdioServerTransport, not allowed with HTTP).
+ *   Keep-alive and exit-on-close only apply to stdio transports.
+ *
+ * @example
+ * ```ts
+ * // Basic usage - auto-starts with defaults
+ * tool("greet", { ... }, handler);
+ *
+ * // With file logging for debugging
+ * await startServer("my-plugin", {
+ *   version: "1.0.0",
+ *   fileLogging: {
+ *     enabled: true,
+ *     subsystems: ["api", "cache"],
+ *     level: "debug",
+ *   },
+ * });
+ *
+ * // As a local HTTP daemon shared by several clients
+ * await startServer("my-daemon", {
+ *   transport: { type: "http", port: 3333 },
+ * });
+ *
+ * // Flush SLO event writes on shutdown (not done automatically)
+ * await startServer("my-plugin", { shutdown: { flush: [sloTracker] } });
+ * ```
+ */
+export function startServer(
+	name = 'mcpez',
+	serverOptions?: ServerConfig,
+	transport?: Transport,
+): Promise<void> {
+	return defaultServer.startServer(name, serverOptions, transport)
+}
+
+/**
+ * Stop the server and clear all state of the default instance: the server,
+ * the deferred registration queue, recorded registrations, any pending
+ * auto-start, the HTTP host, and file logging.
+ *
+ * Intended for tests that start a fresh server per test (see
+ * `createTestHarness`). After reset, `startServer` may be called again.
+ *
+ * @example
+ * ```ts
+ * afterEach(async () => {
+ *   await resetServer();
+ * });
+ * ```
+ */
+export function resetServer(): Promise<void> {
+	return defaultServer.resetServer()
+}
+
+/**
+ * Register a prompt with the MCP server.
+ * Can be called before startServer() - registration will be queued.
+ */
+export function prompt(
+	name: string,
+	options: RegisterPromptOptions,
+	handler: PromptHandler,
+): void {
+	defaultServer.prompt(name, options, handler)
+}
+
+/**
+ * Register a tool with the MCP server.
+ * Can be called before startServer() - registration will be queued.
+ *
+ * With a Zod `outputSchema`, the handler's return type is inferred from the
+ * schema and the returned object is validated and sent as `structuredContent`.
+ *
+ * @example
+ * ```ts
+ * tool("count_notes", {
+ *   inputSchema: { folder: z.string() },
+ *   outputSchema: { folder: z.string(), count: z.number() },
+ * }, async ({ folder }) => ({ folder: String(folder), count: 42 }));
+ * ```
+ */
+export function tool<O extends ToolOptions>(
+	name: string,
+	options: O,
+	handler: ToolHandlerFor<O>,
+): void {
+	defaultServer.tool(name, options, handler)
+}
+
+/**
+ * Add middlewares that run around every tool call of the default server.
+ *
+ * Global middlewares run in registration order (first is outermost), before
+ * any per-tool `middleware` from the tool's options. They apply to tools
+ * registered before and after this call. Each call runs in a child
+ * `TraceContext`, so `getCurrentContext()` works inside handlers.
+ *
+ * @param middlewares - Middlewares to append
+ *
+ * @example
+ * ```ts
+ * useMiddleware(async (ctx, next) => {
+ *   if (!isAuthorized(ctx.extra)) {
+ *     return { content: [{ type: "text", text: "Unauthorized" }], isError: true };
+ *   }
+ *   return next();
+ * });
+ * ```
+ */
+export function useMiddleware(...middlewares: ToolMiddleware[]): void {
+	defaultServer.useMiddleware(...middlewares)
+}
+
+/**
+ * Register a resource with the MCP server.
+ * Can be called before startServer() - registration will be queued.
+ */
+export function resource(
+	name: string,
+	uri: string,
+	metadata: ResourceOptions,
+	readCallback: ResourceReadCallback,
+): void
+export function resource(
+	name: string,
+	template: ResourceTemplateType,
+	metadata: ResourceOptions,
+	readCallback: ResourceTemplateReadCallback,
+): void
+export function resource(
+	name: string,
+	uriOrTemplate: string | ResourceTemplateType,
+	metadata: ResourceOptions,
+	readCallback: ResourceReadCallback | ResourceTemplateReadCallback,
+): void {
+	if (typeof uriOrTemplate === 'string') {
+		defaultServer.resource(
+			name,
+			uriOrTemplate,
+			metadata,
+			readCallback as ResourceReadCallback,
+		)
+	} else {
+		defaultServer.resource(
+			name,
+			uriOrTemplate,
+			metadata,
+			readCallback as ResourceTemplateReadCallback,
+		)
+	}
+}
+
+/**
+ * Register a resource template with the MCP server.
+ * Can be called before startServer() - registration will be queued.
+ */
+export function resourceTemplate(
+	name: string,
+	template: ResourceTemplateType,
+	metadata: ResourceOptions,
+	readCallback: ResourceTemplateReadCallback,
+): void {
+	defaultServer.resourceTemplate(name, template, metadata, readCallback)
+}
+
+/**
+ * Serve a file as a resource at its `file://` URI.
+ * Can be called before startServer() - registration will be queued.
+ *
+ * The MIME type is derived from the extension unless `options.mimeType` is
+ * set. The file is watched, and clients subscribed to its URI receive
+ * `resources/updated` when it changes. Register watched resources before the
+ * server starts so it can advertise subscription support.
+ *
+ * @example
+ * ```ts
+ * fileResource("todo", "./TODO.md", { description: "Current task list" });
+ * ```
+ */
+export function fileResource(
+	name: string,
+	filePath: string,
+	options?: FileResourceOptions,
+): void {
+	defaultServer.fileResource(name, filePath, options)
+}
+
+/**
+ * Serve every file matching a glob as a resource.
+ * Can be called before startServer() - registration will be queued.
+ *
+ * Matches are listed through a resource template (`scanGlob` under
+ * `options.cwd`), each with a MIME type derived from its extension. The
+ * directory is watched: subscribed clients receive `resources/updated` for
+ * changed files, and all clients receive `resources/list_changed` when
+ * files are added or removed.
+ *
+ * @example
+ * ```ts
+ * globResource("notes", "**\/*.md", { cwd: vaultPath, description: "Vault notes" });
+ * ```
+ */
+export function globResource(
+	name: string,
+	pattern: string,
+	options?: GlobResourceOptions,
+): void {
+	defaultServer.globResource(name, pattern, options)
+}
+
+/**
+ * Build a manifest of every registered tool, prompt, and resource.
+ *
+ * Works before the server starts (from the registration queue) and without
+ * a transport. Input and output schemas are JSON Schema, converted the same
+ * way as in `tools/list`. Entries are sorted by name.
+ *
+ * @param info - Server name and version to record (default: "mcpez", "1.0.0")
+ * @returns Manifest
+ *
+ * @example
+ * ```ts
+ * import "./tools"; // registers tools
+ * const manifest = getManifest({ name: "my-plugin", version: pkg.version });
+ * await Bun.write("manifest.json", formatManifest(manifest, "json"));
+ * ```
+ */
+export function getManifest(info?: {
+	name?: string
+	version?: string
+}): ServerManifest {
+	return defaultServer.getManifest(info)
+}
+
+/**
+ * Listen for a server lifecycle event.
+ *
+ * @param event - "starting", "connected", "clientInitialized", or "shuttingDown"
+ * @param listener - Called with the event payload
+ * @returns Function that removes the listener
+ *
+ * @example
+ * ```ts
+ * onLifecycle("clientInitialized", ({ clientInfo }) => {
+ *   log.info({ client: clientInfo?.name });
+ * });
+ * ```
+ */
+export function onLifecycle<E extends ServerLifecycleEvent>(
+	event: E,
+	listener: (payload: ServerLifecycleEvents[E]) => void,
+): () => void {
+	return defaultServer.onLifecycle(event, listener)
+}
+
+/**
+ * Run a hook when the server shuts down, after in-flight tool calls drain
+ * and transports close. Hooks run in registration order; a failing hook is
+ * logged and does not stop the others.
+ *
+ * Pending SLO event writes are not flushed automatically: flush the
+ * tracker here, or pass it in `startServer`'s `shutdown.flush`.
+ *
+ * @param hook - Cleanup function (may be async)
+ * @returns Function that removes the hook
+ *
+ * @example
+ * ```ts
+ * onShutdown(() => sloTracker.flush());
+ * ```
+ */
+export function onShutdown(hook: ShutdownHook): () => void {
+	return defaultServer.onShutdown(hook)
+}
+
+/**
+ * Shut the server down gracefully: emit "shuttingDown", stop accepting tool
+ * calls, wait up to `shutdown.drainTimeoutMs` for in-flight calls, close
+ * the transport, run `onShutdown` hooks, and flush the file logger.
+ *
+ * Runs automatically on SIGINT/SIGTERM and when a stdio client disconnects;
+ * calling it again returns the same promise. Does not exit the process
+ * itself, though stdio servers still exit once their transport closes.
+ *
+ * @param reason - Reason passed to "shuttingDown" listeners (default: "shutdown")
+ */
+export function shutdown(reason?: ShutdownReason): Promise<void> {
+	return defaultServer.shutdown(reason)
+}
+
+/**
+ * Returns the MCP server instance, if it has been started.
+ * Useful for advanced operations like sending notifications or accessing the underlying server.
+ *
+ * With the HTTP transport this is the primary server holding registrations;
+ * each client session is served by its own copy.
+ */
+export function getServer(): McpServer | null {
+	return defaultServer.getServer()
+}
+
+/**
+ * Returns the running HTTP server when started with the HTTP transport.
+ * Useful for reading the bound port (e.g. when configured with port 0).
+ */
+export function getHttpServer(): Server<undefined> | null {
+	return defaultServer.getHttpServer()
+}
+
+// ============================================================================
+// Logging API
+// ============================================================================
+
+/**
+ * Logging helpers for sending MCP logging notifications.
+ * Use `log.info(data)` or other severity helpers for convenience,
+ * or `log.emit(level, data)` for dynamic levels.
+ */
+export const log: LogApi = defaultServer.log
+
+// ============================================================================
 // Notification Functions
 // ============================================================================
 
@@ -825,12 +2020,7 @@ export const log: LogApi = Object.freeze(logObject) as LogApi
  * If called before the server starts, the notification is queued.
  */
 export function notifyResourceListChanged(): void {
-	const server = getServerInstance()
-	if (server) {
-		server.sendResourceListChanged()
-		return
-	}
-	enqueueRegistration({ kind: 'resourceListChanged' })
+	defaultServer.notifyResourceListChanged()
 }
 
 /**
@@ -838,12 +2028,7 @@ export function notifyResourceListChanged(): void {
  * If called before the server starts, the notification is queued.
  */
 export function notifyToolListChanged(): void {
-	const server = getServerInstance()
-	if (server) {
-		server.sendToolListChanged()
-		return
-	}
-	enqueueRegistration({ kind: 'toolListChanged' })
+	defaultServer.notifyToolListChanged()
 }
 
 /**
@@ -851,10 +2036,87 @@ export function notifyToolListChanged(): void {
  * If called before the server starts, the notification is queued.
  */
 export function notifyPromptListChanged(): void {
-	const server = getServerInstance()
-	if (server) {
-		server.sendPromptListChanged()
-		return
-	}
-	enqueueRegistration({ kind: 'promptListChanged' })
+	defaultServer.notifyPromptListChanged()
+}
+
+// ============================================================================
+// Test Harness
+// ============================================================================
+
+/** Logging notification params captured by the test harness */
+export type CapturedLog = LoggingMessageNotification['params']
+
+/**
+ * In-process client connected to the server through an in-memory transport.
+ */
+export interface McpTestHarness {
+	/** Connected MCP client, for requests not covered by the helpers */
+	client: Client
+	/** The started server */
+	server: McpServer
+	/** Logging notifications received by the client, in order */
+	logs: CapturedLog[]
+	/** List registered tools (`tools/list`) */
+	listTools: () => Promise<Tool[]>
+	/** Call a tool (`tools/call`) */
+	callTool: (
+		name: string,
+		args?: Record<string, unknown>,
+	) => Promise<CallToolResult>
+	/** Read a resource (`resources/read`) */
+	readResource: (uri: string) => Promise<ReadResourceResult>
+	/** Get a prompt (`prompts/get`) */
+	getPrompt: (
+		name: string,
+		args?: Record<string, string>,
+	) => Promise<GetPromptResult>
+	/** Close the client and reset the server (see `resetServer`) */
+	close: () => Promise<void>
+}
+
+/**
+ * Start the server on a linked in-memory transport and connect a client.
+ *
+ * Registrations made with `tool()`, `prompt()` and `resource()` before the
+ * call are flushed to the server, and queued `log.*` messages are delivered
+ * to the client. No process is spawned and stdio is not touched.
+ *
+ * Call it in the same tick as the registrations (or `await` nothing in
+ * between) so the automatic stdio start does not run first.
+ *
+ * Pass `clientCapabilities` (e.g. `{ elicitation: {}, sampling: {} }`) and
+ * register handlers on `harness.client` to test tools that elicit or sample.
+ *
+ * @param name - Server name (default: "test-server")
+ * @param serverOptions - Server configuration (the transport option is ignored)
+ * @param clientCapabilities - Capabilities the test client advertises
+ * @returns Connected harness
+ *
+ * @example
+ * ```ts
+ * afterEach(() => harness.close());
+ *
+ * test("greet", async () => {
+ *   tool("greet", { inputSchema: { name: z.string() } }, async ({ name }) => {
+ *     log.info({ greeted: name });
+ *     return { content: [{ type: "text", text: `Hello ${name}!` }] };
+ *   });
+ *   harness = await createTestHarness();
+ *
+ *   const result = await harness.callTool("greet", { name: "Ada" });
+ *   expect(result.content).toEqual([{ type: "text", text: "Hello Ada!" }]);
+ *   expect(harness.logs[0]?.data).toEqual({ greeted: "Ada" });
+ * });
+ * ```
+ */
+export function createTestHarness(
+	name = 'test-server',
+	serverOptions?: ServerConfig,
+	clientCapabilities?: ClientCapabilities,
+): Promise<McpTestHarness> {
+	return defaultServer.createTestHarness(
+		name,
+		serverOptions,
+		clientCapabilities,
+	)
 }
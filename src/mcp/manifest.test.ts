@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'bun:test'
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { z } from 'zod'
+import {
+	buildManifest,
+	formatManifest,
+	getDescribeFormat,
+	type ManifestDefinition,
+} from './manifest'
+
+const definitions: ManifestDefinition[] = [
+	{
+		kind: 'tool',
+		name: 'search_notes',
+		options: {
+			description: 'Search notes | full text',
+			inputSchema: {
+				query: z.string().describe('Search query'),
+				limit: z.number().optional(),
+			},
+			outputSchema: { count: z.number() },
+			annotations: { readOnlyHint: true, openWorldHint: false },
+		},
+	},
+	{ kind: 'tool', name: 'archive', options: { description: 'Archive notes' } },
+	{
+		kind: 'prompt',
+		name: 'summarize',
+		options: {
+			description: 'Summarize a note',
+			argsSchema: { note: z.string().describe('Note path'), tone: z.string().optional() },
+		},
+	},
+	{
+		kind: 'resource',
+		name: 'todo',
+		uriOrTemplate: 'file:///vault/TODO.md',
+		metadata: { mimeType: 'text/markdown' },
+	},
+	{
+		kind: 'resource',
+		name: 'note',
+		uriOrTemplate: new ResourceTemplate('note://{path}', { list: undefined }),
+		metadata: { description: 'A note by path' },
+	},
+]
+
+describe('buildManifest', () => {
+	test('converts registrations to sorted entries with JSON Schema', () => {
+		const manifest = buildManifest({ name: 'notes', version: '2.0.0' }, definitions)
+
+		expect(manifest.tools.map((t) => t.name)).toEqual(['archive', 'search_notes'])
+		expect(manifest.tools[0]).toEqual({
+			name: 'archive',
+			description: 'Archive notes',
+			inputSchema: { type: 'object', properties: {} },
+		})
+		expect(manifest.tools[1]?.inputSchema).toMatchObject({
+			type: 'object',
+			properties: {
+				query: { type: 'string', description: 'Search query' },
+				limit: { type: 'number' },
+			},
+			required: ['query'],
+		})
+		expect(manifest.tools[1]?.outputSchema).toMatchObject({ required: ['count'] })
+		expect(manifest.tools[1]?.annotations).toEqual({ readOnlyHint: true, openWorldHint: false })
+
+		expect(manifest.prompts).toEqual([
+			{
+				name: 'summarize',
+				description: 'Summarize a note',
+				arguments: [
+					{ name: 'note', description: 'Note path', required: true },
+					{ name: 'tone', required: false },
+				],
+			},
+		])
+		expect(manifest.resources).toEqual([
+			{ name: 'note', uriTemplate: 'note://{path}', description: 'A note by path' },
+			{ name: 'todo', uri: 'file:///vault/TODO.md', mimeType: 'text/markdown' },
+		])
+	})
+})
+
+describe('formatManifest', () => {
+	const manifest = buildManifest({ name: 'notes', version: '2.0.0' }, definitions)
+
+	test('formats JSON that round-trips', () => {
+		expect(JSON.parse(formatManifest(manifest))).toEqual(JSON.parse(JSON.stringify(manifest)))
+	})
+
+	test('formats Markdown tables per section', () => {
+		const markdown = formatManifest(manifest, 'markdown')
+
+		expect(markdown).toStartWith(
+			'# notes `2.0.0`\n\n## Tools\n\n| name | description | inputs | hints |',
+		)
+		expect(markdown).toContain(
+			'| search_notes | Search notes \\| full text | query, limit? | readOnly |',
+		)
+		expect(markdown).toContain('| summarize | Summarize a note | note, tone? |')
+		expect(markdown).toContain('| todo | file:///vault/TODO.md | text/markdown |  |')
+	})
+
+	test('formats terminal tables and omits empty sections', () => {
+		const toolsOnly = buildManifest({ name: 'notes', version: '2.0.0' }, definitions.slice(0, 2))
+		const output = formatManifest(toolsOnly, 'terminal')
+
+		expect(output).toStartWith('notes 2.0.0\n\nTools\n')
+		expect(output).toContain('search_notes')
+		expect(output).not.toContain('Prompts')
+		expect(output).not.toContain('Resources')
+	})
+})
+
+describe('getDescribeFormat', () => {
+	test('reads the flag and its optional format', () => {
+		expect(getDescribeFormat([])).toBeUndefined()
+		expect(getDescribeFormat(['--verbose'])).toBeUndefined()
+		expect(getDescribeFormat(['--describe'])).toBe('json')
+		expect(getDescribeFormat(['--describe', 'markdown'])).toBe('markdown')
+		expect(getDescribeFormat(['--describe=terminal'])).toBe('terminal')
+		expect(getDescribeFormat(['--describe', '--verbose'])).toBe('json')
+	})
+
+	test('rejects unknown formats', () => {
+		expect(() => getDescribeFormat(['--describe', 'yaml'])).toThrow(
+			'Invalid --describe format "yaml"',
+		)
+	})
+})
@@ -0,0 +1,337 @@
+/**
+ * Declarative manifest of an MCP server's registrations.
+ *
+ * Built from registrations alone (no transport or client), so plugin
+ * READMEs and marketplace listings can be generated from code and diffed in
+ * review. Schemas are converted the same way the SDK does for `tools/list`,
+ * so the manifest matches what clients see.
+ *
+ * @module mcp/manifest
+ */
+
+import type { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import {
+	type AnySchema,
+	getObjectShape,
+	getSchemaDescription,
+	isSchemaOptional,
+	normalizeObjectSchema,
+	type ZodRawShapeCompat,
+} from '@modelcontextprotocol/sdk/server/zod-compat.js'
+import { toJsonSchemaCompat } from '@modelcontextprotocol/sdk/server/zod-json-schema-compat.js'
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import { getStringFlag, parseArgs } from '../cli/index.ts'
+import { table } from '../terminal/index.ts'
+
+/** JSON Schema object */
+export type JsonSchema = Record<string, unknown>
+
+/**
+ * Tool entry in a manifest.
+ */
+export interface ToolManifestEntry {
+	name: string
+	title?: string
+	description?: string
+	/** Input schema as JSON Schema (empty object schema when none) */
+	inputSchema: JsonSchema
+	/** Output schema as JSON Schema */
+	outputSchema?: JsonSchema
+	annotations?: ToolAnnotations
+}
+
+/**
+ * Prompt entry in a manifest.
+ */
+export interface PromptManifestEntry {
+	name: string
+	title?: string
+	description?: string
+	arguments: Array<{ name: string; description?: string; required: boolean }>
+}
+
+/**
+ * Resource entry in a manifest. Exactly one of `uri` and `uriTemplate` is set.
+ */
+export interface ResourceManifestEntry {
+	name: string
+	uri?: string
+	uriTemplate?: string
+	title?: string
+	description?: string
+	mimeType?: string
+}
+
+/**
+ * Every registration of a server.
+ */
+export interface ServerManifest {
+	name: string
+	version: string
+	tools: ToolManifestEntry[]
+	prompts: PromptManifestEntry[]
+	resources: ResourceManifestEntry[]
+}
+
+/** Manifest output format */
+export type ManifestFormat = 'json' | 'markdown' | 'terminal'
+
+/**
+ * Registration as queued by the server (structural subset).
+ */
+export type ManifestDefinition =
+	| {
+			kind: 'tool'
+			name: string
+			options: {
+				title?: string
+				description?: string
+				inputSchema?: unknown
+				outputSchema?: unknown
+				annotations?: ToolAnnotations
+			}
+	  }
+	| {
+			kind: 'prompt'
+			name: string
+			options: { title?: string; description?: string; argsSchema?: unknown }
+	  }
+	| {
+			kind: 'resource'
+			name: string
+			uriOrTemplate: string | ResourceTemplate
+			metadata: { title?: string; description?: string; mimeType?: string }
+	  }
+
+const EMPTY_OBJECT_SCHEMA: JsonSchema = { type: 'object', properties: {} }
+
+function toJsonSchema(
+	schema: unknown,
+	pipeStrategy: 'input' | 'output',
+): JsonSchema | undefined {
+	const object = normalizeObjectSchema(
+		schema as AnySchema | ZodRawShapeCompat | undefined,
+	)
+	return object
+		? toJsonSchemaCompat(object, { strictUnions: true, pipeStrategy })
+		: undefined
+}
+
+/** Drop undefined fields so JSON output and equality checks stay clean */
+function compact<T extends object>(entry: T): T {
+	return Object.fromEntries(
+		Object.entries(entry).filter(([, value]) => value !== undefined),
+	) as T
+}
+
+/**
+ * Build a manifest from registrations.
+ *
+ * Entries are sorted by name so output is stable regardless of
+ * registration order.
+ *
+ * @param info - Server name and version
+ * @param definitions - Tool, prompt, and resource registrations
+ * @returns Manifest
+ */
+export function buildManifest(
+	info: { name: string; version: string },
+	definitions: readonly ManifestDefinition[],
+): ServerManifest {
+	const manifest: ServerManifest = {
+		name: info.name,
+		version: info.version,
+		tools: [],
+		prompts: [],
+		resources: [],
+	}
+
+	for (const def of definitions) {
+		switch (def.kind) {
+			case 'tool':
+				manifest.tools.push(
+					compact({
+						name: def.name,
+						title: def.options.title,
+						description: def.options.description,
+						inputSchema:
+							toJsonSchema(def.options.inputSchema, 'input') ??
+							EMPTY_OBJECT_SCHEMA,
+						outputSchema: toJsonSchema(def.options.outputSchema, 'output'),
+						annotations: def.options.annotations,
+					}),
+				)
+				break
+			case 'prompt': {
+				const shape = getObjectShape(
+					normalizeObjectSchema(
+						def.options.argsSchema as ZodRawShapeCompat | undefined,
+					),
+				)
+				manifest.prompts.push(
+					compact({
+						name: def.name,
+						title: def.options.title,
+						description: def.options.description,
+						arguments: Object.entries(shape ?? {}).map(([name, field]) =>
+							compact({
+								name,
+								description: getSchemaDescription(field),
+								required: !isSchemaOptional(field),
+							}),
+						),
+					}),
+				)
+				break
+			}
+			case 'resource':
+				manifest.resources.push(
+					compact({
+						name: def.name,
+						...(typeof def.uriOrTemplate === 'string'
+							? { uri: def.uriOrTemplate }
+							: { uriTemplate: def.uriOrTemplate.uriTemplate.toString() }),
+						title: def.metadata.title,
+						description: def.metadata.description,
+						mimeType: def.metadata.mimeType,
+					}),
+				)
+				break
+		}
+	}
+
+	const byName = (a: { name: string }, b: { name: string }) =>
+		a.name.localeCompare(b.name)
+	manifest.tools.sort(byName)
+	manifest.prompts.sort(byName)
+	manifest.resources.sort(byName)
+	return manifest
+}
+
+/**
+ * Render rows as a GitHub-flavored Markdown table.
+ */
+function markdownTable(rows: Record<string, string>[]): string {
+	const columns = Object.keys(rows[0] ?? {})
+	const escapeCell = (value: string) => value.replaceAll('|', '\\|')
+	const header = `| ${columns.join(' | ')} |`
+	const divider = `| ${columns.map(() => '---').join(' | ')} |`
+	const body = rows.map(
+		(row) => `| ${columns.map((c) => escapeCell(row[c] ?? '')).join(' | ')} |`,
+	)
+	return [header, divider, ...body].join('\n')
+}
+
+function toolRows(tools: ToolManifestEntry[]): Record<string, string>[] {
+	return tools.map((tool) => {
+		const properties = (tool.inputSchema.properties ?? {}) as Record<
+			string,
+			unknown
+		>
+		const required = new Set((tool.inputSchema.required ?? []) as string[])
+		const hints = Object.entries(tool.annotations ?? {})
+			.filter(([key, value]) => key.endsWith('Hint') && value === true)
+			.map(([key]) => key.replace(/Hint$/, ''))
+		return {
+			name: tool.name,
+			description: tool.description ?? '',
+			inputs: Object.keys(properties)
+				.map((key) => (required.has(key) ? key : `${key}?`))
+				.join(', '),
+			hints: hints.join(', '),
+		}
+	})
+}
+
+function promptRows(prompts: PromptManifestEntry[]): Record<string, string>[] {
+	return prompts.map((prompt) => ({
+		name: prompt.name,
+		description: prompt.description ?? '',
+		arguments: prompt.arguments
+			.map((arg) => (arg.required ? arg.name : `${arg.name}?`))
+			.join(', '),
+	}))
+}
+
+function resourceRows(
+	resources: ResourceManifestEntry[],
+): Record<string, string>[] {
+	return resources.map((resource) => ({
+		name: resource.name,
+		uri: resource.uri ?? resource.uriTemplate ?? '',
+		mimeType: resource.mimeType ?? '',
+		description: resource.description ?? '',
+	}))
+}
+
+/**
+ * Format a manifest for output.
+ *
+ * - `json`: the manifest as pretty-printed JSON, for tooling and diffs
+ * - `markdown`: a heading and Markdown table per section, for READMEs
+ * - `terminal`: `terminal.table` per section
+ *
+ * Empty sections are omitted from Markdown and terminal output.
+ *
+ * @param manifest - Manifest from `getManifest()`
+ * @param format - Output format (default: "json")
+ * @returns Formatted manifest
+ *
+ * @example
+ * ```ts
+ * await Bun.write("TOOLS.md", formatManifest(getManifest(), "markdown"));
+ * ```
+ */
+export function formatManifest(
+	manifest: ServerManifest,
+	format: ManifestFormat = 'json',
+): string {
+	if (format === 'json') {
+		return JSON.stringify(manifest, null, 2)
+	}
+
+	const sections: Array<[string, Record<string, string>[]]> = [
+		['Tools', toolRows(manifest.tools)],
+		['Prompts', promptRows(manifest.prompts)],
+		['Resources', resourceRows(manifest.resources)],
+	]
+	const rendered = sections
+		.filter(([, rows]) => rows.length > 0)
+		.map(([title, rows]) =>
+			format === 'terminal'
+				? `${title}\n${table(rows)}`
+				: `## ${title}\n\n${markdownTable(rows)}`,
+		)
+
+	const heading =
+		format === 'terminal'
+			? `${manifest.name} ${manifest.version}`
+			: `# ${manifest.name} \`${manifest.version}\``
+	return [heading, ...rendered].join('\n\n')
+}
+
+/**
+ * Read the `--describe` flag from process arguments.
+ *
+ * `--describe` alone selects JSON; `--describe markdown` or
+ * `--describe=terminal` select another format.
+ *
+ * @param argv - Process arguments
+ * @returns Requested format, or undefined when the flag is absent
+ * @throws Error if the format is not recognized
+ */
+export function getDescribeFormat(
+	argv: readonly string[],
+): ManifestFormat | undefined {
+	const { flags } = parseArgs([...argv])
+	if (flags.describe === undefined) {
+		return undefined
+	}
+	const format = getStringFlag(flags, 'describe') ?? 'json'
+	if (format !== 'json' && format !== 'markdown' && format !== 'terminal') {
+		throw new Error(
+			`Invalid --describe format "${format}" (expected json, markdown, or terminal)`,
+		)
+	}
+	return format
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test'
+import { runToolMiddleware, type ToolCallContext, type ToolMiddleware } from './middleware'
+
+function createContext(args: Record<string, unknown> = {}): ToolCallContext {
+	return {
+		toolName: 'search',
+		args,
+		extra: {} as ToolCallContext['extra'],
+		trace: { cid: 'abc12345' },
+	}
+}
+
+describe('runToolMiddleware', () => {
+	test('runs middlewares in onion order around the handler', async () => {
+		const calls: string[] = []
+		const track =
+			(name: string): ToolMiddleware =>
+			async (_ctx, next) => {
+				calls.push(`${name}:before`)
+				const result = await next()
+				calls.push(`${name}:after`)
+				return result
+			}
+
+		const result = await runToolMiddleware([track('a'), track('b')], createContext(), () => {
+			calls.push('handler')
+			return 'done'
+		})
+
+		expect(result).toBe('done')
+		expect(calls).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after'])
+	})
+
+	test('short-circuits when a middleware returns without calling next', async () => {
+		let handlerCalled = false
+		const deny: ToolMiddleware = () => ({ isError: true })
+
+		const result = await runToolMiddleware([deny], createContext(), () => {
+			handlerCalled = true
+		})
+
+		expect(result).toEqual({ isError: true })
+		expect(handlerCalled).toBe(false)
+	})
+
+	test('passes replaced args and transformed results through the chain', async () => {
+		const defaults: ToolMiddleware = (ctx, next) => {
+			ctx.args = { limit: 10, ...ctx.args }
+			return next()
+		}
+		const truncate: ToolMiddleware = async (_ctx, next) => String(await next()).slice(0, 5)
+
+		const result = await runToolMiddleware(
+			[truncate, defaults],
+			createContext({ query: 'notes' }),
+			(ctx) => JSON.stringify(ctx.args),
+		)
+
+		expect(result).toBe('{"lim')
+	})
+
+	test('propagates handler errors to outer middlewares', async () => {
+		const recover: ToolMiddleware = async (_ctx, next) => {
+			try {
+				return await next()
+			} catch (error) {
+				return `recovered: ${(error as Error).message}`
+			}
+		}
+
+		const result = await runToolMiddleware([recover], createContext(), () => {
+			throw new Error('boom')
+		})
+
+		expect(result).toBe('recovered: boom')
+	})
+
+	test('rejects calling next() more than once', async () => {
+		const twice: ToolMiddleware = async (_ctx, next) => {
+			await next()
+			return next()
+		}
+
+		await expect(runToolMiddleware([twice], createContext(), () => 'x')).rejects.toThrow(
+			'called next() multiple times',
+		)
+	})
+})
@@ -0,0 +1,90 @@
+/**
+ * Middleware pipeline for MCP tool handlers.
+ *
+ * Cross-cutting behavior (timing, correlation IDs, auth checks, argument
+ * validation, output truncation) is written once as middleware instead of
+ * being hand-wired into each handler. Middlewares run in onion order: each
+ * receives the call context and a `next` function, can act before and after
+ * the rest of the chain, and can short-circuit by returning a result without
+ * calling `next`.
+ *
+ * @module mcp/middleware
+ */
+
+import type { TraceContext } from '../instrumentation/context.ts'
+import type { ToolExtra } from './context.ts'
+
+/**
+ * Context for a single tool call, shared by every middleware in the chain.
+ */
+export interface ToolCallContext {
+	/** Registered tool name */
+	toolName: string
+	/**
+	 * Tool arguments (after input schema validation).
+	 * Middlewares may replace this before calling `next`; the handler
+	 * receives the final value.
+	 */
+	args: Record<string, unknown>
+	/** Handler context (abort signal, progress, session ID, notifications) */
+	extra: ToolExtra
+	/** Trace context for this call, active for the whole chain */
+	trace: TraceContext
+}
+
+/**
+ * Tool middleware.
+ *
+ * Call `next()` to run the rest of the chain and get its result, or return
+ * a result directly to short-circuit.
+ *
+ * @example
+ * ```ts
+ * const timing: ToolMiddleware = async (ctx, next) => {
+ *   const start = performance.now();
+ *   const result = await next();
+ *   log.debug({ tool: ctx.toolName, cid: ctx.trace.cid, ms: performance.now() - start });
+ *   return result;
+ * };
+ * ```
+ */
+export type ToolMiddleware = (
+	context: ToolCallContext,
+	next: () => Promise<unknown>,
+) => unknown | Promise<unknown>
+
+/**
+ * Run a tool call through a middleware chain.
+ *
+ * Middlewares run in array order (first is outermost), then `handler`.
+ *
+ * @param middlewares - Middlewares, outermost first
+ * @param context - Call context passed to every middleware
+ * @param handler - Final handler, called with the context after all middlewares
+ * @returns Result of the chain
+ * @throws Error if a middleware calls `next()` more than once
+ */
+export async function runToolMiddleware(
+	middlewares: readonly ToolMiddleware[],
+	context: ToolCallContext,
+	handler: (context: ToolCallContext) => unknown | Promise<unknown>,
+): Promise<unknown> {
+	let lastIndex = -1
+
+	const dispatch = async (index: number): Promise<unknown> => {
+		if (index <= lastIndex) {
+			throw new Error(
+				`Tool middleware for "${context.toolName}" called next() multiple times`,
+			)
+		}
+		lastIndex = index
+
+		const middleware = middlewares[index]
+		if (!middleware) {
+			return handler(context)
+		}
+		return middleware(context, () => dispatch(index + 1))
+	}
+
+	return dispatch(0)
+}
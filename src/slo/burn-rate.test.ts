@@ -0,0 +1,137 @@
+import { describe, expect, test } from 'bun:test'
+import {
+	calculateBurnRate,
+	evaluateBurnRateAlerts,
+	getWindowMs,
+	SRE_BURN_RATE_ALERTS,
+} from './burn-rate.js'
+import type { SLODefinition, SLOEvent } from './types.js'
+
+const NOW = 1_700_000_000_000
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+function makeEvents(count: number, violations: number, ageMs: number): SLOEvent[] {
+	return Array.from({ length: count }, (_, i) => ({
+		timestamp: NOW - ageMs,
+		violated: i < violations,
+		sloName: 'availability',
+		value: 0,
+		threshold: 0,
+	}))
+}
+
+const slo: SLODefinition = {
+	name: 'Availability',
+	target: 0.99,
+	threshold: 99,
+	unit: 'percent',
+	window: '30d',
+	errorBudget: 0.01,
+	burnRateAlerts: [
+		{ name: 'fast', burnRate: 14.4, longWindow: '1h', shortWindow: '5m' },
+		{ name: 'slow', burnRate: 6, longWindow: '6h', shortWindow: '30m' },
+	],
+}
+
+describe('getWindowMs', () => {
+	test('converts every window to milliseconds', () => {
+		expect(getWindowMs('5m')).toBe(5 * MINUTE)
+		expect(getWindowMs('30m')).toBe(30 * MINUTE)
+		expect(getWindowMs('1h')).toBe(HOUR)
+		expect(getWindowMs('2h')).toBe(2 * HOUR)
+		expect(getWindowMs('6h')).toBe(6 * HOUR)
+		expect(getWindowMs('24h')).toBe(24 * HOUR)
+		expect(getWindowMs('3d')).toBe(72 * HOUR)
+		expect(getWindowMs('7d')).toBe(7 * 24 * HOUR)
+		expect(getWindowMs('30d')).toBe(30 * 24 * HOUR)
+	})
+})
+
+describe('calculateBurnRate', () => {
+	test('divides violation rate by error budget', () => {
+		const events = makeEvents(10, 1, MINUTE)
+		expect(calculateBurnRate(events, 0.05, '1h', NOW)).toBeCloseTo(2.0)
+	})
+
+	test('ignores events outside the window', () => {
+		const events = [...makeEvents(10, 0, MINUTE), ...makeEvents(10, 10, 2 * HOUR)]
+		expect(calculateBurnRate(events, 0.05, '1h', NOW)).toBe(0)
+		expect(calculateBurnRate(events, 0.05, '6h', NOW)).toBeCloseTo(10)
+	})
+
+	test('ignores events after now', () => {
+		const events = makeEvents(5, 5, -MINUTE)
+		expect(calculateBurnRate(events, 0.05, '1h', NOW)).toBe(0)
+	})
+
+	test('returns 0 for no events or zero error budget', () => {
+		expect(calculateBurnRate([], 0.05, '1h', NOW)).toBe(0)
+		expect(calculateBurnRate(makeEvents(2, 2, MINUTE), 0, '1h', NOW)).toBe(0)
+	})
+})
+
+describe('evaluateBurnRateAlerts', () => {
+	test('fires fast-burn alert when both windows exceed threshold', () => {
+		// 20% violations in the last minute → burn rate 20 over 5m and 1h
+		const events = makeEvents(100, 20, MINUTE)
+		const result = evaluateBurnRateAlerts(slo, events, NOW)
+
+		expect(result.firing).toBe(true)
+		expect(result.fired.map((e) => e.alert.name)).toEqual(['fast', 'slow'])
+		expect(result.fired[0]?.longWindowBurnRate).toBeCloseTo(20)
+		expect(result.fired[0]?.shortWindowBurnRate).toBeCloseTo(20)
+	})
+
+	test('does not fire when only the long window is burning', () => {
+		// Violations 45 minutes ago, clean traffic in the last 5 minutes
+		const events = [...makeEvents(100, 50, 45 * MINUTE), ...makeEvents(100, 0, MINUTE)]
+		const result = evaluateBurnRateAlerts(slo, events, NOW)
+
+		const fast = result.evaluations.find((e) => e.alert.name === 'fast')
+		expect(fast?.longWindowBurnRate).toBeCloseTo(25)
+		expect(fast?.shortWindowBurnRate).toBe(0)
+		expect(fast?.firing).toBe(false)
+	})
+
+	test('fires only the slow-burn alert for moderate sustained burn', () => {
+		// 8% violations → burn rate 8 (above 6, below 14.4)
+		const events = makeEvents(100, 8, 10 * MINUTE)
+		const result = evaluateBurnRateAlerts(slo, events, NOW)
+
+		expect(result.fired.map((e) => e.alert.name)).toEqual(['slow'])
+	})
+
+	test('reports remaining error budget over the SLO window', () => {
+		const events = makeEvents(1000, 4, 2 * 24 * HOUR)
+		const result = evaluateBurnRateAlerts(slo, events, NOW)
+
+		// 0.4% violations of a 1% budget → 60% left
+		expect(result.errorBudgetRemaining).toBeCloseTo(0.6)
+		expect(result.firing).toBe(false)
+	})
+
+	test('reports negative remaining budget when overspent', () => {
+		const events = makeEvents(100, 3, 2 * 24 * HOUR)
+		expect(evaluateBurnRateAlerts(slo, events, NOW).errorBudgetRemaining).toBeCloseTo(-2)
+	})
+
+	test('returns no evaluations when SLO has no alert rules', () => {
+		const { burnRateAlerts: _, ...plain } = slo
+		const result = evaluateBurnRateAlerts(plain, makeEvents(10, 10, MINUTE), NOW)
+
+		expect(result.firing).toBe(false)
+		expect(result.evaluations).toEqual([])
+	})
+
+	test('SRE_BURN_RATE_ALERTS covers page and ticket severities', () => {
+		const result = evaluateBurnRateAlerts(
+			{ ...slo, burnRateAlerts: [...SRE_BURN_RATE_ALERTS] },
+			makeEvents(100, 2, MINUTE),
+			NOW,
+		)
+
+		// 2% violations → burn rate 2: only the 1x ticket rule fires
+		expect(result.fired.map((e) => e.alert.severity)).toEqual(['ticket'])
+	})
+})
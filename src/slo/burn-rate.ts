@@ -0,0 +1,204 @@
+/**
+ * Burn rate calculation and multi-window, multi-burn-rate alert evaluation.
+ *
+ * Follows the alerting approach from the Google SRE workbook: an alert rule
+ * pairs a long window with a short window and fires only when both exceed
+ * the same burn rate threshold.
+ */
+
+import type {
+	SLOBurnRateAlert,
+	SLOBurnRateAlertEvaluation,
+	SLOBurnRateAlertResult,
+	SLODefinition,
+	SLOEvent,
+	SLOWindow,
+} from './types.js'
+
+/**
+ * Recommended alert rules for a 30-day SLO (Google SRE workbook, table 5-8).
+ *
+ * - page: 2% of the budget spent in 1 hour (14.4x over 1h and 5m)
+ * - page: 5% of the budget spent in 6 hours (6x over 6h and 30m)
+ * - ticket: 10% of the budget spent in 3 days (1x over 3d and 6h)
+ *
+ * @example
+ * ```typescript
+ * const slo: SLODefinition = {
+ *   name: "API Availability",
+ *   target: 0.999,
+ *   threshold: 99.9,
+ *   unit: "percent",
+ *   window: "30d",
+ *   errorBudget: 0.001,
+ *   burnRateAlerts: SRE_BURN_RATE_ALERTS,
+ * };
+ * ```
+ */
+export const SRE_BURN_RATE_ALERTS: readonly SLOBurnRateAlert[] = [
+	{
+		name: 'page-fast-burn',
+		burnRate: 14.4,
+		longWindow: '1h',
+		shortWindow: '5m',
+		severity: 'page',
+	},
+	{
+		name: 'page-slow-burn',
+		burnRate: 6,
+		longWindow: '6h',
+		shortWindow: '30m',
+		severity: 'page',
+	},
+	{
+		name: 'ticket',
+		burnRate: 1,
+		longWindow: '3d',
+		shortWindow: '6h',
+		severity: 'ticket',
+	},
+]
+
+/**
+ * Convert SLO window to milliseconds for time-based filtering.
+ *
+ * @param window - SLO window string
+ * @returns Window duration in milliseconds
+ */
+export function getWindowMs(window: SLOWindow): number {
+	switch (window) {
+		case '5m':
+			return 5 * 60 * 1000
+		case '30m':
+			return 30 * 60 * 1000
+		case '1h':
+			return 60 * 60 * 1000
+		case '2h':
+			return 2 * 60 * 60 * 1000
+		case '6h':
+			return 6 * 60 * 60 * 1000
+		case '24h':
+			return 24 * 60 * 60 * 1000
+		case '3d':
+			return 3 * 24 * 60 * 60 * 1000
+		case '7d':
+			return 7 * 24 * 60 * 60 * 1000
+		case '30d':
+			return 30 * 24 * 60 * 60 * 1000
+	}
+}
+
+/**
+ * Calculate the burn rate of a set of events over a window.
+ *
+ * Formula: burnRate = (violations / totalEvents) / errorBudget
+ *
+ * @param events - Events for a single SLO (any order)
+ * @param errorBudget - Allowed violation rate, e.g. 0.05
+ * @param window - Window ending at `now` to consider
+ * @param now - Evaluation time in milliseconds (default: Date.now())
+ * @returns Burn rate (0 when there are no events in the window)
+ *
+ * @example
+ * ```typescript
+ * const events = (await persistence.loadEvents()).get("api_latency") ?? [];
+ * const burnRate = calculateBurnRate(events, 0.05, "1h");
+ * ```
+ */
+export function calculateBurnRate(
+	events: readonly SLOEvent[],
+	errorBudget: number,
+	window: SLOWindow,
+	now: number = Date.now(),
+): number {
+	const cutoffTime = now - getWindowMs(window)
+
+	let total = 0
+	let violations = 0
+	for (const event of events) {
+		if (event.timestamp < cutoffTime || event.timestamp > now) {
+			continue
+		}
+		total++
+		if (event.violated) {
+			violations++
+		}
+	}
+
+	if (total === 0 || errorBudget <= 0) {
+		return 0
+	}
+
+	return violations / total / errorBudget
+}
+
+/**
+ * Evaluate an SLO's multi-window burn rate alerts against its events.
+ *
+ * Each rule in `slo.burnRateAlerts` fires when the burn rate over both its
+ * long and short window is at least the rule's `burnRate`. The remaining
+ * error budget is measured over the SLO's own `window`.
+ *
+ * @param slo - SLO definition with `burnRateAlerts`
+ * @param events - Events recorded for this SLO
+ * @param now - Evaluation time in milliseconds (default: Date.now())
+ * @returns Which rules fired, per-window burn rates, and remaining budget
+ *
+ * @example
+ * ```typescript
+ * const events = (await persistence.loadEvents()).get("api_latency") ?? [];
+ * const result = evaluateBurnRateAlerts(definitions.api_latency, events);
+ * for (const { alert, longWindowBurnRate, shortWindowBurnRate } of result.fired) {
+ *   console.warn(
+ *     `${alert.name}: ${longWindowBurnRate.toFixed(1)}x over ${alert.longWindow}, ` +
+ *       `${shortWindowBurnRate.toFixed(1)}x over ${alert.shortWindow}`,
+ *   );
+ * }
+ * console.log(`Budget left: ${(result.errorBudgetRemaining * 100).toFixed(1)}%`);
+ * ```
+ */
+export function evaluateBurnRateAlerts(
+	slo: SLODefinition,
+	events: readonly SLOEvent[],
+	now: number = Date.now(),
+): SLOBurnRateAlertResult {
+	const evaluations: SLOBurnRateAlertEvaluation[] = (
+		slo.burnRateAlerts ?? []
+	).map((alert) => {
+		const longWindowBurnRate = calculateBurnRate(
+			events,
+			slo.errorBudget,
+			alert.longWindow,
+			now,
+		)
+		const shortWindowBurnRate = calculateBurnRate(
+			events,
+			slo.errorBudget,
+			alert.shortWindow,
+			now,
+		)
+
+		return {
+			alert,
+			longWindowBurnRate,
+			shortWindowBurnRate,
+			firing:
+				longWindowBurnRate >= alert.burnRate &&
+				shortWindowBurnRate >= alert.burnRate,
+		}
+	})
+
+	const fired = evaluations.filter((e) => e.firing)
+
+	// Consuming the budget at burn rate 1 for the full window spends all of it
+	const errorBudgetRemaining =
+		1 - calculateBurnRate(events, slo.errorBudget, slo.window, now)
+
+	return {
+		firing: fired.length > 0,
+		fired,
+		evaluations,
+		errorBudgetRemaining,
+		slo,
+	}
+}
@@ -11,6 +11,9 @@
  * - **Event Recording**: Track SLO violations and successes
  * - **Burn Rate Calculation**: Monitor error budget consumption
  * - **Breach Detection**: Check if metrics violate SLO thresholds
+ * - **Burn Rate Alerts**: Multi-window, multi-burn-rate alerting (SRE workbook)
+ * - **Budget Reports**: Hourly/daily budget series as JSON, Markdown, or tables
+ * - **Latency Percentiles**: Evaluate "p95 < 500ms" SLOs from histograms or events
  * - **Persistent Storage**: JSONL-based event log with rotation
  * - **Circuit Breaker**: Automatic write failure protection
  *
@@ -68,6 +71,48 @@
  *
  * Formula: `burnRate = (violations / totalEvents) / errorBudget`
  *
+ * ## Multi-Window Burn Rate Alerts
+ *
+ * Add `burnRateAlerts` to a definition to alert only when the budget burns
+ * fast over both a long and a short window:
+ *
+ * ```typescript
+ * burnRateAlerts: [
+ *   { name: "fast", burnRate: 14.4, longWindow: "1h", shortWindow: "5m" },
+ *   { name: "slow", burnRate: 6, longWindow: "6h", shortWindow: "30m" },
+ * ]
+ *
+ * const result = await tracker.checkBurnRateAlerts("api_latency");
+ * // result.fired → which window pairs fired
+ * // result.errorBudgetRemaining → budget left over the SLO window
+ * ```
+ *
+ * `SRE_BURN_RATE_ALERTS` provides the recommended rules for 30-day SLOs.
+ *
+ * ## Latency SLOs
+ *
+ * Set `percentile` (and optionally `histogram`) on a `unit: "ms"` SLO:
+ *
+ * ```typescript
+ * search_latency: {
+ *   name: "Search p95", target: 0.95, threshold: 500, unit: "ms",
+ *   window: "24h", errorBudget: 0.05, percentile: 95,
+ *   histogram: { name: "search_duration_seconds", unit: "s" },
+ * }
+ *
+ * await observe(logger, "search", run, tracker.latencyObserver("search_latency"));
+ * const { met, value } = await tracker.checkLatency("search_latency");
+ * ```
+ *
+ * ## Error-Budget Reports
+ *
+ * ```typescript
+ * const report = await tracker.getBudgetReport({ bucket: "day" });
+ * console.log(formatBudgetReport(report, "markdown"));
+ * // Or from the raw JSONL log:
+ * buildBudgetReport(definitions, await persistence.loadEvents());
+ * ```
+ *
  * ## Persistence
  *
  * Events are persisted to a JSONL file with:
@@ -80,7 +125,19 @@
  * @module core/slo
  */
 
+export {
+	calculateBurnRate,
+	evaluateBurnRateAlerts,
+	getWindowMs,
+	SRE_BURN_RATE_ALERTS,
+} from './burn-rate.js'
+export {
+	calculatePercentile,
+	collectHistogramSamples,
+	evaluateLatencySLO,
+} from './latency.js'
 export { SLOPersistence } from './persistence.js'
+export { buildBudgetReport, formatBudgetReport } from './report.js'
 export {
 	createSLOTracker,
 	SLOTracker,
@@ -88,9 +145,21 @@ export {
 
 export type {
 	SLOBreachResult,
+	SLOBudgetPoint,
+	SLOBudgetReport,
+	SLOBudgetReportOptions,
+	SLOBudgetSeries,
+	SLOBurnRateAlert,
+	SLOBurnRateAlertEvaluation,
+	SLOBurnRateAlertResult,
 	SLODefinition,
 	SLOEvent,
+	SLOHistogramSource,
+	SLOLatencyResult,
+	SLOLatencySample,
 	SLOLogger,
+	SLOReportBucket,
+	SLOReportFormat,
 	SLOTrackerConfig,
 	SLOUnit,
 	SLOWindow,
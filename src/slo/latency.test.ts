@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { observeHistogram, resetMetrics } from '../instrumentation/metrics.js'
+import { calculatePercentile, collectHistogramSamples, evaluateLatencySLO } from './latency.js'
+import type { SLODefinition } from './types.js'
+
+const NOW = 1_700_000_000_000
+const HOUR = 60 * 60 * 1000
+
+const slo: SLODefinition = {
+	name: 'Search p95',
+	target: 0.95,
+	threshold: 500,
+	unit: 'ms',
+	window: '24h',
+	errorBudget: 0.05,
+	percentile: 95,
+}
+
+describe('calculatePercentile', () => {
+	test('uses nearest-rank method', () => {
+		const values = [120, 80, 450, 95, 300]
+		expect(calculatePercentile(values, 95)).toBe(450)
+		expect(calculatePercentile(values, 50)).toBe(120)
+		expect(calculatePercentile(values, 0)).toBe(80)
+		expect(calculatePercentile(values, 100)).toBe(450)
+	})
+
+	test('returns null for no values', () => {
+		expect(calculatePercentile([], 95)).toBeNull()
+	})
+
+	test('does not mutate input', () => {
+		const values = [3, 1, 2]
+		calculatePercentile(values, 50)
+		expect(values).toEqual([3, 1, 2])
+	})
+})
+
+describe('collectHistogramSamples', () => {
+	beforeEach(() => {
+		resetMetrics()
+	})
+
+	test('merges series matching name and label subset', () => {
+		observeHistogram('tool_duration_ms', 100, { tool: 'search', success: true })
+		observeHistogram('tool_duration_ms', 200, { tool: 'search', success: false })
+		observeHistogram('tool_duration_ms', 300, { tool: 'index', success: true })
+		observeHistogram('other_metric', 400, { tool: 'search' })
+
+		const all = collectHistogramSamples({ name: 'tool_duration_ms' })
+		expect(all.map((s) => s.value).sort()).toEqual([100, 200, 300])
+
+		const search = collectHistogramSamples({
+			name: 'tool_duration_ms',
+			labels: { tool: 'search' },
+		})
+		expect(search.map((s) => s.value).sort()).toEqual([100, 200])
+	})
+
+	test('converts seconds to milliseconds', () => {
+		observeHistogram('tool_duration_seconds', 0.25, { tool: 'search' })
+
+		const [sample] = collectHistogramSamples({ name: 'tool_duration_seconds', unit: 's' })
+		expect(sample?.value).toBe(250)
+	})
+})
+
+describe('evaluateLatencySLO', () => {
+	const samples = Array.from({ length: 100 }, (_, i) => ({
+		value: (i + 1) * 10,
+		timestamp: NOW - HOUR,
+	}))
+
+	test('fails when percentile exceeds threshold', () => {
+		const result = evaluateLatencySLO(slo, samples, 'events', NOW)
+
+		expect(result.met).toBe(false)
+		expect(result.value).toBe(950)
+		expect(result.sampleCount).toBe(100)
+		expect(result.source).toBe('events')
+	})
+
+	test('passes when percentile is within threshold', () => {
+		const result = evaluateLatencySLO({ ...slo, percentile: 50 }, samples, 'events', NOW)
+
+		expect(result.met).toBe(true)
+		expect(result.value).toBe(500)
+	})
+
+	test('defaults percentile to target', () => {
+		const { percentile: _, ...noPercentile } = slo
+		expect(evaluateLatencySLO({ ...noPercentile, target: 0.9 }, samples, 'events', NOW).value).toBe(
+			900,
+		)
+	})
+
+	test('ignores samples outside the window', () => {
+		const old = [{ value: 10_000, timestamp: NOW - 25 * HOUR }]
+		const result = evaluateLatencySLO(slo, [...old, { value: 100, timestamp: NOW }], 'events', NOW)
+
+		expect(result.sampleCount).toBe(1)
+		expect(result.met).toBe(true)
+	})
+
+	test('is met with no samples', () => {
+		const result = evaluateLatencySLO(slo, [], 'histogram', NOW)
+
+		expect(result.met).toBe(true)
+		expect(result.value).toBeNull()
+		expect(result.sampleCount).toBe(0)
+	})
+})
@@ -0,0 +1,140 @@
+/**
+ * Latency SLO evaluation from percentiles.
+ *
+ * Evaluates "pN < threshold over window" SLOs from either instrumentation
+ * histograms (`observeHistogram`) or the values of recorded SLO events.
+ */
+
+import { getHistograms } from '../instrumentation/metrics.js'
+import { getWindowMs } from './burn-rate.js'
+import type {
+	SLODefinition,
+	SLOHistogramSource,
+	SLOLatencyResult,
+	SLOLatencySample,
+} from './types.js'
+
+/**
+ * Calculate a percentile using the nearest-rank method.
+ *
+ * @param values - Sample values (any order)
+ * @param percentile - Percentile between 0 and 100
+ * @returns Percentile value, or null when there are no values
+ *
+ * @example
+ * ```typescript
+ * calculatePercentile([120, 80, 450, 95, 300], 95); // 450
+ * calculatePercentile([120, 80, 450, 95, 300], 50); // 120
+ * calculatePercentile([], 95); // null
+ * ```
+ */
+export function calculatePercentile(
+	values: readonly number[],
+	percentile: number,
+): number | null {
+	if (values.length === 0) {
+		return null
+	}
+
+	const sorted = [...values].sort((a, b) => a - b)
+	const clamped = Math.min(100, Math.max(0, percentile))
+	const rank = Math.ceil((clamped / 100) * sorted.length)
+	return sorted[Math.max(0, rank - 1)]!
+}
+
+/**
+ * Collect latency samples in milliseconds from instrumentation histograms.
+ *
+ * Merges every series with the source's metric name whose labels include
+ * all of the source's labels. Histograms retain at most 1000 observations
+ * and 24 hours of data per series, which bounds what can be evaluated.
+ *
+ * @param source - Histogram metric name, label filter, and value unit
+ * @returns Samples from all matching series
+ *
+ * @example
+ * ```typescript
+ * observeHistogram("tool_duration_seconds", 0.42, { tool: "search" });
+ * collectHistogramSamples({ name: "tool_duration_seconds", unit: "s" });
+ * // [{ value: 420, timestamp: ... }]
+ * ```
+ */
+export function collectHistogramSamples(
+	source: SLOHistogramSource,
+): SLOLatencySample[] {
+	const scale = source.unit === 's' ? 1000 : 1
+	const labels = source.labels ?? {}
+
+	const samples: SLOLatencySample[] = []
+	for (const histogram of getHistograms()) {
+		if (histogram.name !== source.name) {
+			continue
+		}
+		const matches = Object.entries(labels).every(
+			([key, value]) => histogram.labels[key] === value,
+		)
+		if (!matches) {
+			continue
+		}
+		for (const obs of histogram.observations) {
+			samples.push({ value: obs.value * scale, timestamp: obs.timestamp })
+		}
+	}
+
+	return samples
+}
+
+/**
+ * Evaluate a latency SLO percentile against samples.
+ *
+ * Only samples inside the SLO's window are considered. The percentile comes
+ * from `slo.percentile`, falling back to `slo.target × 100` (so a 0.95
+ * target evaluates p95).
+ *
+ * @param slo - Latency SLO definition (`unit: "ms"`)
+ * @param samples - Latency samples in milliseconds
+ * @param source - Sample source reported in the result
+ * @param now - Evaluation time in milliseconds (default: Date.now())
+ * @returns Percentile value, threshold comparison, and sample count
+ *
+ * @example
+ * ```typescript
+ * const slo: SLODefinition = {
+ *   name: "Search p95",
+ *   target: 0.95,
+ *   threshold: 500,
+ *   unit: "ms",
+ *   window: "24h",
+ *   errorBudget: 0.05,
+ *   percentile: 95,
+ * };
+ * const result = evaluateLatencySLO(slo, samples, "events");
+ * if (!result.met) {
+ *   console.warn(`p95 ${result.value}ms exceeds ${result.threshold}ms`);
+ * }
+ * ```
+ */
+export function evaluateLatencySLO(
+	slo: SLODefinition,
+	samples: readonly SLOLatencySample[],
+	source: SLOLatencyResult['source'],
+	now: number = Date.now(),
+): SLOLatencyResult {
+	const percentile = slo.percentile ?? slo.target * 100
+	const cutoffTime = now - getWindowMs(slo.window)
+
+	const values = samples
+		.filter((s) => s.timestamp >= cutoffTime && s.timestamp <= now)
+		.map((s) => s.value)
+	const value = calculatePercentile(values, percentile)
+
+	return {
+		met: value === null || value <= slo.threshold,
+		percentile,
+		value,
+		threshold: slo.threshold,
+		sampleCount: values.length,
+		source,
+		slo,
+	}
+}
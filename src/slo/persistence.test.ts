@@ -80,6 +80,22 @@ describe('SLOPersistence', () => {
 		expect(content).toContain('"violated":false')
 	})
 
+	test('flush waits for fire-and-forget appends', async () => {
+		const persistence = new SLOPersistence({
+			filePath: persistencePath,
+			maxSizeBytes: 1024 * 1024,
+			maxAgeDays: 30,
+		})
+
+		for (let i = 0; i < 5; i++) {
+			void persistence.appendEvent(createTestEvent(`slo_${i}`, false))
+		}
+		await persistence.flush()
+
+		const content = await readTextFile(persistencePath)
+		expect(content?.trim().split('\n')).toHaveLength(5)
+	})
+
 	test('loads events from disk', async () => {
 		const persistence = new SLOPersistence({
 			filePath: persistencePath,
@@ -37,6 +37,7 @@ export class SLOPersistence {
 	private eventsLoaded = false
 	private loadPromise: Promise<void> | null = null
 	private writeChain: Promise<void> = Promise.resolve()
+	private readonly pendingAppends = new Set<Promise<void>>()
 	private writeFailures = 0
 	private readonly MAX_WRITE_FAILURES = 3
 
@@ -155,7 +156,32 @@ export class SLOPersistence {
 	 *
 	 * @param event - SLO event to persist
 	 */
-	async appendEvent(event: SLOEvent): Promise<void> {
+	appendEvent(event: SLOEvent): Promise<void> {
+		// Track until queued so flush() also waits for rotation checks
+		const pending = this.writeEvent(event)
+		this.pendingAppends.add(pending)
+		const untrack = () => {
+			this.pendingAppends.delete(pending)
+		}
+		pending.then(untrack, untrack)
+		return pending
+	}
+
+	/**
+	 * Wait for every appended event to reach disk.
+	 *
+	 * Call before process exit; `appendEvent` callers usually don't await.
+	 */
+	async flush(): Promise<void> {
+		let chain: Promise<void>
+		do {
+			await Promise.allSettled([...this.pendingAppends])
+			chain = this.writeChain
+			await chain
+		} while (this.pendingAppends.size > 0 || chain !== this.writeChain)
+	}
+
+	private async writeEvent(event: SLOEvent): Promise<void> {
 		// Ensure parent directory exists
 		const parentDir = join(this.config.filePath, '..')
 		await ensureDir(parentDir)
@@ -248,6 +274,7 @@ export class SLOPersistence {
 		this.eventsLoaded = false
 		this.loadPromise = null
 		this.writeChain = Promise.resolve()
+		this.pendingAppends.clear()
 		this.writeFailures = 0
 	}
 }
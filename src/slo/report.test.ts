@@ -0,0 +1,161 @@
+import { describe, expect, test } from 'bun:test'
+import { stripAnsi } from '../terminal/index.js'
+import { buildBudgetReport, formatBudgetReport } from './report.js'
+import type { SLODefinition, SLOEvent } from './types.js'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+// 2024-01-10T12:00:00Z
+const NOW = Date.UTC(2024, 0, 10, 12)
+
+const definitions: Record<string, SLODefinition> = {
+	availability: {
+		name: 'Availability',
+		target: 0.9,
+		threshold: 90,
+		unit: 'percent',
+		window: '7d',
+		errorBudget: 0.1,
+	},
+	latency: {
+		name: 'Latency',
+		target: 0.95,
+		threshold: 500,
+		unit: 'ms',
+		window: '24h',
+		errorBudget: 0.05,
+	},
+}
+
+function makeEvents(sloName: string, timestamp: number, count: number, violations: number) {
+	return Array.from(
+		{ length: count },
+		(_, i): SLOEvent => ({
+			timestamp,
+			violated: i < violations,
+			sloName,
+			value: 0,
+			threshold: 0,
+		}),
+	)
+}
+
+describe('buildBudgetReport', () => {
+	test('buckets events per day with cumulative remaining budget', () => {
+		const events = new Map([
+			[
+				'availability',
+				[
+					...makeEvents('availability', NOW - 2 * DAY, 50, 2),
+					...makeEvents('availability', NOW - HOUR, 50, 3),
+				],
+			],
+		])
+
+		const report = buildBudgetReport(definitions, events, {
+			now: NOW,
+			sloNames: ['availability'],
+		})
+		const [series] = report.series
+
+		expect(report.bucket).toBe('day')
+		expect(series?.totalEvents).toBe(100)
+		expect(series?.violations).toBe(5)
+		// 5 violations of 10 allowed → half the budget left
+		expect(series?.burnRate).toBeCloseTo(0.5)
+		expect(series?.budgetRemaining).toBeCloseTo(0.5)
+
+		// 7d window aligned to UTC days → 8 buckets including today
+		expect(series?.points).toHaveLength(8)
+		const nonEmpty = series?.points.filter((p) => p.events > 0) ?? []
+		expect(nonEmpty.map((p) => p.violations)).toEqual([2, 3])
+		expect(nonEmpty.map((p) => p.budgetConsumed)).toEqual([0.2, 0.3])
+		expect(series?.points.at(-1)?.budgetRemaining).toBeCloseTo(0.5)
+	})
+
+	test('buckets events per hour', () => {
+		const events = new Map([['latency', makeEvents('latency', NOW - 30 * 60 * 1000, 20, 1)]])
+
+		const report = buildBudgetReport(definitions, events, {
+			now: NOW,
+			bucket: 'hour',
+			sloNames: ['latency'],
+		})
+		const points = report.series[0]?.points ?? []
+
+		expect(points).toHaveLength(25)
+		expect(points.every((p) => p.end - p.start === HOUR)).toBe(true)
+		expect(points.at(-2)?.events).toBe(20)
+	})
+
+	test('excludes events outside the SLO window', () => {
+		const events = new Map([['latency', makeEvents('latency', NOW - 2 * DAY, 10, 10)]])
+
+		const [series] = buildBudgetReport(definitions, events, { now: NOW }).series.filter(
+			(s) => s.sloName === 'latency',
+		)
+
+		expect(series?.totalEvents).toBe(0)
+		expect(series?.budgetRemaining).toBe(1)
+		expect(series?.projectedExhaustionAt).toBeNull()
+	})
+
+	test('projects budget exhaustion from the average consumption rate', () => {
+		// 10% of budget consumed over 2 days → 90% left lasts another 18 days
+		const events = new Map([['availability', makeEvents('availability', NOW - 2 * DAY, 100, 1)]])
+		const [series] = buildBudgetReport(definitions, events, {
+			now: NOW,
+			sloNames: ['availability'],
+		}).series
+
+		expect(series?.budgetRemaining).toBeCloseTo(0.9)
+		expect(series?.projectedExhaustionAt).toBe(NOW + 18 * DAY)
+	})
+
+	test('reports exhausted budget as exhausted now', () => {
+		const events = new Map([['latency', makeEvents('latency', NOW - HOUR, 10, 5)]])
+		const [series] = buildBudgetReport(definitions, events, {
+			now: NOW,
+			sloNames: ['latency'],
+		}).series
+
+		expect(series?.budgetRemaining).toBeLessThan(0)
+		expect(series?.projectedExhaustionAt).toBe(NOW)
+	})
+
+	test('includes every definition by default and skips unknown names', () => {
+		expect(buildBudgetReport(definitions, new Map()).series).toHaveLength(2)
+		expect(
+			buildBudgetReport(definitions, new Map(), { sloNames: ['missing'] }).series,
+		).toHaveLength(0)
+	})
+})
+
+describe('formatBudgetReport', () => {
+	const events = new Map([['latency', makeEvents('latency', NOW - HOUR, 100, 1)]])
+	const report = buildBudgetReport(definitions, events, {
+		now: NOW,
+		bucket: 'day',
+		sloNames: ['latency'],
+	})
+
+	test('formats as JSON', () => {
+		const parsed = JSON.parse(formatBudgetReport(report, 'json'))
+		expect(parsed.series[0].sloName).toBe('latency')
+		expect(parsed.series[0].points).toHaveLength(2)
+	})
+
+	test('formats as Markdown table', () => {
+		const output = formatBudgetReport(report)
+		expect(output).toContain('## Latency (`latency`)')
+		expect(output).toContain('| period | events | violations | consumed | remaining |')
+		expect(output).toContain('| 2024-01-10 | 100 | 1 | 20.0% | 80.0% |')
+	})
+
+	test('formats as terminal table', () => {
+		const output = stripAnsi(formatBudgetReport(report, 'terminal'))
+		expect(output).toContain('Latency (latency)')
+		expect(output).toContain('80.0% budget remaining')
+		expect(output).toContain('2024-01-10')
+	})
+})
@@ -0,0 +1,264 @@
+/**
+ * SLO error-budget reports with time-series export.
+ *
+ * Turns recorded SLO events into per-SLO budget consumption series bucketed
+ * per hour or per day, with remaining budget and a projected exhaustion time.
+ */
+
+import { table } from '../terminal/index.js'
+import { getWindowMs } from './burn-rate.js'
+import type {
+	SLOBudgetPoint,
+	SLOBudgetReport,
+	SLOBudgetReportOptions,
+	SLOBudgetSeries,
+	SLODefinition,
+	SLOEvent,
+	SLOReportBucket,
+	SLOReportFormat,
+} from './types.js'
+
+/**
+ * Get the duration of a report bucket in milliseconds.
+ */
+function getBucketMs(bucket: SLOReportBucket): number {
+	return bucket === 'hour' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000
+}
+
+/**
+ * Build the budget consumption series for a single SLO.
+ *
+ * The budget for the window is `errorBudget × eventsInWindow` allowed
+ * violations; each bucket consumes `violations / budget` of it.
+ */
+function buildSeries(
+	sloName: string,
+	slo: SLODefinition,
+	events: readonly SLOEvent[],
+	bucket: SLOReportBucket,
+	now: number,
+): SLOBudgetSeries {
+	const windowStart = now - getWindowMs(slo.window)
+	const bucketMs = getBucketMs(bucket)
+
+	const inWindow = events
+		.filter((e) => e.timestamp >= windowStart && e.timestamp <= now)
+		.sort((a, b) => a.timestamp - b.timestamp)
+
+	const totalEvents = inWindow.length
+	const violations = inWindow.filter((e) => e.violated).length
+	const allowedViolations = slo.errorBudget * totalEvents
+
+	// Buckets are aligned to UTC hour/day boundaries
+	const points: SLOBudgetPoint[] = []
+	let cumulativeViolations = 0
+	let index = 0
+	for (
+		let start = Math.floor(windowStart / bucketMs) * bucketMs;
+		start <= now;
+		start += bucketMs
+	) {
+		const end = start + bucketMs
+		let bucketEvents = 0
+		let bucketViolations = 0
+		while (index < inWindow.length && inWindow[index]!.timestamp < end) {
+			bucketEvents++
+			if (inWindow[index]!.violated) {
+				bucketViolations++
+			}
+			index++
+		}
+		cumulativeViolations += bucketViolations
+
+		const budgetConsumed =
+			allowedViolations > 0 ? bucketViolations / allowedViolations : 0
+		const cumulativeConsumed =
+			allowedViolations > 0 ? cumulativeViolations / allowedViolations : 0
+
+		points.push({
+			start,
+			end,
+			events: bucketEvents,
+			violations: bucketViolations,
+			budgetConsumed,
+			budgetRemaining: 1 - cumulativeConsumed,
+		})
+	}
+
+	const budgetConsumed =
+		allowedViolations > 0 ? violations / allowedViolations : 0
+	const budgetRemaining = 1 - budgetConsumed
+
+	// Project exhaustion from the average consumption rate since the first event
+	let projectedExhaustionAt: number | null = null
+	if (budgetRemaining <= 0 && violations > 0) {
+		projectedExhaustionAt = now
+	} else if (budgetConsumed > 0) {
+		const elapsed = now - inWindow[0]!.timestamp
+		const ratePerMs = budgetConsumed / Math.max(elapsed, 1)
+		projectedExhaustionAt = now + Math.round(budgetRemaining / ratePerMs)
+	}
+
+	return {
+		sloName,
+		slo,
+		windowStart,
+		windowEnd: now,
+		totalEvents,
+		violations,
+		burnRate: budgetConsumed,
+		budgetRemaining,
+		projectedExhaustionAt,
+		points,
+	}
+}
+
+/**
+ * Build an error-budget report from recorded SLO events.
+ *
+ * Each SLO gets a series covering its own window, bucketed per hour or day.
+ * Empty buckets are included so series line up for charting.
+ *
+ * @param definitions - SLO definitions keyed by SLO name
+ * @param events - Events keyed by SLO name (e.g. from `SLOPersistence.loadEvents()`)
+ * @param options - Bucket size, SLO filter, and evaluation time
+ * @returns Budget report with one series per SLO
+ *
+ * @example
+ * ```typescript
+ * const persistence = new SLOPersistence({
+ *   filePath: "~/.claude/logs/slo-events.jsonl",
+ *   maxSizeBytes: 10 * 1024 * 1024,
+ *   maxAgeDays: 90,
+ * });
+ * const report = buildBudgetReport(definitions, await persistence.loadEvents(), {
+ *   bucket: "day",
+ * });
+ * console.log(formatBudgetReport(report, "markdown"));
+ * ```
+ */
+export function buildBudgetReport(
+	definitions: Record<string, SLODefinition>,
+	events: ReadonlyMap<string, readonly SLOEvent[]>,
+	options: SLOBudgetReportOptions = {},
+): SLOBudgetReport {
+	const bucket = options.bucket ?? 'day'
+	const now = options.now ?? Date.now()
+	const sloNames = options.sloNames ?? Object.keys(definitions)
+
+	const series: SLOBudgetSeries[] = []
+	for (const sloName of sloNames) {
+		const slo = definitions[sloName]
+		if (!slo) {
+			continue
+		}
+		series.push(
+			buildSeries(sloName, slo, events.get(sloName) ?? [], bucket, now),
+		)
+	}
+
+	return { generatedAt: now, bucket, series }
+}
+
+/**
+ * Format a ratio as a percentage with one decimal place.
+ */
+function formatPercent(ratio: number): string {
+	return `${(ratio * 100).toFixed(1)}%`
+}
+
+/**
+ * Format a bucket start as an ISO date (day) or date-hour (hour) in UTC.
+ */
+function formatPeriod(start: number, bucket: SLOReportBucket): string {
+	const iso = new Date(start).toISOString()
+	return bucket === 'hour' ? `${iso.slice(0, 13)}:00Z` : iso.slice(0, 10)
+}
+
+/**
+ * Describe the projected exhaustion time of a series.
+ */
+function formatExhaustion(series: SLOBudgetSeries): string {
+	if (series.projectedExhaustionAt === null) {
+		return 'not burning'
+	}
+	if (series.budgetRemaining <= 0) {
+		return 'exhausted'
+	}
+	return new Date(series.projectedExhaustionAt).toISOString()
+}
+
+/**
+ * Convert a series into table rows.
+ */
+function toRows(
+	series: SLOBudgetSeries,
+	bucket: SLOReportBucket,
+): Record<string, string | number>[] {
+	return series.points.map((point) => ({
+		period: formatPeriod(point.start, bucket),
+		events: point.events,
+		violations: point.violations,
+		consumed: formatPercent(point.budgetConsumed),
+		remaining: formatPercent(point.budgetRemaining),
+	}))
+}
+
+/**
+ * Render rows as a GitHub-flavored Markdown table.
+ */
+function markdownTable(rows: Record<string, string | number>[]): string {
+	const columns = Object.keys(rows[0] ?? {})
+	if (columns.length === 0) {
+		return '_No data_'
+	}
+	const header = `| ${columns.join(' | ')} |`
+	const divider = `| ${columns.map(() => '---').join(' | ')} |`
+	const body = rows.map(
+		(row) => `| ${columns.map((c) => String(row[c])).join(' | ')} |`,
+	)
+	return [header, divider, ...body].join('\n')
+}
+
+/**
+ * Format an error-budget report for output.
+ *
+ * - `json`: the report as pretty-printed JSON (timestamps in milliseconds)
+ * - `markdown`: one heading and Markdown table per SLO, for reviews and PRs
+ * - `terminal`: one summary line and `terminal.table` per SLO
+ *
+ * @param report - Report from `buildBudgetReport()`
+ * @param format - Output format (default: "markdown")
+ * @returns Formatted report
+ *
+ * @example
+ * ```typescript
+ * const report = await tracker.getBudgetReport({ bucket: "hour" });
+ * console.log(formatBudgetReport(report, "terminal"));
+ * await Bun.write("slo-report.json", formatBudgetReport(report, "json"));
+ * ```
+ */
+export function formatBudgetReport(
+	report: SLOBudgetReport,
+	format: SLOReportFormat = 'markdown',
+): string {
+	if (format === 'json') {
+		return JSON.stringify(report, null, 2)
+	}
+
+	const sections = report.series.map((series) => {
+		const summary =
+			`${series.violations}/${series.totalEvents} violations over ${series.slo.window}, ` +
+			`burn rate ${series.burnRate.toFixed(2)}x, ` +
+			`${formatPercent(series.budgetRemaining)} budget remaining, ` +
+			`exhaustion: ${formatExhaustion(series)}`
+		const rows = toRows(series, report.bucket)
+
+		if (format === 'terminal') {
+			return `${series.slo.name} (${series.sloName})\n${summary}\n${table(rows)}`
+		}
+		return `## ${series.slo.name} (\`${series.sloName}\`)\n\n${summary}\n\n${markdownTable(rows)}`
+	})
+
+	return sections.join('\n\n')
+}
@@ -1,6 +1,8 @@
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
 import { unlink } from 'node:fs/promises'
 import { join } from 'node:path'
+import { observeHistogram, resetMetrics } from '../instrumentation/metrics.js'
+import { observe } from '../instrumentation/observe.js'
 import { createTempDir } from '../testing/index.js'
 import { createSLOTracker } from './tracker.js'
 import type { SLODefinition } from './types.js'
@@ -64,6 +66,20 @@ describe('SLOTracker', () => {
 		tracker.recordEvent('test_success', false)
 	})
 
+	test('flush persists recorded events', async () => {
+		const tracker = createSLOTracker({
+			definitions: testDefinitions,
+			persistencePath,
+		})
+
+		tracker.recordEvent('test_latency', false, 800)
+		tracker.recordEvent('test_latency', true, 1200)
+		await tracker.flush()
+
+		const content = await Bun.file(persistencePath).text()
+		expect(content.trim().split('\n')).toHaveLength(2)
+	})
+
 	test('calculates burn rate correctly', async () => {
 		const tracker = createSLOTracker({
 			definitions: testDefinitions,
@@ -225,6 +241,163 @@ describe('SLOTracker', () => {
 		expect(burnRate).toBeCloseTo(2.0, 1)
 	})
 
+	test('calculates burn rate over an explicit window', async () => {
+		const tracker = createSLOTracker({
+			definitions: testDefinitions,
+			persistencePath,
+		})
+
+		for (let i = 0; i < 9; i++) {
+			tracker.recordEvent('test_latency', false, 800)
+		}
+		tracker.recordEvent('test_latency', true, 1200)
+
+		await new Promise((resolve) => setTimeout(resolve, 10))
+
+		const burnRate = await tracker.getBurnRate('test_latency', '5m')
+		expect(burnRate).toBeCloseTo(2.0, 1)
+	})
+
+	test('checks multi-window burn rate alerts', async () => {
+		const tracker = createSLOTracker({
+			definitions: {
+				alerting: {
+					...testDefinitions.test_latency!,
+					burnRateAlerts: [
+						{ name: 'fast', burnRate: 14.4, longWindow: '1h', shortWindow: '5m' },
+						{ name: 'slow', burnRate: 3, longWindow: '6h', shortWindow: '30m' },
+					],
+				},
+			},
+			persistencePath,
+		})
+
+		// Violation rate 20% of a 5% budget → burn rate 4
+		for (let i = 0; i < 8; i++) {
+			tracker.recordEvent('alerting', false, 800)
+		}
+		tracker.recordEvent('alerting', true, 1200)
+		tracker.recordEvent('alerting', true, 1300)
+
+		await new Promise((resolve) => setTimeout(resolve, 10))
+
+		const result = await tracker.checkBurnRateAlerts('alerting')
+		expect(result.firing).toBe(true)
+		expect(result.fired.map((e) => e.alert.name)).toEqual(['slow'])
+		expect(result.evaluations).toHaveLength(2)
+		expect(result.errorBudgetRemaining).toBeCloseTo(-3, 1)
+	})
+
+	test('returns non-firing alert result for unknown SLO', async () => {
+		const tracker = createSLOTracker({
+			definitions: testDefinitions,
+			persistencePath,
+		})
+
+		const result = await tracker.checkBurnRateAlerts('unknown_slo')
+		expect(result.firing).toBe(false)
+		expect(result.slo.name).toBe('Unknown')
+	})
+
+	test('builds error-budget report from recorded events', async () => {
+		const tracker = createSLOTracker({
+			definitions: testDefinitions,
+			persistencePath,
+		})
+
+		for (let i = 0; i < 19; i++) {
+			tracker.recordEvent('test_latency', false, 800)
+		}
+		tracker.recordEvent('test_latency', true, 1200)
+
+		await new Promise((resolve) => setTimeout(resolve, 10))
+
+		const report = await tracker.getBudgetReport({ bucket: 'hour', sloNames: ['test_latency'] })
+		const [series] = report.series
+		expect(series?.totalEvents).toBe(20)
+		expect(series?.budgetRemaining).toBeCloseTo(0, 1)
+		expect(series?.points.reduce((sum, p) => sum + p.events, 0)).toBe(20)
+	})
+
+	test('records latency with automatic violation detection', async () => {
+		const tracker = createSLOTracker({
+			definitions: testDefinitions,
+			persistencePath,
+		})
+
+		expect(tracker.recordLatency('test_latency', 800)).toBe(false)
+		expect(tracker.recordLatency('test_latency', 1200)).toBe(true)
+		expect(tracker.recordLatency('unknown_slo', 1200)).toBe(false)
+
+		await new Promise((resolve) => setTimeout(resolve, 10))
+
+		// 1 violation of 2 events / 0.05 budget → burn rate 10
+		expect(await tracker.getBurnRate('test_latency')).toBeCloseTo(10, 1)
+	})
+
+	test('records observe() durations through latencyObserver', async () => {
+		const tracker = createSLOTracker({
+			definitions: testDefinitions,
+			persistencePath,
+		})
+		const logger = { info: () => {}, error: () => {} }
+
+		await observe(logger, 'op', async () => 'ok', tracker.latencyObserver('test_latency'))
+		await expect(
+			observe(
+				logger,
+				'op',
+				async () => {
+					throw new Error('boom')
+				},
+				tracker.latencyObserver('test_latency'),
+			),
+		).rejects.toThrow('boom')
+
+		await new Promise((resolve) => setTimeout(resolve, 10))
+
+		const result = await tracker.checkLatency('test_latency')
+		expect(result.source).toBe('events')
+		expect(result.sampleCount).toBe(1)
+		expect(result.met).toBe(true)
+	})
+
+	test('checks latency percentile from histogram', async () => {
+		resetMetrics()
+		const tracker = createSLOTracker({
+			definitions: {
+				search_latency: {
+					name: 'Search Latency',
+					target: 0.95,
+					threshold: 500,
+					unit: 'ms',
+					window: '24h',
+					errorBudget: 0.05,
+					percentile: 95,
+					histogram: { name: 'search_duration_seconds', unit: 's' },
+				},
+			},
+			persistencePath,
+		})
+
+		for (let i = 0; i < 19; i++) {
+			observeHistogram('search_duration_seconds', 0.1, { tool: 'search' })
+		}
+		observeHistogram('search_duration_seconds', 2, { tool: 'search' })
+
+		const result = await tracker.checkLatency('search_latency')
+		expect(result.source).toBe('histogram')
+		expect(result.sampleCount).toBe(20)
+		expect(result.value).toBe(100)
+		expect(result.met).toBe(true)
+
+		observeHistogram('search_duration_seconds', 2, { tool: 'search' })
+		const breached = await tracker.checkLatency('search_latency')
+		expect(breached.value).toBe(2000)
+		expect(breached.met).toBe(false)
+		resetMetrics()
+	})
+
 	test('returns unknown SLO for checkBreach with invalid name', async () => {
 		const tracker = createSLOTracker({
 			definitions: testDefinitions,
@@ -4,15 +4,35 @@
 
 import { homedir } from 'node:os'
 import { join } from 'node:path'
+import type { ObserveOptions } from '../instrumentation/observe.js'
+import { calculateBurnRate, evaluateBurnRateAlerts } from './burn-rate.js'
+import { collectHistogramSamples, evaluateLatencySLO } from './latency.js'
 import { SLOPersistence } from './persistence.js'
+import { buildBudgetReport } from './report.js'
 import type {
 	SLOBreachResult,
+	SLOBudgetReport,
+	SLOBudgetReportOptions,
+	SLOBurnRateAlertResult,
 	SLODefinition,
 	SLOEvent,
+	SLOLatencyResult,
 	SLOTrackerConfig,
 	SLOWindow,
 } from './types.js'
 
+/**
+ * Placeholder definition returned for SLO names that are not configured
+ */
+const UNKNOWN_SLO: SLODefinition = {
+	name: 'Unknown',
+	target: 0,
+	threshold: 0,
+	unit: 'count',
+	window: '24h',
+	errorBudget: 0,
+}
+
 /**
  * SLO tracker for monitoring service level objectives.
  *
@@ -124,6 +144,114 @@ export class SLOTracker {
 		})
 	}
 
+	/**
+	 * Record a latency measurement, deciding the violation automatically.
+	 *
+	 * The event is a violation when `durationMs` exceeds the SLO threshold.
+	 *
+	 * @param sloName - Name of a latency SLO (`unit: "ms"`)
+	 * @param durationMs - Measured latency in milliseconds
+	 * @returns Whether the measurement violated the SLO (false for unknown SLOs)
+	 *
+	 * @example
+	 * ```typescript
+	 * const start = Date.now();
+	 * await scan();
+	 * tracker.recordLatency("scan_latency", Date.now() - start);
+	 * ```
+	 */
+	recordLatency(sloName: string, durationMs: number): boolean {
+		const slo = this.definitions[sloName]
+		if (!slo) {
+			return false
+		}
+
+		const violated = durationMs > slo.threshold
+		this.recordEvent(sloName, violated, durationMs)
+		return violated
+	}
+
+	/**
+	 * Create `observe()` callbacks that record successful durations as latency events.
+	 *
+	 * Failed operations are not recorded; track them with a separate
+	 * success-rate SLO.
+	 *
+	 * @param sloName - Name of a latency SLO (`unit: "ms"`)
+	 * @returns Options to pass to `observe()` or `observeSync()`
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await observe(
+	 *   logger,
+	 *   "vault:search",
+	 *   () => search(query),
+	 *   tracker.latencyObserver("search_latency"),
+	 * );
+	 * ```
+	 */
+	latencyObserver<T = unknown>(sloName: string): ObserveOptions<T> {
+		return {
+			onSuccess: (_result, durationMs) => {
+				this.recordLatency(sloName, durationMs)
+			},
+		}
+	}
+
+	/**
+	 * Evaluate a latency SLO percentile, e.g. "p95 < 500ms over 24h".
+	 *
+	 * Samples come from the instrumentation histogram named in
+	 * `slo.histogram` when set, otherwise from the values of recorded events.
+	 *
+	 * @param sloName - Name of a latency SLO (`unit: "ms"`)
+	 * @returns Observed percentile compared against the threshold
+	 *
+	 * @example
+	 * ```typescript
+	 * const tracker = createSLOTracker({
+	 *   definitions: {
+	 *     search_latency: {
+	 *       name: "Search Latency",
+	 *       target: 0.95,
+	 *       threshold: 500,
+	 *       unit: "ms",
+	 *       window: "24h",
+	 *       errorBudget: 0.05,
+	 *       percentile: 95,
+	 *       histogram: { name: "search_duration_seconds", unit: "s" },
+	 *     },
+	 *   },
+	 * });
+	 *
+	 * const result = await tracker.checkLatency("search_latency");
+	 * if (!result.met) {
+	 *   console.warn(`p${result.percentile} = ${result.value}ms`);
+	 * }
+	 * ```
+	 */
+	async checkLatency(sloName: string): Promise<SLOLatencyResult> {
+		const slo = this.definitions[sloName]
+		if (!slo) {
+			return evaluateLatencySLO(UNKNOWN_SLO, [], 'events')
+		}
+
+		if (slo.histogram) {
+			return evaluateLatencySLO(
+				slo,
+				collectHistogramSamples(slo.histogram),
+				'histogram',
+			)
+		}
+
+		await this.ensureLoaded()
+		return evaluateLatencySLO(
+			slo,
+			this.inMemoryEvents.get(sloName) ?? [],
+			'events',
+		)
+	}
+
 	/**
 	 * Calculate the burn rate for an SLO.
 	 * Burn rate indicates how fast the error budget is being consumed:
@@ -137,6 +265,7 @@ export class SLOTracker {
 	 * Subsequent calls use in-memory cache.
 	 *
 	 * @param sloName - Name of the SLO to calculate burn rate for
+	 * @param window - Window to evaluate (default: the SLO's own window)
 	 * @returns Burn rate value (0 = no violations, 1 = consuming at target rate, >1 = over budget)
 	 *
 	 * @example
@@ -146,9 +275,12 @@ export class SLOTracker {
 	 * if (burnRate > 1) {
 	 *   console.warn("Consuming error budget faster than sustainable!");
 	 * }
+	 *
+	 * // Burn rate over the last hour only
+	 * const recent = await tracker.getBurnRate("scan_latency", "1h");
 	 * ```
 	 */
-	async getBurnRate(sloName: string): Promise<number> {
+	async getBurnRate(sloName: string, window?: SLOWindow): Promise<number> {
 		// Ensure events are loaded from disk before calculating
 		await this.ensureLoaded()
 
@@ -157,30 +289,61 @@ export class SLOTracker {
 			return 0
 		}
 
-		const allEvents = this.inMemoryEvents.get(sloName) ?? []
-		if (allEvents.length === 0) {
-			return 0
-		}
-
-		// Filter events to only those within the SLO window
-		const windowMs = getWindowMs(slo.window)
-		const cutoffTime = Date.now() - windowMs
-		const recentEvents = allEvents.filter((e) => e.timestamp >= cutoffTime)
-
-		if (recentEvents.length === 0) {
-			return 0
-		}
-
-		// Calculate violation rate
-		const violations = recentEvents.filter((e) => e.violated).length
-		const violationRate = violations / recentEvents.length
-
 		// Burn rate = actual violation rate / allowed violation rate (error budget)
 		// If errorBudget is 0.05 (5%), and we're violating at 0.05 rate, burnRate = 1
 		// If we're violating at 0.10 rate, burnRate = 2 (consuming twice as fast)
-		const burnRate = violationRate / slo.errorBudget
+		return calculateBurnRate(
+			this.inMemoryEvents.get(sloName) ?? [],
+			slo.errorBudget,
+			window ?? slo.window,
+		)
+	}
+
+	/**
+	 * Evaluate the multi-window burn rate alerts configured on an SLO.
+	 *
+	 * Each rule in `burnRateAlerts` fires when the burn rate over both its
+	 * long and short window reaches the rule's threshold. The result lists
+	 * which window pairs fired and how much error budget is left.
+	 *
+	 * @param sloName - Name of the SLO to evaluate
+	 * @returns Alert evaluation (never firing for unknown SLOs or SLOs without rules)
+	 *
+	 * @example
+	 * ```typescript
+	 * const tracker = createSLOTracker({
+	 *   definitions: {
+	 *     api_availability: {
+	 *       name: "API Availability",
+	 *       target: 0.999,
+	 *       threshold: 99.9,
+	 *       unit: "percent",
+	 *       window: "30d",
+	 *       errorBudget: 0.001,
+	 *       burnRateAlerts: [
+	 *         { name: "fast", burnRate: 14.4, longWindow: "1h", shortWindow: "5m" },
+	 *         { name: "slow", burnRate: 6, longWindow: "6h", shortWindow: "30m" },
+	 *       ],
+	 *     },
+	 *   },
+	 * });
+	 *
+	 * const result = await tracker.checkBurnRateAlerts("api_availability");
+	 * if (result.firing) {
+	 *   const [first] = result.fired;
+	 *   console.warn(`${first.alert.name} fired, ${result.errorBudgetRemaining} budget left`);
+	 * }
+	 * ```
+	 */
+	async checkBurnRateAlerts(sloName: string): Promise<SLOBurnRateAlertResult> {
+		await this.ensureLoaded()
 
-		return burnRate
+		const slo = this.definitions[sloName]
+		if (!slo) {
+			return evaluateBurnRateAlerts(UNKNOWN_SLO, [])
+		}
+
+		return evaluateBurnRateAlerts(slo, this.inMemoryEvents.get(sloName) ?? [])
 	}
 
 	/**
@@ -208,14 +371,7 @@ export class SLOTracker {
 				breached: false,
 				burnRate: 0,
 				currentValue,
-				slo: {
-					name: 'Unknown',
-					target: 0,
-					threshold: 0,
-					unit: 'count',
-					window: '24h',
-					errorBudget: 0,
-				},
+				slo: UNKNOWN_SLO,
 			}
 		}
 
@@ -239,6 +395,25 @@ export class SLOTracker {
 		return { breached, burnRate, currentValue, slo }
 	}
 
+	/**
+	 * Build an error-budget report from recorded events.
+	 *
+	 * @param options - Bucket size, SLO filter, and report time
+	 * @returns Per-SLO budget consumption series
+	 *
+	 * @example
+	 * ```typescript
+	 * const report = await tracker.getBudgetReport({ bucket: "day" });
+	 * console.log(formatBudgetReport(report, "markdown"));
+	 * ```
+	 */
+	async getBudgetReport(
+		options?: SLOBudgetReportOptions,
+	): Promise<SLOBudgetReport> {
+		await this.ensureLoaded()
+		return buildBudgetReport(this.definitions, this.inMemoryEvents, options)
+	}
+
 	/**
 	 * Get all SLO names
 	 *
@@ -258,6 +433,13 @@ export class SLOTracker {
 		return this.definitions[sloName]
 	}
 
+	/**
+	 * Wait for pending event writes to reach disk (call before exit).
+	 */
+	flush(): Promise<void> {
+		return this.persistence.flush()
+	}
+
 	/**
 	 * Reset SLO event tracking (useful for testing).
 	 * Also resets the disk load flag to force reload on next access.
@@ -277,22 +459,3 @@ export class SLOTracker {
 export function createSLOTracker(config: SLOTrackerConfig): SLOTracker {
 	return new SLOTracker(config)
 }
-
-/**
- * Convert SLO window to milliseconds for time-based filtering.
- *
- * @param window - SLO window string
- * @returns Window duration in milliseconds
- */
-function getWindowMs(window: SLOWindow): number {
-	switch (window) {
-		case '1h':
-			return 60 * 60 * 1000
-		case '24h':
-			return 24 * 60 * 60 * 1000
-		case '7d':
-			return 7 * 24 * 60 * 60 * 1000
-		case '30d':
-			return 30 * 24 * 60 * 60 * 1000
-	}
-}
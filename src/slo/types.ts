@@ -4,6 +4,8 @@
  * Provides types for defining, tracking, and analyzing SLOs with error budgets.
  */
 
+import type { MetricLabels } from '../instrumentation/metrics.js'
+
 /**
  * SLO metric unit type
  */
@@ -12,7 +14,16 @@ export type SLOUnit = 'ms' | 'percent' | 'count'
 /**
  * SLO time window for evaluation
  */
-export type SLOWindow = '1h' | '24h' | '7d' | '30d'
+export type SLOWindow =
+	| '5m'
+	| '30m'
+	| '1h'
+	| '2h'
+	| '6h'
+	| '24h'
+	| '3d'
+	| '7d'
+	| '30d'
 
 /**
  * Service Level Objective definition with error budget
@@ -30,6 +41,74 @@ export interface SLODefinition {
 	window: SLOWindow
 	/** Error budget (1 - target) */
 	errorBudget: number
+	/** Multi-window burn rate alerts (see `evaluateBurnRateAlerts`) */
+	burnRateAlerts?: SLOBurnRateAlert[]
+	/** Percentile (0-100) for latency SLOs, e.g. 95 for "p95 < threshold" (default: target × 100) */
+	percentile?: number
+	/** Histogram to read latency samples from (default: recorded event values) */
+	histogram?: SLOHistogramSource
+}
+
+/**
+ * Histogram metric used as the sample source for a latency SLO
+ */
+export interface SLOHistogramSource {
+	/** Metric name passed to `observeHistogram` */
+	name: string
+	/** Labels a series must include to be sampled (default: all series) */
+	labels?: MetricLabels
+	/** Unit of observed values (default: "ms"); seconds are converted to ms */
+	unit?: 'ms' | 's'
+}
+
+/**
+ * Latency sample with its observation time
+ */
+export interface SLOLatencySample {
+	/** Latency in milliseconds */
+	value: number
+	/** Unix timestamp in milliseconds */
+	timestamp: number
+}
+
+/**
+ * Result of evaluating a latency SLO percentile
+ */
+export interface SLOLatencyResult {
+	/** Whether the percentile is at or below the threshold (true when there are no samples) */
+	met: boolean
+	/** Percentile that was evaluated (0-100) */
+	percentile: number
+	/** Observed percentile value in ms (null when there are no samples) */
+	value: number | null
+	/** SLO threshold in ms */
+	threshold: number
+	/** Number of samples in the window */
+	sampleCount: number
+	/** Where the samples came from */
+	source: 'histogram' | 'events'
+	/** SLO definition that was checked */
+	slo: SLODefinition
+}
+
+/**
+ * Multi-window burn rate alert rule.
+ *
+ * Fires only when the burn rate meets or exceeds `burnRate` over both the
+ * long window (the burn is significant) and the short window (the burn is
+ * still happening), which keeps alerts precise and lets them reset quickly.
+ */
+export interface SLOBurnRateAlert {
+	/** Alert name, e.g. "page" or "ticket" */
+	name: string
+	/** Burn rate threshold both windows must reach, e.g. 14.4 */
+	burnRate: number
+	/** Long window, e.g. "1h" */
+	longWindow: SLOWindow
+	/** Short window, e.g. "5m" (conventionally 1/12 of the long window) */
+	shortWindow: SLOWindow
+	/** Optional severity label passed through to results */
+	severity?: string
 }
 
 /**
@@ -62,6 +141,118 @@ export interface SLOBreachResult {
 	slo: SLODefinition
 }
 
+/**
+ * Evaluation of a single burn rate alert rule
+ */
+export interface SLOBurnRateAlertEvaluation {
+	/** Alert rule that was evaluated */
+	alert: SLOBurnRateAlert
+	/** Burn rate over the long window */
+	longWindowBurnRate: number
+	/** Burn rate over the short window */
+	shortWindowBurnRate: number
+	/** Whether both windows reached the alert's burn rate */
+	firing: boolean
+}
+
+/**
+ * Result of evaluating all burn rate alerts for an SLO
+ */
+export interface SLOBurnRateAlertResult {
+	/** Whether any alert rule is firing */
+	firing: boolean
+	/** Alert rules that are firing, in definition order */
+	fired: SLOBurnRateAlertEvaluation[]
+	/** Every alert rule that was evaluated, in definition order */
+	evaluations: SLOBurnRateAlertEvaluation[]
+	/** Fraction of error budget left over the SLO window (negative when overspent) */
+	errorBudgetRemaining: number
+	/** SLO definition that was checked */
+	slo: SLODefinition
+}
+
+/**
+ * Time bucket size for error-budget reports
+ */
+export type SLOReportBucket = 'hour' | 'day'
+
+/**
+ * Output format for error-budget reports
+ */
+export type SLOReportFormat = 'json' | 'markdown' | 'terminal'
+
+/**
+ * Options for building an error-budget report
+ */
+export interface SLOBudgetReportOptions {
+	/** Bucket size (default: "day") */
+	bucket?: SLOReportBucket
+	/** SLO names to include (default: all definitions) */
+	sloNames?: string[]
+	/** Report time in milliseconds (default: Date.now()) */
+	now?: number
+}
+
+/**
+ * Error-budget consumption within a single time bucket
+ */
+export interface SLOBudgetPoint {
+	/** Bucket start (Unix ms, aligned to UTC hour/day) */
+	start: number
+	/** Bucket end (Unix ms, exclusive) */
+	end: number
+	/** Events recorded in the bucket */
+	events: number
+	/** Violations recorded in the bucket */
+	violations: number
+	/** Fraction of the window's error budget consumed in this bucket */
+	budgetConsumed: number
+	/** Fraction of the error budget left at the end of this bucket */
+	budgetRemaining: number
+}
+
+/**
+ * Error-budget consumption series for one SLO
+ */
+export interface SLOBudgetSeries {
+	/** Key of the SLO in the definitions */
+	sloName: string
+	/** SLO definition */
+	slo: SLODefinition
+	/** Start of the SLO window (Unix ms) */
+	windowStart: number
+	/** End of the SLO window, i.e. report time (Unix ms) */
+	windowEnd: number
+	/** Events recorded in the window */
+	totalEvents: number
+	/** Violations recorded in the window */
+	violations: number
+	/** Burn rate over the whole window */
+	burnRate: number
+	/** Fraction of the error budget left (negative when overspent) */
+	budgetRemaining: number
+	/**
+	 * When the budget runs out at the window's average consumption rate
+	 * (Unix ms). Equals `windowEnd` when already exhausted, null when no
+	 * budget is being consumed.
+	 */
+	projectedExhaustionAt: number | null
+	/** Per-bucket consumption, oldest first, including empty buckets */
+	points: SLOBudgetPoint[]
+}
+
+/**
+ * Error-budget report across SLOs
+ */
+export interface SLOBudgetReport {
+	/** Report time (Unix ms) */
+	generatedAt: number
+	/** Bucket size used for all series */
+	bucket: SLOReportBucket
+	/** One series per SLO */
+	series: SLOBudgetSeries[]
+}
+
 /**
  * SLO tracker configuration
  */
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test'
+import { spawnWithTimeout } from './index.ts'
+
+// ============================================================================
+// spawnWithTimeout Tests
+// ============================================================================
+
+describe('spawnWithTimeout', () => {
+	test('collects output when the process finishes in time', async () => {
+		const result = await spawnWithTimeout(['sh', '-c', 'echo out; echo err >&2'], 5000)
+
+		expect(result).toEqual({ stdout: 'out\n', stderr: 'err\n', exitCode: 0, timedOut: false })
+	})
+
+	test('kills the process and reports timedOut when it runs too long', async () => {
+		const start = performance.now()
+		const result = await spawnWithTimeout(['sleep', '10'], 50)
+
+		expect(result).toEqual({ stdout: '', stderr: '', exitCode: -1, timedOut: true })
+		expect(performance.now() - start).toBeLessThan(5000)
+	})
+
+	test('kills the process and rejects with the reason when the signal aborts', async () => {
+		const controller = new AbortController()
+		setTimeout(() => controller.abort(new Error('tool call cancelled')), 50)
+
+		const start = performance.now()
+		await expect(
+			spawnWithTimeout(['sleep', '10'], 10_000, { signal: controller.signal }),
+		).rejects.toThrow('tool call cancelled')
+		expect(performance.now() - start).toBeLessThan(5000)
+	})
+
+	test('rejects without spawning when the signal is already aborted', async () => {
+		const reason = new Error('already cancelled')
+
+		await expect(
+			spawnWithTimeout(['sleep', '10'], 10_000, { signal: AbortSignal.abort(reason) }),
+		).rejects.toBe(reason)
+	})
+})
@@ -168,9 +168,12 @@ export async function spawnAndCollect(
  * This wrapper adds timeout protection using AbortController, which is more
  * reliable than Bun's built-in timeout option (which has bugs).
  *
+ * Pass `signal` to also kill the process on cancellation (e.g. the signal
+ * from an MCP tool call); the call then rejects with the signal's reason.
+ *
  * @param cmd - Command and arguments as an array
  * @param timeoutMs - Timeout in milliseconds
- * @param options - Optional spawn options (env)
+ * @param options - Optional spawn options (env, cwd, signal)
  * @returns Promise resolving to stdout, stderr, exit code, and timeout flag
  *
  * @example
@@ -190,29 +193,42 @@ export async function spawnWithTimeout(
 	options?: {
 		env?: Record<string, string | undefined>
 		cwd?: string
+		signal?: AbortSignal
 	},
 ): Promise<SpawnResult & { timedOut: boolean }> {
+	const { signal, ...spawnOptions } = options ?? {}
+	signal?.throwIfAborted()
+
 	const controller = new AbortController()
 	const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+	const timeoutResult = {
+		stdout: '',
+		stderr: '',
+		exitCode: -1,
+		timedOut: true,
+	}
 
 	try {
 		const result = await spawnAndCollect(cmd, {
-			...options,
-			signal: controller.signal,
+			...spawnOptions,
+			signal: signal
+				? AbortSignal.any([controller.signal, signal])
+				: controller.signal,
 		})
-		clearTimeout(timeoutId)
+		// Bun resolves with the kill exit code instead of rejecting on abort
+		signal?.throwIfAborted()
+		if (controller.signal.aborted) {
+			return timeoutResult
+		}
 		return { ...result, timedOut: false }
 	} catch (error) {
-		clearTimeout(timeoutId)
+		signal?.throwIfAborted()
 		if (controller.signal.aborted) {
-			return {
-				stdout: '',
-				stderr: '',
-				exitCode: -1,
-				timedOut: true,
-			}
+			return timeoutResult
 		}
 		throw error
+	} finally {
+		clearTimeout(timeoutId)
 	}
 }
 